@@ -1,16 +1,62 @@
 'use client';
 
-import { useReducer, useState } from 'react';
+import { useEffect, useReducer, useRef, useState } from 'react';
 import UploadComponent from '@/components/UploadComponent';
 import PreviewComponent from '@/components/PreviewComponent';
 import ErrorDisplay from '@/components/ErrorDisplay';
 import ProgressIndicator from '@/components/ProgressIndicator';
+import ReviewComponent from '@/components/ReviewComponent';
+import BatchComponent from '@/components/BatchComponent';
 import { processingReducer } from '@/lib/stateReducer';
-import { getOCRService } from '@/lib/ocrService';
-import { getPatternDetector } from '@/lib/patternDetector';
-import { getRedactionEngine } from '@/lib/redactionEngine';
+import { buildDetectionResult } from '@/lib/reviewItems';
+import { OCR_LANGUAGES } from '@/lib/ocrLanguages';
+import type { ProcessedDocument } from '@/lib/pipeline';
+import { getPipelineClient } from '@/lib/pipelineClient';
+import { JobQueue } from '@/lib/jobQueue';
+import { isCancelledError } from '@/lib/cancellation';
+import { DEFAULT_REDACTION_STYLE } from '@/lib/redactionStyles';
+import { buildAuditReport } from '@/lib/auditReport';
+import { expandRedactions } from '@/lib/verification';
+import { DEFAULT_SANITIZATION_POLICY } from '@/lib/pdfSanitizer';
 import { getDownloadHandler } from '@/utils/downloadHandler';
-import { FileError } from '@/types';
+import { getRelativePath } from '@/utils/fileValidation';
+import {
+  AadhaarMaskingOptions,
+  AuditReportFormat,
+  BoundingBox,
+  ChecksumStrictness,
+  DetectionResult,
+  FileError,
+  Job,
+  OCRLanguage,
+  PageData,
+  PageProgress,
+  PDFSanitizationPolicy,
+  RedactionStyle,
+  SkippedFile,
+  VerificationResult,
+} from '@/types';
+
+/**
+ * Choices for how Aadhaar numbers that fail their check digit are treated
+ */
+const AADHAAR_STRICTNESS_OPTIONS: { value: ChecksumStrictness; label: string }[] = [
+  { value: 'lenient', label: 'Flag them for review' },
+  { value: 'strict', label: 'Ignore them' },
+  { value: 'off', label: 'Treat them as valid' },
+];
+
+/**
+ * Reducer fields for a progress report: the page being worked on and the
+ * overall fraction done
+ */
+function getProgressFields(progress: PageProgress) {
+  return {
+    currentPage: Math.min(progress.completedPages + 1, progress.totalPages),
+    totalPages: progress.totalPages,
+    progress: progress.progress,
+  };
+}
 
 export default function Home() {
   // Initialize processing state with reducer
@@ -21,52 +67,240 @@ export default function Home() {
   // Track the original file
   const [originalFile, setOriginalFile] = useState<File | null>(null);
 
+  // Language of the document text, for OCR
+  const [ocrLanguage, setOCRLanguage] = useState<OCRLanguage>('auto');
+
+  // How Aadhaar numbers that fail their check digit are treated, e.g. after an OCR misread
+  const [aadhaarStrictness, setAadhaarStrictness] = useState<ChecksumStrictness>('lenient');
+
+  // Aadhaar masking is off unless the user asks for it during review
+  const [aadhaarMasking, setAadhaarMasking] = useState<AadhaarMaskingOptions | undefined>();
+
+  // How redacted regions look, chosen during review and kept for batches
+  const [redactionStyle, setRedactionStyle] = useState<RedactionStyle>(DEFAULT_REDACTION_STYLE);
+
+  // What happens to PDF metadata, annotations and other parts besides the pages
+  const [sanitizationPolicy, setSanitizationPolicy] =
+    useState<PDFSanitizationPolicy>(DEFAULT_SANITIZATION_POLICY);
+
+  // Whether redacted documents are read again to check nothing is left readable
+  const [verifyOutput, setVerifyOutput] = useState(false);
+
+  // OCR pages of the document being redacted, kept to redact it again
+  const [documentPages, setDocumentPages] = useState<PageData[]>([]);
+
+  // Batch of documents, when more than one is uploaded at once
+  const [batchQueue, setBatchQueue] = useState<JobQueue<ProcessedDocument> | null>(null);
+  const [batchJobs, setBatchJobs] = useState<Job<ProcessedDocument>[]>([]);
+  const [skippedFiles, setSkippedFiles] = useState<SkippedFile[]>([]);
+
+  // Why the last download (archive or audit report) could not be made
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  // Aborts the document being processed, when the user cancels
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!batchQueue) return;
+
+    setBatchJobs(batchQueue.getJobs());
+    return batchQueue.subscribe(setBatchJobs);
+  }, [batchQueue]);
+
+  /**
+   * Abort any processing still running and return the signal for the next run
+   */
+  const startProcessing = (): AbortSignal => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller.signal;
+  };
+
+  /**
+   * Review a single document; redact several as a batch
+   */
+  const handleFilesAccepted = (files: File[], skipped: SkippedFile[]) => {
+    if (files.length === 1 && skipped.length === 0) {
+      handleFileAccepted(files[0]);
+      return;
+    }
+
+    // One document at a time: the OCR worker pool already reads the pages of each in parallel
+    const queue = new JobQueue(async (file: File, signal: AbortSignal) => {
+      const processed = await getPipelineClient().processDocument(file, {
+        language: ocrLanguage,
+        aadhaarStrictness,
+        aadhaarMasking,
+        style: redactionStyle,
+        sanitization: sanitizationPolicy,
+        signal,
+      });
+
+      // Documents with redacted PII still readable fail, so they are never downloaded
+      if (verifyOutput) {
+        const { leaks } = await getPipelineClient().verifyDocument(
+          processed.document.blob,
+          processed.detections,
+          { language: ocrLanguage, aadhaarMasking, style: redactionStyle, signal }
+        );
+        if (leaks.length > 0) {
+          URL.revokeObjectURL(processed.document.previewUrl);
+          throw new Error(
+            `Verification found ${leaks.length} redacted item(s) still readable. Upload this document on its own to review it.`
+          );
+        }
+      }
+
+      return processed;
+    });
+    queue.add(files);
+    setSkippedFiles(skipped);
+    setBatchQueue(queue);
+    dispatch({ type: 'RESET' });
+  };
+
   /**
    * Handle file upload and start the processing pipeline
    */
   const handleFileAccepted = async (file: File) => {
     setOriginalFile(file);
+    const signal = startProcessing();
 
     try {
       // Start upload phase
       dispatch({ type: 'START_UPLOAD' });
       dispatch({ type: 'UPDATE_UPLOAD_PROGRESS', progress: 100 });
 
-      // Start OCR extraction phase
-      dispatch({ type: 'START_EXTRACTING' });
-      const ocrService = getOCRService();
-      const ocrResult = await ocrService.extractText(file);
+      // OCR extraction, then pattern, photo and code detection
+      const { ocrResult, detections } = await getPipelineClient().detectDocument(file, {
+        language: ocrLanguage,
+        aadhaarStrictness,
+        onStage: (stage) => {
+          if (stage === 'extracting') dispatch({ type: 'START_EXTRACTING' });
+          if (stage === 'detecting') dispatch({ type: 'START_DETECTING' });
+        },
+        onProgress: (stage, progress) => {
+          if (stage === 'extracting') {
+            dispatch({ type: 'UPDATE_EXTRACTING_PROGRESS', ...getProgressFields(progress) });
+          }
+        },
+        signal,
+      });
 
-      if (!ocrResult.success || ocrResult.error) {
-        throw new Error(ocrResult.error || 'OCR extraction failed');
-      }
+      // Let the user review detections before anything is redacted
+      dispatch({ type: 'START_REVIEW', ocrResult, detections });
+    } catch (error) {
+      // A cancelled run has already left the processing state
+      if (isCancelledError(error)) return;
 
-      // Start pattern detection phase
-      dispatch({ type: 'START_DETECTING' });
-      const patternDetector = getPatternDetector();
-      const detections = patternDetector.detectPII(ocrResult);
+      const errorMessage =
+        error instanceof Error ? error.message : 'An unexpected error occurred';
+      dispatch({ type: 'ERROR', error: errorMessage });
+    }
+  };
 
+  /**
+   * Redact a document and, when asked, read the output again for PII that
+   * was missed
+   */
+  const redactAndVerify = async (file: File, detections: DetectionResult, pages: PageData[]) => {
+    const signal = startProcessing();
+
+    try {
       // Start redaction phase
       dispatch({ type: 'START_REDACTING' });
-      const redactionEngine = getRedactionEngine();
-      const redactedDocument = await redactionEngine.applyRedactions(
-        file,
-        detections
-      );
+      const redactedDocument = await getPipelineClient().redactDocument(file, detections, {
+        pages,
+        aadhaarMasking,
+        style: redactionStyle,
+        sanitization: sanitizationPolicy,
+        onProgress: (_stage, progress) => {
+          dispatch({ type: 'UPDATE_REDACTING_PROGRESS', ...getProgressFields(progress) });
+        },
+        signal,
+      });
+
+      let verification: VerificationResult | undefined;
+      if (verifyOutput) {
+        dispatch({ type: 'START_VERIFYING' });
+        verification = await getPipelineClient().verifyDocument(redactedDocument.blob, detections, {
+          language: ocrLanguage,
+          aadhaarMasking,
+          style: redactionStyle,
+          onProgress: (_stage, progress) => {
+            dispatch({ type: 'UPDATE_VERIFYING_PROGRESS', ...getProgressFields(progress) });
+          },
+          signal,
+        });
+      }
 
       // Complete - move to preview
       dispatch({
         type: 'COMPLETE',
         result: redactedDocument,
         detections,
+        verification,
       });
     } catch (error) {
+      // A cancelled run has already left the processing state
+      if (isCancelledError(error)) return;
+
       const errorMessage =
         error instanceof Error ? error.message : 'An unexpected error occurred';
       dispatch({ type: 'ERROR', error: errorMessage });
     }
   };
 
+  /**
+   * Redact the regions accepted during review
+   */
+  const handleApplyRedactions = async () => {
+    if (processingState.status !== 'reviewing' || !originalFile) {
+      return;
+    }
+
+    const { ocrResult, items } = processingState;
+    setDocumentPages(ocrResult.pages);
+    await redactAndVerify(originalFile, buildDetectionResult(items), ocrResult.pages);
+  };
+
+  /**
+   * Redact again with larger boxes, covering what verification still found
+   */
+  const handleExpandRedactions = async () => {
+    if (processingState.status !== 'complete' || !processingState.verification || !originalFile) {
+      return;
+    }
+
+    const { result, detections, verification } = processingState;
+    URL.revokeObjectURL(result.previewUrl);
+    await redactAndVerify(
+      originalFile,
+      expandRedactions(detections, verification.leaks),
+      documentPages
+    );
+  };
+
+  /**
+   * Review step handlers
+   */
+  const handleToggleReviewItem = (id: string) => {
+    dispatch({ type: 'TOGGLE_REVIEW_ITEM', id });
+  };
+
+  const handleResizeReviewItem = (id: string, bbox: BoundingBox) => {
+    dispatch({ type: 'UPDATE_REVIEW_ITEM_BBOX', id, bbox });
+  };
+
+  const handleAddManualRedaction = (pageNumber: number, bbox: BoundingBox) => {
+    dispatch({ type: 'ADD_MANUAL_REDACTION', pageNumber, bbox });
+  };
+
+  const handleRemoveReviewItem = (id: string) => {
+    dispatch({ type: 'REMOVE_REVIEW_ITEM', id });
+  };
+
   /**
    * Handle file upload rejection
    */
@@ -87,16 +321,115 @@ export default function Home() {
     }
   };
 
+  /**
+   * Handle download of the audit report for the redacted document
+   */
+  const handleDownloadAuditReport = async (format: AuditReportFormat) => {
+    if (processingState.status !== 'complete' || !originalFile) {
+      return;
+    }
+
+    const downloadHandler = getDownloadHandler();
+    setDownloadError(null);
+    try {
+      const report = await buildAuditReport({
+        inputFile: originalFile,
+        output: processingState.result.blob,
+        outputFilename: downloadHandler.generateRedactedFilename(originalFile.name),
+        detections: processingState.detections,
+        sanitization: processingState.result.sanitization,
+      });
+      await downloadHandler.downloadAuditReport(report, originalFile.name, format);
+    } catch (error) {
+      console.error('Failed to create audit report:', error);
+      setDownloadError('Audit report download failed');
+    }
+  };
+
+  /**
+   * Batch handlers
+   */
+  const handleRetryJob = (id: string) => {
+    batchQueue?.retry(id);
+  };
+
+  const handleDownloadJob = (id: string) => {
+    const job = batchJobs.find(candidate => candidate.id === id);
+    if (job?.result) {
+      const downloadHandler = getDownloadHandler();
+      downloadHandler.downloadBlob(
+        job.result.document.blob,
+        downloadHandler.generateRedactedFilename(job.file.name)
+      );
+    }
+  };
+
+  const handleDownloadAll = async () => {
+    const downloadHandler = getDownloadHandler();
+    setDownloadError(null);
+
+    try {
+      const entries = await Promise.all(
+        batchJobs.flatMap(({ file, result }) => {
+          if (!result) return [];
+
+          const originalFilename = getRelativePath(file);
+          return [
+            buildAuditReport({
+              inputFile: file,
+              output: result.document.blob,
+              outputFilename: downloadHandler.generateRedactedFilename(originalFilename),
+              detections: result.detections,
+              sanitization: result.document.sanitization,
+            }).then(auditReport => ({ document: result.document, originalFilename, auditReport })),
+          ];
+        })
+      );
+      await downloadHandler.downloadArchive(entries, 'redacted-documents.zip');
+    } catch (error) {
+      console.error('Failed to create archive:', error);
+      setDownloadError('Archive download failed');
+    }
+  };
+
+  const handleResetBatch = () => {
+    for (const job of batchJobs) {
+      if (job.result) {
+        URL.revokeObjectURL(job.result.document.previewUrl);
+      }
+    }
+
+    batchQueue?.clear();
+    setDownloadError(null);
+    setBatchQueue(null);
+    setBatchJobs([]);
+    setSkippedFiles([]);
+  };
+
+  /**
+   * Stop the document being processed and return to the upload step
+   */
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setOriginalFile(null);
+    dispatch({ type: 'CANCEL' });
+  };
+
   /**
    * Handle reset to upload a new document
    */
   const handleReset = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+
     // Clean up preview URL if it exists
     if (processingState.status === 'complete') {
       URL.revokeObjectURL(processingState.result.previewUrl);
     }
 
     setOriginalFile(null);
+    setDownloadError(null);
     dispatch({ type: 'RESET' });
   };
 
@@ -115,15 +448,70 @@ export default function Home() {
 
         {/* Main Content */}
         <div className="space-y-6">
-          {/* Upload Section - Show when idle or error */}
-          {(processingState.status === 'idle' ||
+          {/* Upload Section - Show when idle, cancelled or error */}
+          {!batchQueue &&
+            (processingState.status === 'idle' ||
+            processingState.status === 'cancelled' ||
             processingState.status === 'error') && (
               <div className="bg-black rounded-lg shadow-md p-6">
                 <UploadComponent
-                  onFileAccepted={handleFileAccepted}
+                  onFilesAccepted={handleFilesAccepted}
                   onFileRejected={handleFileRejected}
                 />
 
+                {/* OCR language */}
+                <div className="mt-4 flex items-center justify-center space-x-3 text-sm text-gray-300">
+                  <label htmlFor="ocr-language">Document language</label>
+                  <select
+                    id="ocr-language"
+                    value={ocrLanguage}
+                    onChange={(event) => setOCRLanguage(event.target.value as OCRLanguage)}
+                    className="bg-zinc-950 border border-gray-700 rounded-lg px-3 py-1.5 text-gray-200"
+                  >
+                    {OCR_LANGUAGES.map(({ code, label }) => (
+                      <option key={code} value={code}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {/* Aadhaar check digit */}
+                <div className="mt-3 flex items-center justify-center space-x-3 text-sm text-gray-300">
+                  <label htmlFor="aadhaar-strictness">Aadhaar numbers failing their check digit</label>
+                  <select
+                    id="aadhaar-strictness"
+                    value={aadhaarStrictness}
+                    onChange={(event) =>
+                      setAadhaarStrictness(event.target.value as ChecksumStrictness)
+                    }
+                    className="bg-zinc-950 border border-gray-700 rounded-lg px-3 py-1.5 text-gray-200"
+                  >
+                    {AADHAAR_STRICTNESS_OPTIONS.map(({ value, label }) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {/* Verification of batches; single documents can change it during review */}
+                <label className="mt-3 flex items-center justify-center space-x-3 cursor-pointer text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={verifyOutput}
+                    onChange={(event) => setVerifyOutput(event.target.checked)}
+                    className="h-4 w-4"
+                  />
+                  <span>Check batches of documents by reading each one again after redacting</span>
+                </label>
+
+                {processingState.status === 'cancelled' && (
+                  <p className="mt-6 text-center text-sm text-gray-400">
+                    Processing cancelled. Upload a document to start again.
+                  </p>
+                )}
+
                 {/* Error Display */}
                 {processingState.status === 'error' && (
                   <div className="mt-6">
@@ -133,20 +521,59 @@ export default function Home() {
               </div>
             )}
 
+          {/* Download Error - Show when an archive or audit report could not be made */}
+          {downloadError && (batchQueue || processingState.status === 'complete') && (
+            <ErrorDisplay error={downloadError} onDismiss={() => setDownloadError(null)} />
+          )}
+
+          {/* Batch Section - Show while a batch is open */}
+          {batchQueue && (
+            <BatchComponent
+              jobs={batchJobs}
+              skipped={skippedFiles}
+              verifyOutput={verifyOutput}
+              onRetry={handleRetryJob}
+              onDownload={handleDownloadJob}
+              onDownloadAll={handleDownloadAll}
+              onReset={handleResetBatch}
+            />
+          )}
+
+          {/* Review Section - Show once detection has finished */}
+          {processingState.status === 'reviewing' && originalFile && (
+            <ReviewComponent
+              file={originalFile}
+              pages={processingState.ocrResult.pages}
+              items={processingState.items}
+              aadhaarMasking={aadhaarMasking}
+              onAadhaarMaskingChange={setAadhaarMasking}
+              redactionStyle={redactionStyle}
+              onRedactionStyleChange={setRedactionStyle}
+              sanitizationPolicy={sanitizationPolicy}
+              onSanitizationPolicyChange={setSanitizationPolicy}
+              verifyOutput={verifyOutput}
+              onVerifyOutputChange={setVerifyOutput}
+              onToggleItem={handleToggleReviewItem}
+              onResizeItem={handleResizeReviewItem}
+              onAddItem={handleAddManualRedaction}
+              onRemoveItem={handleRemoveReviewItem}
+              onConfirm={handleApplyRedactions}
+              onCancel={handleReset}
+            />
+          )}
+
           {/* Processing Section - Show during processing */}
-          <ProgressIndicator processingState={processingState} />
+          <ProgressIndicator processingState={processingState} onCancel={handleCancel} />
 
           {/* Preview Section - Show when complete */}
           {processingState.status === 'complete' && (
             <PreviewComponent
               document={processingState.result}
-              detectionCount={{
-                aadhaar: processingState.detections.aadhaarNumbers.length,
-                pan: processingState.detections.panNumbers.length,
-                phone: processingState.detections.phoneNumbers.length,
-                address: processingState.detections.addresses.length,
-              }}
+              detections={processingState.detections}
               onDownload={handleDownload}
+              verification={processingState.verification}
+              onDownloadAuditReport={handleDownloadAuditReport}
+              onExpandRedactions={handleExpandRedactions}
               onReset={handleReset}
             />
           )}
@@ -0,0 +1,149 @@
+'use client';
+
+import { Job, JobStatus, SkippedFile } from '@/types';
+import type { ProcessedDocument } from '@/lib/pipeline';
+import { getRelativePath } from '@/utils/fileValidation';
+
+interface BatchComponentProps {
+  jobs: Job<ProcessedDocument>[];
+  skipped: SkippedFile[];
+  verifyOutput: boolean;
+  onRetry: (id: string) => void;
+  onDownload: (id: string) => void;
+  onDownloadAll: () => void;
+  onReset: () => void;
+}
+
+const STATUS_STYLES: Record<JobStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-gray-800 text-gray-300' },
+  processing: { label: 'Processing', className: 'bg-blue-950 text-blue-300' },
+  done: { label: 'Redacted', className: 'bg-green-950 text-green-300' },
+  failed: { label: 'Failed', className: 'bg-red-950 text-red-300' },
+};
+
+/**
+ * BatchComponent
+ * Lists the documents of a batch with their status, and downloads the
+ * redacted results one by one or as a ZIP archive
+ */
+export default function BatchComponent({
+  jobs,
+  skipped,
+  verifyOutput,
+  onRetry,
+  onDownload,
+  onDownloadAll,
+  onReset,
+}: BatchComponentProps) {
+  const doneCount = jobs.filter(job => job.status === 'done').length;
+  const failedCount = jobs.filter(job => job.status === 'failed').length;
+  const isRunning = jobs.some(job => job.status === 'queued' || job.status === 'processing');
+
+  return (
+    <div className="bg-black rounded-lg shadow-md p-6 space-y-6">
+      {/* Summary */}
+      <div className="text-center">
+        <h2 className="text-2xl font-bold text-white mb-2">
+          {isRunning ? 'Redacting documents...' : 'Batch complete'}
+        </h2>
+        <p className="text-gray-300 text-sm">
+          {doneCount} of {jobs.length} redacted
+          {failedCount > 0 && `, ${failedCount} failed`}
+        </p>
+        <p className="text-gray-500 text-xs mt-1">
+          Every confident detection is redacted in batch mode. Upload a single document to review its detections.
+        </p>
+        <p className="text-gray-500 text-xs mt-1">
+          {verifyOutput
+            ? 'Each redacted document is read again; documents with redacted details still readable fail.'
+            : 'Redacted documents are not verified in this batch.'}
+        </p>
+      </div>
+
+      {/* Jobs */}
+      <ul className="divide-y divide-gray-800 border border-gray-800 rounded-lg">
+        {jobs.map(job => (
+          <li key={job.id} className="flex items-center gap-4 px-4 py-3">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-gray-200 truncate" title={getRelativePath(job.file)}>
+                {getRelativePath(job.file)}
+              </p>
+              {job.status === 'done' && job.result && (
+                <p className="text-xs text-gray-400">
+                  {job.result.detections.detections.length} item(s) redacted
+                </p>
+              )}
+              {job.status === 'done' && job.result && job.result.unredacted.length > 0 && (
+                <p className="text-xs text-yellow-400">
+                  {job.result.unredacted.length} low-confidence item(s) left unredacted. Upload this
+                  document on its own to review them.
+                </p>
+              )}
+              {job.status === 'failed' && (
+                <p className="text-xs text-red-400">{job.error}</p>
+              )}
+            </div>
+
+            <span className={`px-2 py-1 rounded text-xs font-medium ${STATUS_STYLES[job.status].className}`}>
+              {STATUS_STYLES[job.status].label}
+            </span>
+
+            {job.status === 'done' && (
+              <button
+                onClick={() => onDownload(job.id)}
+                className="text-sm text-green-400 hover:text-green-300"
+              >
+                Download
+              </button>
+            )}
+            {job.status === 'failed' && (
+              <button
+                onClick={() => onRetry(job.id)}
+                className="text-sm text-blue-400 hover:text-blue-300"
+              >
+                Retry
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {/* Skipped files */}
+      {skipped.length > 0 && (
+        <div className="text-sm text-gray-400">
+          <p className="font-medium text-gray-300 mb-1">Skipped {skipped.length} file(s):</p>
+          <ul className="space-y-1">
+            {skipped.map((file, index) => (
+              <li key={`${file.name}-${index}`}>
+                {file.name}: {file.error.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Action Buttons */}
+      <div className="flex flex-col sm:flex-row gap-4 justify-center">
+        <button
+          onClick={onDownloadAll}
+          disabled={doneCount === 0}
+          className={`
+            px-6 py-3 rounded-lg font-medium transition-colors
+            ${doneCount === 0
+              ? 'bg-gray-800 text-gray-500 cursor-not-allowed'
+              : 'bg-green-600 text-white hover:bg-green-700'
+            }
+          `}
+        >
+          Download All (ZIP)
+        </button>
+        <button
+          onClick={onReset}
+          className="px-6 py-3 bg-gray-600 text-white rounded-lg font-medium hover:bg-gray-700 transition-colors"
+        >
+          {isRunning ? 'Cancel Batch' : 'Upload New Documents'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,30 +1,29 @@
 'use client';
 
 import { useEffect, useRef, useState } from 'react';
-import * as pdfjsLib from 'pdfjs-dist';
-import { RedactedDocument, DetectionResult } from '@/types';
-
-// Configure PDF.js worker
-if (typeof window !== 'undefined') {
-  pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`;
-}
+import { AuditReportFormat, RedactedDocument, DetectionResult, VerificationResult } from '@/types';
+import { getDetectorRegistry } from '@/lib/detectorRegistry';
+import { maskValue } from '@/lib/auditReport';
+import { countDetectionsByType } from '@/lib/detectionResults';
+import { loadPdfDocument } from '@/lib/pdfjs';
 
 interface PreviewComponentProps {
   document: RedactedDocument;
-  detectionCount: {
-    aadhaar: number;
-    pan: number;
-    phone: number;
-    address: number;
-  };
+  detections: DetectionResult;
+  verification?: VerificationResult; // Download is blocked while it reports leaks
   onDownload: () => void;
+  onDownloadAuditReport: (format: AuditReportFormat) => void;
+  onExpandRedactions: () => void;
   onReset: () => void;
 }
 
 export default function PreviewComponent({
   document,
-  detectionCount,
+  detections,
+  verification,
   onDownload,
+  onDownloadAuditReport,
+  onExpandRedactions,
   onReset,
 }: PreviewComponentProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -42,8 +41,7 @@ export default function PreviewComponent({
     setError(null);
 
     try {
-      const loadingTask = pdfjsLib.getDocument(document.previewUrl);
-      const pdf = await loadingTask.promise;
+      const pdf = await loadPdfDocument(document.previewUrl);
       setTotalPages(pdf.numPages);
 
       const page = await pdf.getPage(currentPage);
@@ -92,11 +90,10 @@ export default function PreviewComponent({
     }
   };
 
-  const totalDetections =
-    detectionCount.aadhaar +
-    detectionCount.pan +
-    detectionCount.phone +
-    detectionCount.address;
+  const registry = getDetectorRegistry();
+  const detectionCounts = Array.from(countDetectionsByType(detections, registry).entries());
+  const totalDetections = detections.detections.length;
+  const leaks = verification?.leaks ?? [];
 
   return (
     <div className="w-full max-w-4xl mx-auto space-y-6">
@@ -104,30 +101,22 @@ export default function PreviewComponent({
       <div className="bg-black rounded-lg shadow-md p-6">
         <h2 className="text-xl font-semibold mb-4 text-white">Detection Summary</h2>
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-          <div className="text-center p-4 bg-blue-950/30 rounded-lg border border-blue-900/50">
-            <div className="text-2xl font-bold text-blue-400">
-              {detectionCount.aadhaar}
-            </div>
-            <div className="text-sm text-gray-400">Aadhaar Numbers</div>
-          </div>
-          <div className="text-center p-4 bg-green-950/30 rounded-lg border border-green-900/50">
-            <div className="text-2xl font-bold text-green-400">
-              {detectionCount.pan}
-            </div>
-            <div className="text-sm text-gray-400">PAN Numbers</div>
-          </div>
-          <div className="text-center p-4 bg-purple-950/30 rounded-lg border border-purple-900/50">
-            <div className="text-2xl font-bold text-purple-400">
-              {detectionCount.phone}
-            </div>
-            <div className="text-sm text-gray-400">Phone Numbers</div>
-          </div>
-          <div className="text-center p-4 bg-orange-950/30 rounded-lg border border-orange-900/50">
-            <div className="text-2xl font-bold text-orange-400">
-              {detectionCount.address}
-            </div>
-            <div className="text-sm text-gray-400">Addresses</div>
-          </div>
+          {detectionCounts.map(([type, count]) => {
+            const { label, color } = registry.describe(type);
+
+            return (
+              <div
+                key={type}
+                className="text-center p-4 bg-zinc-950 rounded-lg border"
+                style={{ borderColor: color }}
+              >
+                <div className="text-2xl font-bold" style={{ color }}>
+                  {count}
+                </div>
+                <div className="text-sm text-gray-400">{label}</div>
+              </div>
+            );
+          })}
         </div>
         <div className="mt-4 text-center">
           <p className="text-sm text-gray-400">
@@ -137,6 +126,42 @@ export default function PreviewComponent({
         </div>
       </div>
 
+      {/* Verification */}
+      {verification && leaks.length === 0 && (
+        <div className="p-4 bg-green-950/40 border border-green-700 rounded-lg">
+          <p className="text-sm text-green-300">
+            Verified: none of the redacted information could be read from the redacted document.
+          </p>
+        </div>
+      )}
+      {leaks.length > 0 && (
+        <div className="p-6 bg-red-950/40 border border-red-700 rounded-lg space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold text-red-300">
+              {leaks.length} redacted item{leaks.length !== 1 ? 's are' : ' is'} still readable
+            </h2>
+            <p className="text-sm text-gray-300">
+              Reading the redacted document again found the information below. Download is
+              blocked until the boxes cover it.
+            </p>
+          </div>
+          <ul className="space-y-1 text-sm text-gray-300">
+            {leaks.map((leak, index) => (
+              <li key={index}>
+                {registry.describe(leak.type).label} on page {leak.pageNumber}:{' '}
+                <span className="font-mono">{maskValue(leak.value, leak.type)}</span>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={onExpandRedactions}
+            className="px-6 py-3 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 transition-colors"
+          >
+            Expand Boxes and Redact Again
+          </button>
+        </div>
+      )}
+
       {/* Document Preview */}
       <div className="bg-black rounded-lg shadow-md p-6">
         <h2 className="text-xl font-semibold mb-4 text-white">Redacted Document Preview</h2>
@@ -214,7 +239,14 @@ export default function PreviewComponent({
       <div className="flex flex-col sm:flex-row gap-4 justify-center">
         <button
           onClick={onDownload}
-          className="px-6 py-3 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors flex items-center justify-center space-x-2"
+          disabled={leaks.length > 0}
+          className={`
+            px-6 py-3 rounded-lg font-medium transition-colors flex items-center justify-center space-x-2
+            ${leaks.length > 0
+              ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+              : 'bg-green-600 text-white hover:bg-green-700'
+            }
+          `}
         >
           <svg
             className="w-5 h-5"
@@ -232,6 +264,20 @@ export default function PreviewComponent({
           </svg>
           <span>Download Redacted Document</span>
         </button>
+        <button
+          onClick={() => onDownloadAuditReport('json')}
+          disabled={leaks.length > 0}
+          className="px-6 py-3 bg-zinc-800 text-white rounded-lg font-medium hover:bg-zinc-700 transition-colors disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed"
+        >
+          Audit Report (JSON)
+        </button>
+        <button
+          onClick={() => onDownloadAuditReport('pdf')}
+          disabled={leaks.length > 0}
+          className="px-6 py-3 bg-zinc-800 text-white rounded-lg font-medium hover:bg-zinc-700 transition-colors disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed"
+        >
+          Audit Report (PDF)
+        </button>
         <button
           onClick={onReset}
           className="px-6 py-3 bg-gray-600 text-white rounded-lg font-medium hover:bg-gray-700 transition-colors flex items-center justify-center space-x-2"
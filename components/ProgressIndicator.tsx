@@ -1,24 +1,36 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import { ProcessingState } from '@/types';
+import { estimateRemainingMs, formatRemainingTime } from '@/utils/timeEstimate';
 
 interface ProgressIndicatorProps {
   processingState: ProcessingState;
+  onCancel?: () => void;
 }
 
 /**
  * ProgressIndicator Component
- * Shows loading spinner, current processing stage, and progress percentage
+ * Shows loading spinner, current processing stage, progress percentage and,
+ * on long documents, an estimate of the time left
  */
 export default function ProgressIndicator({
   processingState,
+  onCancel,
 }: ProgressIndicatorProps) {
+  // When the current stage started, for the time estimate
+  const [stageStartedAt, setStageStartedAt] = useState(() => Date.now());
+  useEffect(() => {
+    setStageStartedAt(Date.now());
+  }, [processingState.status]);
+
   // Only show for processing states
   if (
     processingState.status !== 'uploading' &&
     processingState.status !== 'extracting' &&
     processingState.status !== 'detecting' &&
-    processingState.status !== 'redacting'
+    processingState.status !== 'redacting' &&
+    processingState.status !== 'verifying'
   ) {
     return null;
   }
@@ -60,6 +72,16 @@ export default function ProgressIndicator({
           step: 4,
           totalSteps: 4,
         };
+      case 'verifying':
+        return {
+          title: 'Checking the redacted document...',
+          description:
+            processingState.totalPages && processingState.currentPage
+              ? `Reading page ${processingState.currentPage} of ${processingState.totalPages} again`
+              : 'Reading it again to make sure nothing sensitive is left',
+          step: 4,
+          totalSteps: 4,
+        };
       default:
         return {
           title: 'Processing...',
@@ -75,7 +97,15 @@ export default function ProgressIndicator({
 
   // Calculate page progress for multi-page documents
   const getPageProgress = () => {
-    if (processingState.status === 'extracting' || processingState.status === 'redacting') {
+    if (
+      processingState.status === 'extracting' ||
+      processingState.status === 'redacting' ||
+      processingState.status === 'verifying'
+    ) {
+      // Reported progress includes pages still being read
+      if (processingState.progress !== undefined) {
+        return processingState.progress * 100;
+      }
       if (processingState.currentPage && processingState.totalPages) {
         return (processingState.currentPage / processingState.totalPages) * 100;
       }
@@ -84,6 +114,8 @@ export default function ProgressIndicator({
   };
 
   const pageProgress = getPageProgress();
+  const remainingMs =
+    pageProgress !== null ? estimateRemainingMs(pageProgress / 100, Date.now() - stageStartedAt) : null;
 
   return (
     <div className="bg-black rounded-lg shadow-md p-8">
@@ -134,6 +166,7 @@ export default function ProgressIndicator({
               </div>
               <div className="text-xs text-gray-400">
                 {Math.round(pageProgress)}% of current stage
+                {remainingMs !== null && ` · ${formatRemainingTime(remainingMs)}`}
               </div>
             </>
           )}
@@ -177,6 +210,16 @@ export default function ProgressIndicator({
             />
           ))}
         </div>
+
+        {/* Cancel Button */}
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="px-6 py-2 bg-gray-600 text-white rounded-lg text-sm font-medium hover:bg-gray-700 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
       </div>
     </div>
   );
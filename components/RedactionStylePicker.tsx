@@ -0,0 +1,172 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { RedactionFont, RedactionStyle } from '@/types';
+import {
+  MAX_REDACTION_STRENGTH,
+  MIN_REDACTION_STRENGTH,
+  REDACTION_FONTS,
+  REDACTION_STYLES,
+  paintRegions,
+} from '@/lib/redactionStyles';
+
+interface RedactionStylePickerProps {
+  style: RedactionStyle;
+  onChange: (style: RedactionStyle) => void;
+}
+
+const PREVIEW_WIDTH = 180;
+const PREVIEW_HEIGHT = 48;
+
+/**
+ * A sample field redacted with the given style, painted the same way as the
+ * redacted document
+ */
+function StylePreview({ style }: { style: RedactionStyle }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    ctx.fillStyle = 'rgb(255, 255, 255)';
+    ctx.fillRect(0, 0, PREVIEW_WIDTH, PREVIEW_HEIGHT);
+    ctx.fillStyle = 'rgb(0, 0, 0)';
+    ctx.font = '14px sans-serif';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('PAN: ABCDE1234F', 10, PREVIEW_HEIGHT / 2);
+
+    paintRegions(
+      ctx,
+      [{ bbox: { x: 46, y: 14, width: 124, height: 20 }, type: 'PAN' }],
+      style
+    );
+  }, [style]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={PREVIEW_WIDTH}
+      height={PREVIEW_HEIGHT}
+      className="w-full h-auto rounded"
+    />
+  );
+}
+
+/**
+ * RedactionStylePicker
+ * Chooses how redacted regions look, with a preview of each style
+ */
+export default function RedactionStylePicker({ style, onChange }: RedactionStylePickerProps) {
+  const update = (changes: Partial<RedactionStyle>) => onChange({ ...style, ...changes });
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-300">Redaction style</p>
+
+      {/* Styles with previews */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {REDACTION_STYLES.map(({ type, label }) => (
+          <button
+            key={type}
+            onClick={() => update({ type })}
+            className={`
+              p-2 rounded-lg border text-left transition-colors
+              ${style.type === type
+                ? 'border-blue-500 bg-blue-950/40'
+                : 'border-gray-700 hover:border-gray-500'
+              }
+            `}
+          >
+            <StylePreview style={{ ...style, type }} />
+            <span className="block mt-1 text-xs text-gray-300">{label}</span>
+          </button>
+        ))}
+      </div>
+
+      {/* Style settings */}
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-300">
+        {(style.type === 'solid' || style.type === 'label') && (
+          <label className="flex items-center space-x-2">
+            <span>Fill</span>
+            <input
+              type="color"
+              value={style.fillColor}
+              onChange={(event) => update({ fillColor: event.target.value })}
+              className="h-7 w-10 bg-transparent"
+            />
+          </label>
+        )}
+
+        {style.type === 'label' && (
+          <>
+            <label className="flex items-center space-x-2">
+              <span>Text</span>
+              <input
+                type="color"
+                value={style.labelColor}
+                onChange={(event) => update({ labelColor: event.target.value })}
+                className="h-7 w-10 bg-transparent"
+              />
+            </label>
+            <label className="flex items-center space-x-2">
+              <span>Label</span>
+              <input
+                type="text"
+                value={style.labelText}
+                onChange={(event) => update({ labelText: event.target.value })}
+                className="bg-zinc-950 border border-gray-700 rounded-lg px-2 py-1 text-gray-200"
+              />
+            </label>
+            <label className="flex items-center space-x-2">
+              <span>Font</span>
+              <select
+                value={style.font}
+                onChange={(event) => update({ font: event.target.value as RedactionFont })}
+                className="bg-zinc-950 border border-gray-700 rounded-lg px-2 py-1 text-gray-200"
+              >
+                {REDACTION_FONTS.map(({ font, label }) => (
+                  <option key={font} value={font}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </>
+        )}
+
+        {(style.type === 'blur' || style.type === 'pixelate') && (
+          <label className="flex items-center space-x-2">
+            <span>Strength</span>
+            <input
+              type="range"
+              min={MIN_REDACTION_STRENGTH}
+              max={MAX_REDACTION_STRENGTH}
+              value={style.strength}
+              onChange={(event) => update({ strength: Number(event.target.value) })}
+            />
+          </label>
+        )}
+      </div>
+
+      {(style.type === 'blur' || style.type === 'pixelate') && (
+        <p className="text-xs text-yellow-400">
+          Blurred and pixelated text can sometimes be recovered. Use solid or labelled boxes for ID
+          numbers in documents you share.
+        </p>
+      )}
+
+      {style.type === 'label' && (
+        <p className="text-xs text-gray-500">
+          {'{type}'} is replaced by the kind of information, e.g. AADHAAR or PAN.
+        </p>
+      )}
+      {(style.type === 'blur' || style.type === 'pixelate') && (
+        <p className="text-xs text-yellow-500">
+          Blurred or pixelated text can sometimes be recovered. Use solid or labelled
+          boxes for documents you share. PDF pages are flattened to images.
+        </p>
+      )}
+    </div>
+  );
+}
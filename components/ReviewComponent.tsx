@@ -0,0 +1,515 @@
+'use client';
+
+import { PointerEvent, useEffect, useRef, useState } from 'react';
+import {
+  AadhaarMaskingOptions,
+  BoundingBox,
+  PageData,
+  PDFSanitizationPolicy,
+  RedactionStyle,
+  ReviewItem,
+} from '@/types';
+import { MIN_REVIEW_BOX_SIZE, normalizeBoundingBox } from '@/lib/reviewItems';
+import { getDetectorRegistry } from '@/lib/detectorRegistry';
+import { getAadhaarMaskRegion } from '@/lib/aadhaarMasking';
+import { loadPdfDocument } from '@/lib/pdfjs';
+import RedactionStylePicker from '@/components/RedactionStylePicker';
+import SanitizationPolicyPicker from '@/components/SanitizationPolicyPicker';
+
+interface ReviewComponentProps {
+  file: File;
+  pages: PageData[];
+  items: ReviewItem[];
+  aadhaarMasking?: AadhaarMaskingOptions;
+  onAadhaarMaskingChange: (options: AadhaarMaskingOptions | undefined) => void;
+  redactionStyle: RedactionStyle;
+  onRedactionStyleChange: (style: RedactionStyle) => void;
+  sanitizationPolicy: PDFSanitizationPolicy;
+  onSanitizationPolicyChange: (policy: PDFSanitizationPolicy) => void;
+  verifyOutput: boolean;
+  onVerifyOutputChange: (verify: boolean) => void;
+  onToggleItem: (id: string) => void;
+  onResizeItem: (id: string, bbox: BoundingBox) => void;
+  onAddItem: (pageNumber: number, bbox: BoundingBox) => void;
+  onRemoveItem: (id: string) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+type ResizeCorner = 'top-left' | 'bottom-right';
+
+type DragState =
+  | { kind: 'draw'; origin: [number, number]; bbox: BoundingBox }
+  | { kind: 'resize'; id: string; corner: ResizeCorner; bbox: BoundingBox };
+
+/**
+ * ReviewComponent
+ * Shows every detection as an overlay on the original document so the user
+ * can switch off false positives, resize boxes and draw missed regions
+ * before anything is redacted
+ */
+export default function ReviewComponent({
+  file,
+  pages,
+  items,
+  aadhaarMasking,
+  onAadhaarMaskingChange,
+  redactionStyle,
+  onRedactionStyleChange,
+  sanitizationPolicy,
+  onSanitizationPolicyChange,
+  verifyOutput,
+  onVerifyOutputChange,
+  onToggleItem,
+  onResizeItem,
+  onAddItem,
+  onRemoveItem,
+  onConfirm,
+  onCancel,
+}: ReviewComponentProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const registry = getDetectorRegistry();
+  const isPDF = file.type === 'application/pdf';
+  const page = pages.find(p => p.pageNumber === currentPage) ?? pages[0];
+  const totalPages = pages.length;
+  const pageItems = items.filter(item => item.detection.pageNumber === page?.pageNumber);
+  const enabledCount = items.filter(item => item.enabled).length;
+  const hasAadhaar = items.some(item => item.detection.type === 'AADHAAR');
+
+  // Images are shown directly from the original file
+  useEffect(() => {
+    if (isPDF) return;
+
+    const url = URL.createObjectURL(file);
+    setImageUrl(url);
+
+    return () => URL.revokeObjectURL(url);
+  }, [file, isPDF]);
+
+  // PDF pages are rendered with the same rotation used for OCR so boxes line up
+  useEffect(() => {
+    if (!isPDF || !page) return;
+
+    let cancelled = false;
+
+    const renderPage = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const data = new Uint8Array(await file.arrayBuffer());
+        const pdf = await loadPdfDocument(data);
+        const pdfPage = await pdf.getPage(page.pageNumber);
+        const viewport = pdfPage.getViewport({ scale: 1.5 });
+
+        const canvas = canvasRef.current;
+        const context = canvas?.getContext('2d');
+        if (cancelled || !canvas || !context) return;
+
+        canvas.width = viewport.width;
+        canvas.height = viewport.height;
+        await pdfPage.render({ canvasContext: context, viewport }).promise;
+        await pdf.destroy();
+      } catch (err) {
+        console.error('Error rendering PDF page for review:', err);
+        if (!cancelled) setError('Failed to render document for review');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    renderPage();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file, isPDF, page]);
+
+  if (!page) {
+    return null;
+  }
+
+  /**
+   * Convert a pointer position into the page's pixel space
+   */
+  const toPagePoint = (event: PointerEvent): [number, number] => {
+    const rect = overlayRef.current!.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * page.width;
+    const y = ((event.clientY - rect.top) / rect.height) * page.height;
+
+    return [
+      Math.min(Math.max(x, 0), page.width),
+      Math.min(Math.max(y, 0), page.height),
+    ];
+  };
+
+  const handleDrawStart = (event: PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return;
+
+    const origin = toPagePoint(event);
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrag({ kind: 'draw', origin, bbox: { x: origin[0], y: origin[1], width: 0, height: 0 } });
+  };
+
+  const handleResizeStart = (
+    event: PointerEvent<HTMLDivElement>,
+    item: ReviewItem,
+    corner: ResizeCorner
+  ) => {
+    event.stopPropagation();
+    overlayRef.current?.setPointerCapture(event.pointerId);
+    setDrag({ kind: 'resize', id: item.id, corner, bbox: item.detection.bbox });
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+
+    const [x, y] = toPagePoint(event);
+
+    if (drag.kind === 'draw') {
+      setDrag({
+        ...drag,
+        bbox: { x: drag.origin[0], y: drag.origin[1], width: x - drag.origin[0], height: y - drag.origin[1] },
+      });
+      return;
+    }
+
+    const { bbox } = drag;
+    const right = bbox.x + bbox.width;
+    const bottom = bbox.y + bbox.height;
+
+    setDrag({
+      ...drag,
+      bbox:
+        drag.corner === 'top-left'
+          ? { x, y, width: right - x, height: bottom - y }
+          : { x: bbox.x, y: bbox.y, width: x - bbox.x, height: y - bbox.y },
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+
+    if (drag.kind === 'draw') {
+      // Ignore plain clicks on the page
+      if (
+        Math.abs(drag.bbox.width) >= MIN_REVIEW_BOX_SIZE &&
+        Math.abs(drag.bbox.height) >= MIN_REVIEW_BOX_SIZE
+      ) {
+        onAddItem(page.pageNumber, drag.bbox);
+      }
+    } else {
+      onResizeItem(drag.id, drag.bbox);
+    }
+
+    setDrag(null);
+  };
+
+  const toPercentStyle = (bbox: BoundingBox) => {
+    const box = normalizeBoundingBox(bbox);
+    return {
+      left: `${(box.x / page.width) * 100}%`,
+      top: `${(box.y / page.height) * 100}%`,
+      width: `${(box.width / page.width) * 100}%`,
+      height: `${(box.height / page.height) * 100}%`,
+    };
+  };
+
+  /**
+   * The parts of an item that will actually be covered: its mask region or
+   * regions, relative to the item's own box. Null when the whole box is.
+   */
+  const getFillStyles = (item: ReviewItem) => {
+    const { bbox, regions } = item.detection;
+    const maskRegion =
+      aadhaarMasking && item.detection.type === 'AADHAAR'
+        ? getAadhaarMaskRegion(item.detection)
+        : null;
+    const boxes = maskRegion ? [maskRegion.bbox] : regions;
+    if (!boxes) return null;
+
+    return boxes.map(box => ({
+      left: `${((box.x - bbox.x) / bbox.width) * 100}%`,
+      top: `${((box.y - bbox.y) / bbox.height) * 100}%`,
+      width: `${(box.width / bbox.width) * 100}%`,
+      height: `${(box.height / bbox.height) * 100}%`,
+    }));
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto space-y-6">
+      {/* Instructions */}
+      <div className="bg-black rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold mb-2 text-white">Review Redactions</h2>
+        <p className="text-sm text-gray-400">
+          Click a box to keep or skip it, drag its corners to resize it, or drag
+          on the document to draw a box around anything that was missed.
+        </p>
+        <p className="mt-2 text-sm text-gray-300">
+          <span className="font-semibold">{enabledCount}</span> of {items.length}{' '}
+          region{items.length !== 1 ? 's' : ''} will be redacted
+        </p>
+
+        {/* Aadhaar masking */}
+        {hasAadhaar && (
+          <div className="mt-4 space-y-2">
+            <label className="flex items-center space-x-3 cursor-pointer text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={!!aadhaarMasking}
+                onChange={(event) =>
+                  onAadhaarMaskingChange(
+                    event.target.checked ? { printMaskToken: false } : undefined
+                  )
+                }
+                className="h-4 w-4"
+              />
+              <span>Mask Aadhaar numbers (keep the last 4 digits visible)</span>
+            </label>
+            {aadhaarMasking && (
+              <label className="flex items-center space-x-3 cursor-pointer text-sm text-gray-300 ml-7">
+                <input
+                  type="checkbox"
+                  checked={aadhaarMasking.printMaskToken}
+                  onChange={(event) =>
+                    onAadhaarMaskingChange({ printMaskToken: event.target.checked })
+                  }
+                  className="h-4 w-4"
+                />
+                <span>Print &quot;XXXX XXXX&quot; over the hidden digits</span>
+              </label>
+            )}
+          </div>
+        )}
+
+        {/* Redaction style */}
+        <div className="mt-6">
+          <RedactionStylePicker style={redactionStyle} onChange={onRedactionStyleChange} />
+        </div>
+
+        {/* PDF sanitisation */}
+        {isPDF && (
+          <div className="mt-6">
+            <SanitizationPolicyPicker
+              policy={sanitizationPolicy}
+              onChange={onSanitizationPolicyChange}
+            />
+          </div>
+        )}
+
+        {/* Verification */}
+        <label className="mt-6 flex items-center space-x-3 cursor-pointer text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={verifyOutput}
+            onChange={(event) => onVerifyOutputChange(event.target.checked)}
+            className="h-4 w-4"
+          />
+          <span>Check the redacted document by reading it again (takes about as long as the first read)</span>
+        </label>
+      </div>
+
+      {/* Document with overlays */}
+      <div className="bg-black rounded-lg shadow-md p-6">
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-center bg-zinc-950 rounded-lg p-4">
+          <div className="relative inline-block max-w-full select-none">
+            {isPDF ? (
+              <canvas ref={canvasRef} className="block max-w-full h-auto shadow-lg" />
+            ) : (
+              imageUrl && (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={imageUrl}
+                  alt="Document under review"
+                  className="block max-w-full h-auto shadow-lg"
+                  draggable={false}
+                />
+              )
+            )}
+
+            {!isLoading && (
+              <div
+                ref={overlayRef}
+                className="absolute inset-0 cursor-crosshair touch-none"
+                onPointerDown={handleDrawStart}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={() => setDrag(null)}
+              >
+                {pageItems.map((item) => {
+                  const { label, color } = registry.describe(item.detection.type);
+                  const bbox =
+                    drag?.kind === 'resize' && drag.id === item.id
+                      ? drag.bbox
+                      : item.detection.bbox;
+                  // Resizing replaces the covered parts with the whole box
+                  const fillStyles =
+                    drag?.kind === 'resize' && drag.id === item.id ? null : getFillStyles(item);
+
+                  return (
+                    <div
+                      key={item.id}
+                      className={`absolute border-2 cursor-pointer ${
+                        item.enabled ? '' : 'border-dashed opacity-50'
+                      }`}
+                      style={{ ...toPercentStyle(bbox), borderColor: color }}
+                      title={`${label}${item.detection.value ? `: ${item.detection.value}` : ''}`}
+                      onPointerDown={(event) => event.stopPropagation()}
+                      onClick={() => onToggleItem(item.id)}
+                    >
+                      {item.enabled && (
+                        <>
+                          {(fillStyles ?? [{ inset: 0 }]).map((style, index) => (
+                            <div
+                              key={index}
+                              className="absolute opacity-30"
+                              style={{ ...style, backgroundColor: color }}
+                            />
+                          ))}
+                          <div
+                            className="absolute -left-1.5 -top-1.5 w-3 h-3 bg-white border border-gray-700 cursor-nwse-resize"
+                            onPointerDown={(event) => handleResizeStart(event, item, 'top-left')}
+                            onClick={(event) => event.stopPropagation()}
+                          />
+                          <div
+                            className="absolute -right-1.5 -bottom-1.5 w-3 h-3 bg-white border border-gray-700 cursor-nwse-resize"
+                            onPointerDown={(event) => handleResizeStart(event, item, 'bottom-right')}
+                            onClick={(event) => event.stopPropagation()}
+                          />
+                        </>
+                      )}
+                    </div>
+                  );
+                })}
+
+                {drag?.kind === 'draw' && (
+                  <div
+                    className="absolute border-2 border-red-400 bg-red-400/30"
+                    style={toPercentStyle(drag.bbox)}
+                  />
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {isLoading && (
+          <p className="mt-4 text-center text-gray-400">Loading page...</p>
+        )}
+
+        {/* Page Navigation Controls */}
+        {totalPages > 1 && (
+          <div className="mt-4 flex items-center justify-center space-x-4">
+            <button
+              onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
+              disabled={currentPage === 1}
+              className={`
+                px-4 py-2 rounded-lg font-medium transition-colors
+                ${currentPage === 1
+                  ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
+                  : 'bg-blue-600 text-white hover:bg-blue-700'
+                }
+              `}
+            >
+              Previous
+            </button>
+            <span className="text-gray-300">
+              Page {currentPage} of {totalPages}
+            </span>
+            <button
+              onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
+              disabled={currentPage === totalPages}
+              className={`
+                px-4 py-2 rounded-lg font-medium transition-colors
+                ${currentPage === totalPages
+                  ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
+                  : 'bg-blue-600 text-white hover:bg-blue-700'
+                }
+              `}
+            >
+              Next
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Detection list for the current page */}
+      {pageItems.length > 0 && (
+        <div className="bg-black rounded-lg shadow-md p-6">
+          <h3 className="text-lg font-semibold mb-4 text-white">
+            Regions on page {page.pageNumber}
+          </h3>
+          <ul className="space-y-2">
+            {pageItems.map((item) => (
+              <li
+                key={item.id}
+                className="flex items-center justify-between p-3 bg-zinc-950 rounded-lg"
+              >
+                <label className="flex items-center space-x-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={item.enabled}
+                    onChange={() => onToggleItem(item.id)}
+                    className="h-4 w-4"
+                  />
+                  <span
+                    className="text-sm font-medium"
+                    style={{ color: registry.describe(item.detection.type).color }}
+                  >
+                    {registry.describe(item.detection.type).label}
+                  </span>
+                  {item.detection.value && (
+                    <span className="text-sm text-gray-400 truncate max-w-xs">
+                      {item.detection.value}
+                    </span>
+                  )}
+                </label>
+                {item.source === 'manual' ? (
+                  <button
+                    onClick={() => onRemoveItem(item.id)}
+                    className="text-sm text-red-400 hover:text-red-300"
+                  >
+                    Remove
+                  </button>
+                ) : (
+                  <span className="text-xs text-gray-500">
+                    {Math.round(item.detection.confidence * 100)}% confidence
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Action Buttons */}
+      <div className="flex flex-col sm:flex-row gap-4 justify-center">
+        <button
+          onClick={onConfirm}
+          className="px-6 py-3 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors"
+        >
+          Apply Redactions
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-6 py-3 bg-gray-600 text-white rounded-lg font-medium hover:bg-gray-700 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { PDFSanitizationPolicy, PDFSanitizeAction } from '@/types';
+import { PDF_PARTS } from '@/lib/pdfSanitizer';
+
+interface SanitizationPolicyPickerProps {
+  policy: PDFSanitizationPolicy;
+  onChange: (policy: PDFSanitizationPolicy) => void;
+}
+
+const ACTION_LABELS: Record<PDFSanitizeAction, string> = {
+  remove: 'Remove',
+  scrub: 'Hide redacted values',
+  keep: 'Keep',
+};
+
+/**
+ * SanitizationPolicyPicker
+ * Chooses what happens to the parts of a PDF besides its pages
+ */
+export default function SanitizationPolicyPicker({ policy, onChange }: SanitizationPolicyPickerProps) {
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-300">Everything else in the PDF</p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm text-gray-300">
+        {PDF_PARTS.map(({ part, label, canScrub }) => (
+          <label key={part} className="flex items-center justify-between space-x-2">
+            <span>{label}</span>
+            <select
+              value={policy[part]}
+              onChange={(event) =>
+                onChange({ ...policy, [part]: event.target.value as PDFSanitizeAction })
+              }
+              className="bg-zinc-950 border border-gray-700 rounded-lg px-2 py-1 text-gray-200"
+            >
+              {(canScrub ? ['remove', 'scrub', 'keep'] : ['remove', 'keep']).map(action => (
+                <option key={action} value={action}>
+                  {ACTION_LABELS[action as PDFSanitizeAction]}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Properties, comments, form fields and bookmarks can repeat the information on the pages.
+        Attachments and scripts cannot be checked, so they can only be removed or kept.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+'use client';
+
+import { useEffect } from 'react';
+import { VENDOR_VERSION } from '@/lib/vendorAssets';
+
+/**
+ * ServiceWorkerRegistration
+ * Registers the service worker that caches the app and its vendored assets
+ * for offline use. Skipped in development, where it would serve stale builds.
+ * The vendor version in its URL names its cache, so upgrading pdf.js or
+ * Tesseract installs a new worker with a fresh cache.
+ */
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+    navigator.serviceWorker.register(`/sw.js?version=${VENDOR_VERSION}`).catch((err) => {
+      console.error('Service worker registration failed:', err);
+    });
+  }, []);
+
+  return null;
+}
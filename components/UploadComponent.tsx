@@ -1,50 +1,107 @@
 'use client';
 
-import { useCallback } from 'react';
-import { useDropzone } from 'react-dropzone';
-import { FileError } from '@/types';
+import { useCallback, useEffect, useRef } from 'react';
+import { FileRejection, useDropzone } from 'react-dropzone';
+import { FileError, SkippedFile } from '@/types';
+import { getRelativePath, validateFile } from '@/utils/fileValidation';
 
 interface UploadComponentProps {
-  onFileAccepted: (file: File) => void;
+  onFilesAccepted: (files: File[], skipped: SkippedFile[]) => void;
   onFileRejected: (error: FileError) => void;
 }
 
+/**
+ * Convert a dropzone rejection into a file error
+ */
+function getRejectionError(rejection: FileRejection): FileError {
+  const errorCode = rejection.errors[0]?.code;
+
+  if (errorCode === 'file-too-large') {
+    return {
+      code: 'FILE_TOO_LARGE',
+      message: 'File size exceeds 10MB limit. Please upload a smaller file.',
+    };
+  }
+
+  if (errorCode === 'file-invalid-type') {
+    return {
+      code: 'INVALID_TYPE',
+      message: 'Unsupported file type. Please upload PNG, JPG, JPEG, or PDF files.',
+    };
+  }
+
+  return {
+    code: 'UPLOAD_FAILED',
+    message: 'Upload failed. Please check your connection and try again.',
+  };
+}
+
+/**
+ * UploadComponent
+ * Accepts one or more documents, by drop (files or folders) or by browsing.
+ * Unsupported files are skipped; the upload is only rejected when no file
+ * can be processed.
+ */
 export default function UploadComponent({
-  onFileAccepted,
+  onFilesAccepted,
   onFileRejected,
 }: UploadComponentProps) {
-  const onDrop = useCallback(
-    (acceptedFiles: File[], rejectedFiles: any[]) => {
-      if (rejectedFiles.length > 0) {
-        const rejection = rejectedFiles[0];
-        const errorCode = rejection.errors[0]?.code;
-
-        if (errorCode === 'file-too-large') {
-          onFileRejected({
-            code: 'FILE_TOO_LARGE',
-            message: 'File size exceeds 10MB limit. Please upload a smaller file.',
-          });
-        } else if (errorCode === 'file-invalid-type') {
-          onFileRejected({
-            code: 'INVALID_TYPE',
-            message: 'Unsupported file type. Please upload PNG, JPG, JPEG, or PDF files.',
-          });
-        } else {
-          onFileRejected({
-            code: 'UPLOAD_FAILED',
-            message: 'Upload failed. Please check your connection and try again.',
-          });
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // React does not know the directory picker attribute
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  const handleFiles = useCallback(
+    (acceptedFiles: File[], skipped: SkippedFile[]) => {
+      if (acceptedFiles.length === 0) {
+        if (skipped.length > 0) {
+          onFileRejected(skipped[0].error);
         }
         return;
       }
 
-      if (acceptedFiles.length > 0) {
-        onFileAccepted(acceptedFiles[0]);
-      }
+      onFilesAccepted(acceptedFiles, skipped);
     },
-    [onFileAccepted, onFileRejected]
+    [onFilesAccepted, onFileRejected]
   );
 
+  const onDrop = useCallback(
+    (acceptedFiles: File[], rejectedFiles: FileRejection[]) => {
+      handleFiles(
+        acceptedFiles,
+        rejectedFiles.map(rejection => ({
+          name: getRelativePath(rejection.file),
+          error: getRejectionError(rejection),
+        }))
+      );
+    },
+    [handleFiles]
+  );
+
+  /**
+   * Files picked from a folder bypass the dropzone, so they are validated here
+   */
+  const handleFolderSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    // Hidden files such as .DS_Store are not documents
+    const files = Array.from(event.target.files ?? []).filter(file => !file.name.startsWith('.'));
+    event.target.value = '';
+
+    const accepted: File[] = [];
+    const skipped: SkippedFile[] = [];
+    for (const file of files) {
+      const error = validateFile(file);
+      if (error) {
+        skipped.push({ name: getRelativePath(file), error });
+      } else {
+        accepted.push(file);
+      }
+    }
+
+    handleFiles(accepted, skipped);
+  };
+
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
@@ -53,7 +110,7 @@ export default function UploadComponent({
       'application/pdf': ['.pdf'],
     },
     maxSize: 10 * 1024 * 1024, // 10MB
-    multiple: false,
+    multiple: true,
   });
 
   return (
@@ -89,12 +146,12 @@ export default function UploadComponent({
 
           {isDragActive ? (
             <p className="text-lg font-medium text-blue-400">
-              Drop your document here
+              Drop your documents here
             </p>
           ) : (
             <>
               <p className="text-lg font-medium text-gray-200">
-                Drag and drop your document here
+                Drag and drop documents or a folder here
               </p>
               <p className="text-sm text-gray-400">or click to browse</p>
             </>
@@ -106,6 +163,23 @@ export default function UploadComponent({
           </div>
         </div>
       </div>
+
+      <div className="mt-3 text-center">
+        <input
+          ref={folderInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={handleFolderSelected}
+        />
+        <button
+          type="button"
+          onClick={() => folderInputRef.current?.click()}
+          className="text-sm text-blue-400 hover:text-blue-300"
+        >
+          Choose a folder
+        </button>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,43 @@
+import { Detection } from '@/types';
+import type { RedactionRegion } from '@/lib/redactionRegions';
+
+/**
+ * Number of trailing digits left visible on a masked Aadhaar number or VID
+ */
+export const VISIBLE_AADHAAR_DIGITS = 4;
+
+/**
+ * The part of an Aadhaar detection to cover when masking: every digit but
+ * the last four, with a mask token matching its grouping ("XXXX XXXX").
+ * Returns null when the detection has no usable character boxes.
+ */
+export function getAadhaarMaskRegion(detection: Detection): RedactionRegion | null {
+  const { value, charBoxes } = detection;
+  if (!charBoxes || charBoxes.length !== value.length) {
+    return null;
+  }
+
+  const digitIndices = Array.from(value)
+    .map((char, index) => (/\d/.test(char) ? index : -1))
+    .filter(index => index !== -1);
+
+  const coveredIndices = digitIndices.slice(0, -VISIBLE_AADHAAR_DIGITS);
+  if (coveredIndices.length === 0) {
+    return null;
+  }
+
+  const boxes = coveredIndices.map(index => charBoxes[index]);
+  const minX = Math.min(...boxes.map(b => b.x));
+  const minY = Math.min(...boxes.map(b => b.y));
+  const maxX = Math.max(...boxes.map(b => b.x + b.width));
+  const maxY = Math.max(...boxes.map(b => b.y + b.height));
+
+  const first = coveredIndices[0];
+  const last = coveredIndices[coveredIndices.length - 1];
+
+  return {
+    bbox: { x: minX, y: minY, width: maxX - minX, height: maxY - minY },
+    type: detection.type,
+    label: value.slice(first, last + 1).replace(/\d/g, 'X'),
+  };
+}
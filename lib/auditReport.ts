@@ -0,0 +1,300 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import {
+  AuditEntry,
+  AuditedFile,
+  AuditReport,
+  AuditReportFormat,
+  Detection,
+  DetectionResult,
+  DetectionType,
+  SanitizationRecord,
+} from '@/types';
+import { getDetectorRegistry } from '@/lib/detectorRegistry';
+import { version } from '@/package.json';
+
+/**
+ * Version of the detectors that produced a report
+ */
+export const DETECTOR_VERSION = version;
+
+/**
+ * Masked values longer than this are cut short
+ */
+const MAX_MASKED_LENGTH = 64;
+
+/**
+ * Letters, digits and marks of Latin and Indic scripts, which are masked
+ */
+const MASKED_CHARACTER = /[0-9A-Za-z\u00C0-\u024F\u0900-\u0DFF]/;
+
+/**
+ * Types whose last four digits may stay visible, as on a masked Aadhaar card
+ * or a bank statement
+ */
+const LAST_FOUR_VISIBLE_TYPES: DetectionType[] = ['AADHAAR', 'BANK_ACCOUNT', 'PHONE'];
+
+/**
+ * Mask a detected value so that a report can be shared without leaking it
+ * Letters, digits and marks become X; separators keep the shape of the value.
+ * Aadhaar numbers, bank accounts and phone numbers of 8 or more digits keep
+ * their last four (XXXX XXXX 1234).
+ */
+export function maskValue(value: string, type: DetectionType): string {
+  const characters = Array.from(value.trim());
+  const digits = characters.filter(character => /\d/.test(character));
+  const keepLastFour = LAST_FOUR_VISIBLE_TYPES.includes(type) && digits.length >= 8;
+
+  let visible = keepLastFour ? 4 : 0;
+  const masked = characters
+    .reverse()
+    .map(character => {
+      if (!MASKED_CHARACTER.test(character)) {
+        return character;
+      }
+      if (visible > 0 && /\d/.test(character)) {
+        visible--;
+        return character;
+      }
+      return 'X';
+    })
+    .reverse()
+    .join('');
+
+  const maskedCharacters = Array.from(masked);
+  return maskedCharacters.length > MAX_MASKED_LENGTH
+    ? `${maskedCharacters.slice(0, MAX_MASKED_LENGTH).join('')}...`
+    : masked;
+}
+
+/**
+ * SHA-256 digest of a file, in lowercase hex
+ */
+export async function sha256Hex(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function describeFile(blob: Blob, filename: string): Promise<AuditedFile> {
+  return {
+    filename,
+    mimeType: blob.type,
+    size: blob.size,
+    sha256: await sha256Hex(blob),
+  };
+}
+
+function toAuditEntry(detection: Detection): AuditEntry {
+  return {
+    pageNumber: detection.pageNumber,
+    type: detection.type,
+    label: getDetectorRegistry().describe(detection.type).label,
+    bbox: { ...detection.bbox },
+    confidence: detection.confidence,
+    maskedValue: maskValue(detection.value, detection.type),
+  };
+}
+
+export interface AuditReportSource {
+  inputFile: File;
+  output: Blob;
+  outputFilename: string;
+  detections: DetectionResult; // The detections that were redacted
+  sanitization?: SanitizationRecord[]; // What was removed from a PDF besides its page content
+  generatedAt?: Date; // Defaults to now
+}
+
+/**
+ * Build the audit report for a redacted document
+ * Entries are in reading order: by page, then top to bottom, then left to right.
+ */
+export async function buildAuditReport({
+  inputFile,
+  output,
+  outputFilename,
+  detections,
+  sanitization = [],
+  generatedAt = new Date(),
+}: AuditReportSource): Promise<AuditReport> {
+  const redactions = [...detections.detections]
+    .sort(
+      (a, b) =>
+        a.pageNumber - b.pageNumber || a.bbox.y - b.bbox.y || a.bbox.x - b.bbox.x
+    )
+    .map(toAuditEntry);
+
+  return {
+    generatedAt: generatedAt.toISOString(),
+    detectorVersion: DETECTOR_VERSION,
+    input: await describeFile(inputFile, inputFile.name),
+    output: await describeFile(output, outputFilename),
+    redactions,
+    sanitization,
+  };
+}
+
+/**
+ * Write an audit report as a JSON or PDF file
+ */
+export async function serializeAuditReport(
+  report: AuditReport,
+  format: AuditReportFormat
+): Promise<Blob> {
+  if (format === 'pdf') {
+    const pdfBytes = new Uint8Array(await createAuditReportPdf(report));
+    return new Blob([pdfBytes], { type: 'application/pdf' });
+  }
+  return new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+}
+
+// PDF layout, in points on an A4 page
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const LINE_HEIGHT = 14;
+const TABLE_COLUMNS = [
+  { title: 'Page', x: MARGIN },
+  { title: 'Type', x: MARGIN + 35 },
+  { title: 'Masked value', x: MARGIN + 160 },
+  { title: 'Box (x, y, w, h)', x: MARGIN + 330 },
+  { title: 'Confidence', x: MARGIN + 455 },
+];
+
+/**
+ * Replace characters the standard PDF fonts cannot draw
+ */
+function toPdfText(text: string): string {
+  return text.replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+}
+
+/**
+ * Cut text to fit a column
+ */
+function fitText(text: string, font: PDFFont, size: number, width: number): string {
+  let fitted = toPdfText(text);
+  while (fitted.length > 1 && font.widthOfTextAtSize(fitted, size) > width) {
+    fitted = fitted.slice(0, -1);
+  }
+  return fitted;
+}
+
+/**
+ * Lay out an audit report as a PDF, with the redactions in a table that
+ * continues over as many pages as it needs
+ */
+export async function createAuditReportPdf(report: AuditReport): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.setTitle(`Redaction audit report: ${toPdfText(report.input.filename)}`);
+  pdfDoc.setCreationDate(new Date(report.generatedAt));
+
+  const regular = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const bold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const mono = await pdfDoc.embedFont(StandardFonts.Courier);
+
+  let page: PDFPage = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const write = (text: string, x: number, font: PDFFont, size = 9) => {
+    page.drawText(fitText(text, font, size, PAGE_WIDTH - MARGIN - x), {
+      x,
+      y,
+      size,
+      font,
+      color: rgb(0, 0, 0),
+    });
+  };
+
+  const writeTableHeader = () => {
+    for (const column of TABLE_COLUMNS) {
+      write(column.title, column.x, bold);
+    }
+    y -= 4;
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness: 0.5,
+      color: rgb(0.6, 0.6, 0.6),
+    });
+    y -= LINE_HEIGHT;
+  };
+
+  write('Redaction Audit Report', MARGIN, bold, 16);
+  y -= LINE_HEIGHT * 2;
+  write(`Generated: ${report.generatedAt}`, MARGIN, regular);
+  y -= LINE_HEIGHT;
+  write(`Detector version: ${report.detectorVersion}`, MARGIN, regular);
+  y -= LINE_HEIGHT * 2;
+
+  for (const [title, file] of [
+    ['Input', report.input],
+    ['Output', report.output],
+  ] as const) {
+    write(`${title}: ${file.filename}`, MARGIN, bold);
+    y -= LINE_HEIGHT;
+    write(`${file.mimeType || 'unknown type'}, ${file.size} bytes`, MARGIN, regular);
+    y -= LINE_HEIGHT;
+    write(`SHA-256 ${file.sha256}`, MARGIN, mono, 8);
+    y -= LINE_HEIGHT * 2;
+  }
+
+  write(`Redactions (${report.redactions.length})`, MARGIN, bold, 12);
+  y -= LINE_HEIGHT * 1.5;
+  writeTableHeader();
+
+  for (const entry of report.redactions) {
+    if (y < MARGIN) {
+      page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+      writeTableHeader();
+    }
+
+    const { x, y: top, width, height } = entry.bbox;
+    const cells = [
+      String(entry.pageNumber),
+      entry.label,
+      entry.maskedValue || '-',
+      [x, top, width, height].map(value => Math.round(value)).join(', '),
+      `${Math.round(entry.confidence * 100)}%`,
+    ];
+    cells.forEach((cell, index) => {
+      const column = TABLE_COLUMNS[index];
+      const next = TABLE_COLUMNS[index + 1];
+      const columnWidth = (next ? next.x : PAGE_WIDTH - MARGIN) - column.x - 6;
+      page.drawText(fitText(cell, index === 2 ? mono : regular, 8, columnWidth), {
+        x: column.x,
+        y,
+        size: 8,
+        font: index === 2 ? mono : regular,
+        color: rgb(0, 0, 0),
+      });
+    });
+    y -= LINE_HEIGHT;
+  }
+
+  if (report.redactions.length === 0) {
+    write('Nothing was redacted.', MARGIN, regular);
+    y -= LINE_HEIGHT;
+  }
+
+  if (report.sanitization.length > 0) {
+    y -= LINE_HEIGHT;
+    if (y < MARGIN + LINE_HEIGHT * 2) {
+      page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    write(`PDF sanitisation (${report.sanitization.length})`, MARGIN, bold, 12);
+    y -= LINE_HEIGHT * 1.5;
+
+    for (const { action, description } of report.sanitization) {
+      if (y < MARGIN) {
+        page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      write(`${action === 'removed' ? 'Removed' : 'Scrubbed'}: ${description}`, MARGIN, regular, 8);
+      y -= LINE_HEIGHT;
+    }
+  }
+
+  return pdfDoc.save();
+}
@@ -0,0 +1,564 @@
+import jsQR from 'jsqr';
+import {
+  BoundingBox,
+  Detection,
+  DetectionOptions,
+  DetectionResult,
+  DetectionType,
+  OCRResult,
+  PageImage,
+} from '@/types';
+import { renderPages } from '@/lib/pageRenderer';
+import { throwIfCancelled } from '@/lib/cancellation';
+import { PatternDetector, getPatternDetector } from '@/lib/patternDetector';
+
+/**
+ * Longest side (in pixels) pages are rendered at for scanning
+ * Dense codes such as the Aadhaar Secure QR need a fairly high resolution.
+ */
+const SCAN_MAX_DIMENSION = 2000;
+
+/**
+ * Most QR codes decoded per page with the jsQR fallback
+ */
+const MAX_QR_CODES_PER_PAGE = 4;
+
+/**
+ * Quiet zone added around decoded codes, as a fraction of their size
+ */
+const CODE_PADDING = 0.08;
+
+/**
+ * Analysis grid cell size as a fraction of the longest image side
+ */
+const CELL_FRACTION = 1 / 50;
+
+/**
+ * Smallest code region found by the heuristic, in grid cells
+ */
+const MIN_CODE_CELLS = 6;
+
+/**
+ * Confidence by how much is known about a code
+ */
+const CODE_CONFIDENCE = {
+  containsPII: 0.95, // Decoded and found to contain PII
+  undecoded: 0.7, // Located by its texture but not decoded
+};
+
+/**
+ * The Aadhaar Secure QR encodes signed, compressed data as one large
+ * base-10 integer
+ */
+const SECURE_QR_PATTERN = /^\d{100,}$/;
+
+/**
+ * The older Aadhaar QR encodes an XML element with the holder's details
+ */
+const AADHAAR_XML_PATTERN = /<PrintLetterBarcodeData\b/i;
+
+/**
+ * A code found on a page, in image pixels
+ */
+export interface LocatedCode {
+  type: DetectionType;
+  bbox: BoundingBox;
+  /** Decoded content, or null when the code could not be decoded */
+  rawValue: string | null;
+}
+
+/**
+ * Minimal typing for the Shape Detection API's BarcodeDetector, which is only
+ * available in some browsers
+ */
+interface DetectedBarcode {
+  boundingBox: DOMRectReadOnly;
+  rawValue: string;
+  format: string;
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats?: string[] }) => {
+  detect(image: ImageBitmapSource): Promise<DetectedBarcode[]>;
+};
+
+/**
+ * BarcodeScanner finds QR codes and 1D barcodes on document pages
+ * ID documents such as e-Aadhaar carry the holder's details in a QR code, so
+ * codes are decoded where possible to confirm they contain PII. Codes that
+ * decode to content without PII are left alone; codes that cannot be decoded
+ * are redacted to be safe.
+ */
+export class BarcodeScanner {
+  private readonly detector: PatternDetector;
+
+  constructor(detector: PatternDetector = getPatternDetector()) {
+    this.detector = detector;
+  }
+
+  /**
+   * Scan every page of a document for codes
+   * Boxes are returned in page pixel space, like text detections.
+   * Cancellation is checked between pages.
+   */
+  async scanDocument(
+    file: File,
+    ocrResult: OCRResult,
+    options: DetectionOptions = {}
+  ): Promise<DetectionResult> {
+    const detections: Detection[] = [];
+    const renderedPages = await renderPages(file, ocrResult.pages, SCAN_MAX_DIMENSION, options.signal);
+
+    for (const rendered of renderedPages) {
+      throwIfCancelled(options.signal);
+      const page = ocrResult.pages.find(p => p.pageNumber === rendered.pageNumber);
+      if (!page) continue;
+
+      const decoded = await this.decodeCodes(rendered.imageData);
+
+      // Codes the decoders missed (damaged, low resolution, unsupported format)
+      const textBoxes = page.textBlocks.map(block => scaleBox(block.bbox, rendered.scale));
+      const located = findCodeRegions(rendered.imageData, textBoxes)
+        .filter(region => !decoded.some(code => boxesOverlap(code.bbox, region.bbox)));
+
+      for (const code of [...decoded, ...located]) {
+        const confidence = this.getCodeConfidence(code);
+        if (confidence === null) continue;
+
+        detections.push({
+          type: code.type,
+          value: '',
+          confidence,
+          bbox: scaleBox(code.bbox, 1 / rendered.scale),
+          pageNumber: page.pageNumber,
+        });
+      }
+    }
+
+    return { detections };
+  }
+
+  /**
+   * Whether decoded code content contains PII
+   * Recognises the Aadhaar QR formats and otherwise runs the text detectors
+   * over the decoded content.
+   */
+  containsPII(content: string): boolean {
+    if (SECURE_QR_PATTERN.test(content.trim()) || AADHAAR_XML_PATTERN.test(content)) {
+      return true;
+    }
+
+    const words = content.split(/[\s"'=<>,;|]+/).filter(Boolean);
+    const result = this.detector.detectPII({
+      pages: [{
+        pageNumber: 1,
+        width: 0,
+        height: 0,
+        textBlocks: words.map(text => ({
+          text,
+          confidence: 1,
+          bbox: { x: 0, y: 0, width: 0, height: 0 },
+        })),
+      }],
+      success: true,
+    });
+
+    return result.detections.length > 0;
+  }
+
+  /**
+   * Confidence for a located code; null when it decoded to content without PII
+   */
+  private getCodeConfidence(code: LocatedCode): number | null {
+    if (code.rawValue === null) {
+      return CODE_CONFIDENCE.undecoded;
+    }
+    return this.containsPII(code.rawValue) ? CODE_CONFIDENCE.containsPII : null;
+  }
+
+  /**
+   * Decode codes on a page, preferring the browser's barcode detector
+   * and falling back to jsQR for QR codes
+   */
+  private async decodeCodes(imageData: ImageData): Promise<LocatedCode[]> {
+    // globalThis is the window, or self in the pipeline worker
+    const { BarcodeDetector } = globalThis as unknown as { BarcodeDetector?: BarcodeDetectorConstructor };
+
+    if (BarcodeDetector) {
+      try {
+        const barcodes = await new BarcodeDetector().detect(imageData);
+        return barcodes.map(barcode => ({
+          type: barcode.format === 'qr_code' ? 'QR_CODE' : 'BARCODE',
+          bbox: padBox(
+            {
+              x: barcode.boundingBox.x,
+              y: barcode.boundingBox.y,
+              width: barcode.boundingBox.width,
+              height: barcode.boundingBox.height,
+            },
+            imageData.width,
+            imageData.height
+          ),
+          rawValue: barcode.rawValue,
+        }));
+      } catch (error) {
+        console.error('BarcodeDetector failed, falling back to jsQR:', error);
+      }
+    }
+
+    return decodeQRCodes(imageData);
+  }
+}
+
+/**
+ * Decode up to MAX_QR_CODES_PER_PAGE QR codes with jsQR
+ * jsQR returns a single code, so each one found is blanked out before
+ * searching again.
+ */
+function decodeQRCodes(image: PageImage): LocatedCode[] {
+  const codes: LocatedCode[] = [];
+  const data = new Uint8ClampedArray(image.data);
+
+  for (let i = 0; i < MAX_QR_CODES_PER_PAGE; i++) {
+    const code = jsQR(data, image.width, image.height);
+    if (!code) break;
+
+    const corners = [
+      code.location.topLeftCorner,
+      code.location.topRightCorner,
+      code.location.bottomLeftCorner,
+      code.location.bottomRightCorner,
+    ];
+    const minX = Math.min(...corners.map(point => point.x));
+    const minY = Math.min(...corners.map(point => point.y));
+    const maxX = Math.max(...corners.map(point => point.x));
+    const maxY = Math.max(...corners.map(point => point.y));
+    const bbox = padBox(
+      { x: minX, y: minY, width: maxX - minX, height: maxY - minY },
+      image.width,
+      image.height
+    );
+
+    codes.push({ type: 'QR_CODE', bbox, rawValue: code.data });
+    fillBox(data, image.width, bbox);
+  }
+
+  return codes;
+}
+
+/**
+ * Locate QR codes and 1D barcodes by their texture, without decoding them
+ * The image is binarised and divided into a grid. Barcode cells have many
+ * light/dark transitions along rows but almost none down columns (the bars
+ * are vertical); 2D code cells have many in both directions and are roughly
+ * half dark. Connected groups of such cells outside OCR text are returned.
+ */
+export function findCodeRegions(
+  image: PageImage,
+  textBoxes: BoundingBox[]
+): LocatedCode[] {
+  const cellSize = Math.max(8, Math.round(Math.max(image.width, image.height) * CELL_FRACTION));
+  const cols = Math.ceil(image.width / cellSize);
+  const rows = Math.ceil(image.height / cellSize);
+
+  // Codes never contain recognised text
+  const textCells = new Uint8Array(cols * rows);
+  for (const box of textBoxes) {
+    const startCol = Math.max(0, Math.floor(box.x / cellSize));
+    const endCol = Math.min(cols - 1, Math.floor((box.x + box.width) / cellSize));
+    const startRow = Math.max(0, Math.floor(box.y / cellSize));
+    const endRow = Math.min(rows - 1, Math.floor((box.y + box.height) / cellSize));
+
+    for (let row = startRow; row <= endRow; row++) {
+      for (let col = startCol; col <= endCol; col++) {
+        textCells[row * cols + col] = 1;
+      }
+    }
+  }
+
+  const dark = binarize(image);
+  const textures: CellTexture[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      textures.push(getCellTexture(dark, image.width, image.height, col * cellSize, row * cellSize, cellSize));
+    }
+  }
+
+  const barcodeCells = new Uint8Array(cols * rows);
+  const qrCells = new Uint8Array(cols * rows);
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const index = row * cols + col;
+      if (textCells[index]) continue;
+
+      // A cell holds only a few QR modules, so judge it with its neighbours
+      const stats = getNeighbourhoodTexture(textures, cols, rows, col, row);
+
+      if (stats.horizontal >= 0.1 && stats.vertical <= stats.horizontal * 0.2) {
+        barcodeCells[index] = 1;
+      } else if (
+        stats.horizontal >= 0.04 && stats.vertical >= 0.04 &&
+        stats.darkRatio >= 0.3 && stats.darkRatio <= 0.7
+      ) {
+        qrCells[index] = 1;
+      }
+    }
+  }
+
+  const regions: LocatedCode[] = [];
+
+  for (const component of findComponents(barcodeCells, cols, rows)) {
+    if (component.count >= MIN_CODE_CELLS && component.fillRatio >= 0.6 && component.cols > component.rows) {
+      regions.push({
+        type: 'BARCODE',
+        bbox: componentToBox(component, cellSize, image.width, image.height),
+        rawValue: null,
+      });
+    }
+  }
+
+  for (const component of findComponents(qrCells, cols, rows)) {
+    const aspectRatio = component.cols / component.rows;
+    if (
+      component.count >= MIN_CODE_CELLS && component.fillRatio >= 0.7 &&
+      aspectRatio >= 0.75 && aspectRatio <= 1.33
+    ) {
+      regions.push({
+        type: 'QR_CODE',
+        bbox: componentToBox(component, cellSize, image.width, image.height),
+        rawValue: null,
+      });
+    }
+  }
+
+  return regions;
+}
+
+/**
+ * Mark pixels darker than mid-grey
+ */
+function binarize(image: PageImage): Uint8Array {
+  const dark = new Uint8Array(image.width * image.height);
+
+  for (let i = 0; i < dark.length; i++) {
+    const offset = i * 4;
+    const luminance =
+      0.299 * image.data[offset] + 0.587 * image.data[offset + 1] + 0.114 * image.data[offset + 2];
+    dark[i] = luminance < 128 ? 1 : 0;
+  }
+
+  return dark;
+}
+
+/**
+ * Transition densities along rows and columns, and the dark pixel ratio
+ */
+interface CellTexture {
+  horizontal: number;
+  vertical: number;
+  darkRatio: number;
+}
+
+/**
+ * Texture of one grid cell
+ */
+function getCellTexture(
+  dark: Uint8Array,
+  width: number,
+  height: number,
+  left: number,
+  top: number,
+  size: number
+): CellTexture {
+  const right = Math.min(width, left + size);
+  const bottom = Math.min(height, top + size);
+  let horizontal = 0;
+  let vertical = 0;
+  let darkCount = 0;
+
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      const index = y * width + x;
+      darkCount += dark[index];
+      if (x + 1 < right && dark[index] !== dark[index + 1]) horizontal++;
+      if (y + 1 < bottom && dark[index] !== dark[index + width]) vertical++;
+    }
+  }
+
+  const pixels = (right - left) * (bottom - top);
+  return {
+    horizontal: horizontal / pixels,
+    vertical: vertical / pixels,
+    darkRatio: darkCount / pixels,
+  };
+}
+
+/**
+ * Average texture of a cell and its eight neighbours
+ */
+function getNeighbourhoodTexture(
+  textures: CellTexture[],
+  cols: number,
+  rows: number,
+  col: number,
+  row: number
+): CellTexture {
+  const average: CellTexture = { horizontal: 0, vertical: 0, darkRatio: 0 };
+  let count = 0;
+
+  for (let r = Math.max(0, row - 1); r <= Math.min(rows - 1, row + 1); r++) {
+    for (let c = Math.max(0, col - 1); c <= Math.min(cols - 1, col + 1); c++) {
+      const texture = textures[r * cols + c];
+      average.horizontal += texture.horizontal;
+      average.vertical += texture.vertical;
+      average.darkRatio += texture.darkRatio;
+      count++;
+    }
+  }
+
+  average.horizontal /= count;
+  average.vertical /= count;
+  average.darkRatio /= count;
+  return average;
+}
+
+interface CellComponent {
+  minCol: number;
+  minRow: number;
+  cols: number;
+  rows: number;
+  count: number;
+  fillRatio: number;
+}
+
+/**
+ * Connected groups of marked grid cells
+ */
+function findComponents(cells: Uint8Array, cols: number, rows: number): CellComponent[] {
+  const components: CellComponent[] = [];
+  const visited = new Uint8Array(cells.length);
+
+  for (let start = 0; start < cells.length; start++) {
+    if (!cells[start] || visited[start]) continue;
+
+    let count = 0;
+    let minCol = cols, maxCol = 0, minRow = rows, maxRow = 0;
+    const stack = [start];
+    visited[start] = 1;
+
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      const col = index % cols;
+      const row = Math.floor(index / cols);
+
+      count++;
+      minCol = Math.min(minCol, col);
+      maxCol = Math.max(maxCol, col);
+      minRow = Math.min(minRow, row);
+      maxRow = Math.max(maxRow, row);
+
+      const neighbours = [
+        col > 0 ? index - 1 : -1,
+        col < cols - 1 ? index + 1 : -1,
+        row > 0 ? index - cols : -1,
+        row < rows - 1 ? index + cols : -1,
+      ];
+      for (const neighbour of neighbours) {
+        if (neighbour >= 0 && cells[neighbour] && !visited[neighbour]) {
+          visited[neighbour] = 1;
+          stack.push(neighbour);
+        }
+      }
+    }
+
+    const componentCols = maxCol - minCol + 1;
+    const componentRows = maxRow - minRow + 1;
+    components.push({
+      minCol,
+      minRow,
+      cols: componentCols,
+      rows: componentRows,
+      count,
+      fillRatio: count / (componentCols * componentRows),
+    });
+  }
+
+  return components;
+}
+
+/**
+ * Pixel box of a cell component, padded for the quiet zone
+ */
+function componentToBox(
+  component: CellComponent,
+  cellSize: number,
+  width: number,
+  height: number
+): BoundingBox {
+  return padBox(
+    {
+      x: component.minCol * cellSize,
+      y: component.minRow * cellSize,
+      width: component.cols * cellSize,
+      height: component.rows * cellSize,
+    },
+    width,
+    height
+  );
+}
+
+/**
+ * Grow a box by CODE_PADDING on every side, clipped to the image
+ */
+function padBox(bbox: BoundingBox, width: number, height: number): BoundingBox {
+  const padX = bbox.width * CODE_PADDING;
+  const padY = bbox.height * CODE_PADDING;
+  const left = Math.max(0, bbox.x - padX);
+  const top = Math.max(0, bbox.y - padY);
+  const right = Math.min(width, bbox.x + bbox.width + padX);
+  const bottom = Math.min(height, bbox.y + bbox.height + padY);
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Paint a box white so jsQR moves on to the next code
+ */
+function fillBox(data: Uint8ClampedArray, width: number, bbox: BoundingBox): void {
+  const height = data.length / 4 / width;
+  const left = Math.max(0, Math.floor(bbox.x));
+  const top = Math.max(0, Math.floor(bbox.y));
+  const right = Math.min(width, Math.ceil(bbox.x + bbox.width));
+  const bottom = Math.min(height, Math.ceil(bbox.y + bbox.height));
+
+  for (let y = top; y < bottom; y++) {
+    data.fill(255, (y * width + left) * 4, (y * width + right) * 4);
+  }
+}
+
+function boxesOverlap(a: BoundingBox, b: BoundingBox): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width &&
+    a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+/**
+ * Scale a box between page pixel space and rendered pixels
+ */
+function scaleBox(bbox: BoundingBox, scale: number): BoundingBox {
+  return {
+    x: bbox.x * scale,
+    y: bbox.y * scale,
+    width: bbox.width * scale,
+    height: bbox.height * scale,
+  };
+}
+
+// Export a singleton instance
+let barcodeScannerInstance: BarcodeScanner | null = null;
+
+export function getBarcodeScanner(): BarcodeScanner {
+  if (!barcodeScannerInstance) {
+    barcodeScannerInstance = new BarcodeScanner();
+  }
+  return barcodeScannerInstance;
+}
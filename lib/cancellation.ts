@@ -0,0 +1,53 @@
+/**
+ * Thrown when processing stops because its AbortSignal was aborted
+ */
+export class CancelledError extends Error {
+  constructor() {
+    super('Processing was cancelled');
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * Stop processing if the signal has been aborted
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new CancelledError();
+  }
+}
+
+export function isCancelledError(error: unknown): error is CancelledError {
+  return error instanceof CancelledError;
+}
+
+/**
+ * Settle with the promise, or reject with a CancelledError as soon as the
+ * signal is aborted. onAbort runs first, to stop the work behind the
+ * promise (e.g. terminate the worker running it).
+ */
+export function raceWithSignal<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined,
+  onAbort?: () => void
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    onAbort?.();
+    return Promise.reject(new CancelledError());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const handleAbort = () => {
+      onAbort?.();
+      reject(new CancelledError());
+    };
+    signal.addEventListener('abort', handleAbort, { once: true });
+
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', handleAbort);
+    });
+  });
+}
@@ -0,0 +1,130 @@
+import {
+  ExifOrientation,
+  applyOrientation,
+  getOrientedSize,
+  readImageOrientation,
+} from '@/lib/imageMetadata';
+
+/**
+ * A canvas for drawing pages: an OffscreenCanvas where the browser has one
+ * (always, in the pipeline worker), otherwise a detached <canvas> element
+ */
+export type PageCanvas = OffscreenCanvas | HTMLCanvasElement;
+
+export type PageCanvasContext = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+/**
+ * Create a canvas that is never attached to a document
+ */
+export function createCanvas(width: number, height: number): PageCanvas {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+/**
+ * Get the 2D context of a canvas
+ * @param willReadFrequently - Keep the pixels in memory for getImageData
+ */
+export function getContext2d(canvas: PageCanvas, willReadFrequently = false): PageCanvasContext {
+  const ctx = canvas.getContext('2d', { willReadFrequently });
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+  return ctx as PageCanvasContext;
+}
+
+/**
+ * Encode the canvas pixels as an image file
+ */
+export function canvasToBlob(canvas: PageCanvas, type = 'image/png'): Promise<Blob> {
+  if (!('toBlob' in canvas)) {
+    return canvas.convertToBlob({ type });
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob);
+      else reject(new Error('Failed to create blob from canvas'));
+    }, type);
+  });
+}
+
+/**
+ * Release the canvas backing store without waiting for garbage collection
+ */
+export function releaseCanvas(canvas: PageCanvas): void {
+  canvas.width = 0;
+  canvas.height = 0;
+}
+
+/**
+ * Decode an image file upright, with its EXIF orientation applied, so that
+ * OCR, detection and redaction all measure boxes on the same pixels.
+ * Works without a document, unlike <img>.
+ * The caller closes the bitmap once done with it.
+ */
+export async function loadImageBitmap(file: Blob): Promise<ImageBitmap> {
+  let orientation: ExifOrientation;
+  let bitmap: ImageBitmap;
+  try {
+    orientation = await readImageOrientation(file);
+    // The orientation is applied below, not by the browser
+    bitmap = await createImageBitmap(file, { imageOrientation: 'none' });
+  } catch {
+    throw new Error('Failed to load image');
+  }
+
+  if (orientation === 1) {
+    return bitmap;
+  }
+
+  const { width, height } = getOrientedSize(bitmap.width, bitmap.height, orientation);
+  const canvas = createCanvas(width, height);
+
+  try {
+    const ctx = getContext2d(canvas);
+    applyOrientation(ctx, orientation, bitmap.width, bitmap.height);
+    ctx.drawImage(bitmap, 0, 0);
+    return await createImageBitmap(canvas);
+  } finally {
+    bitmap.close();
+    releaseCanvas(canvas);
+  }
+}
+
+interface CanvasAndContext {
+  canvas: PageCanvas | null;
+  context: PageCanvasContext | null;
+}
+
+/**
+ * Canvas factory for pdf.js, which otherwise creates its scratch canvases
+ * (patterns, masks, Type3 glyphs) with document.createElement
+ */
+export const pdfCanvasFactory = {
+  create(width: number, height: number): CanvasAndContext {
+    const canvas = createCanvas(width, height);
+    return { canvas, context: getContext2d(canvas) };
+  },
+
+  reset(canvasAndContext: CanvasAndContext, width: number, height: number): void {
+    if (canvasAndContext.canvas) {
+      canvasAndContext.canvas.width = width;
+      canvasAndContext.canvas.height = height;
+    }
+  },
+
+  destroy(canvasAndContext: CanvasAndContext): void {
+    if (canvasAndContext.canvas) {
+      releaseCanvas(canvasAndContext.canvas);
+    }
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  },
+};
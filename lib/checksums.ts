@@ -0,0 +1,124 @@
+/**
+ * Check digit algorithms used by Indian identity numbers
+ */
+
+/**
+ * Verhoeff multiplication table (dihedral group D5)
+ */
+const VERHOEFF_MULTIPLICATION = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+
+/**
+ * Verhoeff permutation table
+ */
+const VERHOEFF_PERMUTATION = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+/**
+ * Verhoeff inverse table
+ */
+const VERHOEFF_INVERSE = [0, 4, 3, 2, 1, 5, 6, 7, 8, 9];
+
+/**
+ * Run the Verhoeff checksum over a digit string
+ * Returns 0 when the string (including its check digit) is valid.
+ */
+function verhoeffChecksum(digits: string, hasCheckDigit: boolean): number {
+  let checksum = 0;
+  const offset = hasCheckDigit ? 0 : 1;
+
+  for (let i = 0; i < digits.length; i++) {
+    const digit = digits.charCodeAt(digits.length - 1 - i) - 48;
+    checksum = VERHOEFF_MULTIPLICATION[checksum][VERHOEFF_PERMUTATION[(i + offset) % 8][digit]];
+  }
+
+  return checksum;
+}
+
+/**
+ * Check whether a digit string ends in a valid Verhoeff check digit
+ * Used by Aadhaar numbers and Virtual IDs.
+ */
+export function isValidVerhoeff(digits: string): boolean {
+  if (!/^\d+$/.test(digits)) {
+    return false;
+  }
+  return verhoeffChecksum(digits, true) === 0;
+}
+
+/**
+ * Compute the Verhoeff check digit for a digit string
+ */
+export function generateVerhoeffDigit(digits: string): string {
+  if (!/^\d+$/.test(digits)) {
+    throw new Error('Verhoeff check digits can only be computed for digit strings');
+  }
+  return String(VERHOEFF_INVERSE[verhoeffChecksum(digits, false)]);
+}
+
+/**
+ * Check whether a 12-digit number is a structurally valid Aadhaar number:
+ * it never starts with 0 or 1 and ends in a Verhoeff check digit
+ */
+export function isValidAadhaarNumber(digits: string): boolean {
+  return /^[2-9]\d{11}$/.test(digits) && isValidVerhoeff(digits);
+}
+
+/**
+ * Check whether a 16-digit number is a structurally valid Virtual ID
+ */
+export function isValidVirtualId(digits: string): boolean {
+  return /^\d{16}$/.test(digits) && isValidVerhoeff(digits);
+}
+
+/**
+ * Character set for the GSTIN check character (base 36)
+ */
+const GSTIN_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+/**
+ * Compute the mod-36 check character for the first 14 characters of a GSTIN
+ * Characters at odd positions are weighted by 2 and each product is folded
+ * back into base 36 before summing.
+ */
+export function generateGSTINCheckCharacter(body: string): string {
+  if (!/^[0-9A-Z]{14}$/.test(body)) {
+    throw new Error('GSTIN check characters can only be computed for 14 alphanumeric characters');
+  }
+
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const product = GSTIN_CHARSET.indexOf(body[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+
+  return GSTIN_CHARSET[(36 - (sum % 36)) % 36];
+}
+
+/**
+ * Check whether a 15-character GSTIN ends in a valid check character
+ */
+export function isValidGSTINChecksum(gstin: string): boolean {
+  if (!/^[0-9A-Z]{15}$/.test(gstin)) {
+    return false;
+  }
+  return generateGSTINCheckCharacter(gstin.slice(0, 14)) === gstin[14];
+}
@@ -0,0 +1,34 @@
+/**
+ * Map items through an async function, running at most limit calls at once
+ * Results keep the order of the items, whatever order the calls finish in.
+ * After a call fails no new calls are started; the first error is thrown
+ * once the calls already running have settled.
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+  let failure: { error: unknown } | null = null;
+
+  const runLane = async () => {
+    while (!failure && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+
+  const laneCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: laneCount }, runLane));
+
+  if (failure) {
+    throw (failure as { error: unknown }).error;
+  }
+  return results;
+}
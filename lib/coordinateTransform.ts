@@ -0,0 +1,335 @@
+import { BoundingBox, PageGeometry } from '@/types';
+
+/**
+ * Affine transform [a, b, c, d, e, f] mapping (x, y) to (a*x + c*y + e, b*x + d*y + f)
+ */
+export type TransformMatrix = [number, number, number, number, number, number];
+
+/**
+ * Geometry of a page rendered at 1:1 with no rotation or box offset.
+ * Used for images, where pixel space and page space are the same.
+ */
+export function createIdentityGeometry(width: number, height: number): PageGeometry {
+  return {
+    scale: 1,
+    rotation: 0,
+    viewBox: [0, 0, width, height],
+  };
+}
+
+/**
+ * Normalize a rotation to one of 0, 90, 180 or 270 degrees
+ */
+export function normalizeRotation(rotation: number): number {
+  const normalized = ((rotation % 360) + 360) % 360;
+  if (normalized % 90 !== 0) {
+    throw new Error(`Invalid page rotation: ${rotation}. Must be a multiple of 90 degrees.`);
+  }
+  return normalized;
+}
+
+/**
+ * Build the transform from PDF user space to rendered pixel space.
+ * Mirrors the viewport transform PDF.js uses when rendering a page, so pixel
+ * coordinates produced from a PDF.js render map back exactly.
+ */
+export function getViewportTransform(geometry: PageGeometry): TransformMatrix {
+  const { scale, viewBox } = geometry;
+  const rotation = normalizeRotation(geometry.rotation);
+
+  const centerX = (viewBox[2] + viewBox[0]) / 2;
+  const centerY = (viewBox[3] + viewBox[1]) / 2;
+
+  // Rotation components, including the Y flip from PDF (bottom-up) to pixels (top-down)
+  let rotateA: number, rotateB: number, rotateC: number, rotateD: number;
+  switch (rotation) {
+    case 90:
+      rotateA = 0; rotateB = 1; rotateC = 1; rotateD = 0;
+      break;
+    case 180:
+      rotateA = -1; rotateB = 0; rotateC = 0; rotateD = 1;
+      break;
+    case 270:
+      rotateA = 0; rotateB = -1; rotateC = -1; rotateD = 0;
+      break;
+    default:
+      rotateA = 1; rotateB = 0; rotateC = 0; rotateD = -1;
+      break;
+  }
+
+  let offsetCanvasX: number, offsetCanvasY: number;
+  if (rotateA === 0) {
+    offsetCanvasX = Math.abs(centerY - viewBox[1]) * scale;
+    offsetCanvasY = Math.abs(centerX - viewBox[0]) * scale;
+  } else {
+    offsetCanvasX = Math.abs(centerX - viewBox[0]) * scale;
+    offsetCanvasY = Math.abs(centerY - viewBox[1]) * scale;
+  }
+
+  return [
+    rotateA * scale,
+    rotateB * scale,
+    rotateC * scale,
+    rotateD * scale,
+    offsetCanvasX - rotateA * scale * centerX - rotateC * scale * centerY,
+    offsetCanvasY - rotateB * scale * centerX - rotateD * scale * centerY,
+  ];
+}
+
+/**
+ * Size in pixels of a page rendered with the given geometry
+ */
+export function getRenderedSize(geometry: PageGeometry): { width: number; height: number } {
+  const { scale, viewBox } = geometry;
+  const boxWidth = (viewBox[2] - viewBox[0]) * scale;
+  const boxHeight = (viewBox[3] - viewBox[1]) * scale;
+  const rotation = normalizeRotation(geometry.rotation);
+
+  return rotation === 90 || rotation === 270
+    ? { width: Math.abs(boxHeight), height: Math.abs(boxWidth) }
+    : { width: Math.abs(boxWidth), height: Math.abs(boxHeight) };
+}
+
+/**
+ * Apply an affine transform to a point
+ */
+export function applyTransform(point: [number, number], m: TransformMatrix): [number, number] {
+  const [x, y] = point;
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+}
+
+/**
+ * Combine two affine transforms; the result applies m2 first, then m1
+ */
+export function multiplyTransforms(m1: TransformMatrix, m2: TransformMatrix): TransformMatrix {
+  return [
+    m1[0] * m2[0] + m1[2] * m2[1],
+    m1[1] * m2[0] + m1[3] * m2[1],
+    m1[0] * m2[2] + m1[2] * m2[3],
+    m1[1] * m2[2] + m1[3] * m2[3],
+    m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+    m1[1] * m2[4] + m1[3] * m2[5] + m1[5],
+  ];
+}
+
+/**
+ * Invert an affine transform
+ */
+export function invertTransform(m: TransformMatrix): TransformMatrix {
+  const det = m[0] * m[3] - m[1] * m[2];
+  if (det === 0) {
+    throw new Error('Transform is not invertible');
+  }
+
+  return [
+    m[3] / det,
+    -m[1] / det,
+    -m[2] / det,
+    m[0] / det,
+    (m[2] * m[5] - m[4] * m[3]) / det,
+    (m[4] * m[1] - m[5] * m[0]) / det,
+  ];
+}
+
+/**
+ * Map a point from PDF user space to rendered pixel space
+ */
+export function pdfPointToPixel(point: [number, number], geometry: PageGeometry): [number, number] {
+  return applyTransform(point, getViewportTransform(geometry));
+}
+
+/**
+ * Map a point from rendered pixel space to PDF user space
+ */
+export function pixelToPdfPoint(point: [number, number], geometry: PageGeometry): [number, number] {
+  return applyTransform(point, invertTransform(getViewportTransform(geometry)));
+}
+
+/**
+ * The axis-aligned box around a set of points
+ */
+function getBoundingBox(points: [number, number][]): BoundingBox {
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+
+  return {
+    x: minX,
+    y: minY,
+    width: Math.max(...xs) - minX,
+    height: Math.max(...ys) - minY,
+  };
+}
+
+/**
+ * The four corners of a rectangle
+ */
+function getCorners(rect: BoundingBox): [number, number][] {
+  return [
+    [rect.x, rect.y],
+    [rect.x + rect.width, rect.y],
+    [rect.x, rect.y + rect.height],
+    [rect.x + rect.width, rect.y + rect.height],
+  ];
+}
+
+/**
+ * Transform a set of points and return the axis-aligned box around them
+ */
+function transformPoints(points: [number, number][], m: TransformMatrix): BoundingBox {
+  return getBoundingBox(points.map(point => applyTransform(point, m)));
+}
+
+/**
+ * Transform all four corners of a rectangle and return the axis-aligned box around them
+ */
+function transformRect(rect: BoundingBox, m: TransformMatrix): BoundingBox {
+  return transformPoints(getCorners(rect), m);
+}
+
+/**
+ * Map a polygon in PDF user space (e.g. a rotated glyph run) to the pixel-space
+ * bounding box that encloses it
+ */
+export function pdfPointsToPixelRect(
+  points: [number, number][],
+  geometry: PageGeometry
+): BoundingBox {
+  return transformPoints(points, getViewportTransform(geometry));
+}
+
+/**
+ * Map a pixel-space bounding box (top-left origin) to a rectangle in PDF
+ * user space (x, y is the bottom-left corner), as expected by pdf-lib
+ */
+export function pixelRectToPdfRect(bbox: BoundingBox, geometry: PageGeometry): BoundingBox {
+  return transformRect(bbox, invertTransform(getViewportTransform(geometry)));
+}
+
+/**
+ * Map a rectangle in PDF user space to a pixel-space bounding box
+ */
+export function pdfRectToPixelRect(rect: BoundingBox, geometry: PageGeometry): BoundingBox {
+  return transformRect(rect, getViewportTransform(geometry));
+}
+
+/**
+ * Map a pixel-space bounding box from one rendering of a page to another
+ * (e.g. from the OCR render scale to the rasterization scale)
+ */
+export function convertPixelRect(
+  bbox: BoundingBox,
+  from: PageGeometry,
+  to: PageGeometry
+): BoundingBox {
+  return pdfRectToPixelRect(pixelRectToPdfRect(bbox, from), to);
+}
+
+/**
+ * Perspective transform (homography) as a row-major 3×3 matrix mapping
+ * (x, y) to ((h0*x + h1*y + h2) / w, (h3*x + h4*y + h5) / w), where
+ * w = h6*x + h7*y + h8
+ */
+export type HomographyMatrix = [number, number, number, number, number, number, number, number, number];
+
+export const IDENTITY_HOMOGRAPHY: HomographyMatrix = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+/**
+ * Apply a homography to a point
+ */
+export function applyHomography(point: [number, number], m: HomographyMatrix): [number, number] {
+  const [x, y] = point;
+  const w = m[6] * x + m[7] * y + m[8];
+  return [(m[0] * x + m[1] * y + m[2]) / w, (m[3] * x + m[4] * y + m[5]) / w];
+}
+
+/**
+ * Combine two homographies; the result applies m2 first, then m1
+ */
+export function multiplyHomographies(m1: HomographyMatrix, m2: HomographyMatrix): HomographyMatrix {
+  const result = new Array<number>(9);
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      result[row * 3 + col] =
+        m1[row * 3] * m2[col] + m1[row * 3 + 1] * m2[3 + col] + m1[row * 3 + 2] * m2[6 + col];
+    }
+  }
+  return result as HomographyMatrix;
+}
+
+/**
+ * Invert a homography
+ */
+export function invertHomography(m: HomographyMatrix): HomographyMatrix {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  if (Math.abs(det) < 1e-12) {
+    throw new Error('Transform is not invertible');
+  }
+
+  return [
+    (e * i - f * h) / det,
+    (c * h - b * i) / det,
+    (b * f - c * e) / det,
+    (f * g - d * i) / det,
+    (a * i - c * g) / det,
+    (c * d - a * f) / det,
+    (d * h - e * g) / det,
+    (b * g - a * h) / det,
+    (a * e - b * d) / det,
+  ];
+}
+
+/**
+ * Find the homography that maps four points onto four others, such as the
+ * corners of a photographed card onto an upright rectangle
+ */
+export function getPerspectiveTransform(
+  from: [number, number][],
+  to: [number, number][]
+): HomographyMatrix {
+  if (from.length !== 4 || to.length !== 4) {
+    throw new Error('A perspective transform needs four points');
+  }
+
+  // Eight equations in the eight unknowns h0-h7 (h8 = 1), as an augmented matrix
+  const rows: number[][] = [];
+  for (let index = 0; index < 4; index++) {
+    const [x, y] = from[index];
+    const [u, v] = to[index];
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-12) {
+      throw new Error('Points do not define a perspective transform');
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k < 9; k++) {
+        rows[row][k] -= factor * rows[col][k];
+      }
+    }
+  }
+
+  const h = rows.map((row, index) => row[8] / row[index]);
+  return [h[0], h[1], h[2], h[3], h[4], h[5], h[6], h[7], 1];
+}
+
+/**
+ * Map all four corners of a rectangle through a homography and return the
+ * axis-aligned box around them
+ */
+export function applyHomographyToRect(rect: BoundingBox, m: HomographyMatrix): BoundingBox {
+  return getBoundingBox(getCorners(rect).map(corner => applyHomography(corner, m)));
+}
@@ -0,0 +1,17 @@
+import { DetectorDefinition } from '@/types';
+
+/**
+ * Detectors added to the tool, run after the built-in ones
+ * This is the one place to register them: getPatternDetector() registers
+ * them wherever detection runs, which is the pipeline worker in browsers
+ * that support it. Detectors registered on the main thread at runtime never
+ * reach the worker. For example:
+ *
+ *   {
+ *     type: 'EMPLOYEE_ID',
+ *     label: 'Employee IDs',
+ *     color: '#facc15',
+ *     detect: (ocrResult) => findEmployeeIds(ocrResult),
+ *   }
+ */
+export const CUSTOM_DETECTORS: DetectorDefinition[] = [];
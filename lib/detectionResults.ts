@@ -0,0 +1,31 @@
+import { Detection, DetectionResult, DetectionType } from '@/types';
+import { DetectorRegistry, getDetectorRegistry } from '@/lib/detectorRegistry';
+
+/**
+ * Get the detections of one type
+ */
+export function getDetectionsByType(result: DetectionResult, type: DetectionType): Detection[] {
+  return result.detections.filter(detection => detection.type === type);
+}
+
+/**
+ * Count detections per type
+ * Every registered or described detector is listed (in registration order),
+ * even with a count of zero, followed by any other types present in the result.
+ */
+export function countDetectionsByType(
+  result: DetectionResult,
+  registry: DetectorRegistry = getDetectorRegistry()
+): Map<DetectionType, number> {
+  const counts = new Map<DetectionType, number>();
+
+  for (const detector of registry.getDetectorInfo()) {
+    counts.set(detector.type, 0);
+  }
+
+  for (const detection of result.detections) {
+    counts.set(detection.type, (counts.get(detection.type) ?? 0) + 1);
+  }
+
+  return counts;
+}
@@ -0,0 +1,104 @@
+import { DetectionType, DetectionTypeInfo, DetectorDefinition, DetectorInfo } from '@/types';
+
+/**
+ * Display information for detection types that have no text detector:
+ * photographs found by PhotoDetector, codes found by BarcodeScanner and
+ * boxes drawn by the user during review
+ */
+const NON_DETECTOR_TYPES: Record<string, DetectionTypeInfo> = {
+  PHOTO: { label: 'Photographs', color: '#f59e0b' },
+  QR_CODE: { label: 'QR Codes', color: '#22d3ee' },
+  BARCODE: { label: 'Barcodes', color: '#94a3b8' },
+  MANUAL: { label: 'Drawn Manually', color: '#f87171' },
+};
+
+/**
+ * Colour used for types that are neither registered nor known
+ */
+const FALLBACK_COLOR = '#9ca3af';
+
+/**
+ * DetectorRegistry keeps the detectors PatternDetector runs, in registration
+ * order, along with the label and colour every downstream module uses to
+ * present their detections
+ */
+export class DetectorRegistry {
+  private detectors = new Map<DetectionType, DetectorDefinition>();
+  private described = new Map<DetectionType, DetectorInfo>();
+
+  /**
+   * Register a detector
+   * Throws if a detector with the same type is already registered.
+   */
+  register(detector: DetectorDefinition): void {
+    if (this.detectors.has(detector.type)) {
+      throw new Error(`A detector for type "${detector.type}" is already registered`);
+    }
+    this.detectors.set(detector.type, detector);
+  }
+
+  /**
+   * Remove a detector; returns false if it was not registered
+   */
+  unregister(type: DetectionType): boolean {
+    return this.detectors.delete(type);
+  }
+
+  has(type: DetectionType): boolean {
+    return this.detectors.has(type);
+  }
+
+  get(type: DetectionType): DetectorDefinition | undefined {
+    return this.detectors.get(type);
+  }
+
+  /**
+   * All registered detectors, in registration order
+   */
+  getAll(): DetectorDefinition[] {
+    return Array.from(this.detectors.values());
+  }
+
+  /**
+   * Record the detectors registered in another registry, such as the
+   * pipeline worker's, so that their detections are labelled here too
+   * Replaces the detectors described before.
+   */
+  describeDetectors(detectors: DetectorInfo[]): void {
+    this.described = new Map(detectors.map(detector => [detector.type, detector]));
+  }
+
+  /**
+   * Type, label and colour of every registered detector, in registration
+   * order, followed by the described ones not registered here
+   */
+  getDetectorInfo(): DetectorInfo[] {
+    const registered = this.getAll().map(({ type, label, color }) => ({ type, label, color }));
+    const described = Array.from(this.described.values()).filter(
+      detector => !this.detectors.has(detector.type)
+    );
+    return [...registered, ...described];
+  }
+
+  /**
+   * Label and colour for a detection type, falling back to the type name
+   */
+  describe(type: DetectionType): DetectionTypeInfo {
+    const detector = this.detectors.get(type) ?? this.described.get(type);
+    if (detector) {
+      return { label: detector.label, color: detector.color };
+    }
+
+    return NON_DETECTOR_TYPES[type] ?? { label: type, color: FALLBACK_COLOR };
+  }
+}
+
+// Export a singleton instance
+let detectorRegistryInstance: DetectorRegistry | null = null;
+
+export function getDetectorRegistry(): DetectorRegistry {
+  if (!detectorRegistryInstance) {
+    detectorRegistryInstance = new DetectorRegistry();
+  }
+  return detectorRegistryInstance;
+}
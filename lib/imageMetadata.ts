@@ -0,0 +1,232 @@
+/**
+ * Reading and removing the metadata of JPEG and PNG files: EXIF
+ * orientation, and the GPS, device and text metadata that must not leave
+ * with a redacted image
+ */
+
+/**
+ * EXIF orientation: 1 is upright; 2-8 are flips and quarter turns, and
+ * 5-8 swap width and height
+ */
+export type ExifOrientation = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+const EXIF_ORIENTATION_TAG = 0x0112;
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * JPEG segments kept when stripping metadata: JFIF (APP0), ICC colour
+ * profiles (APP2) and Adobe colour transform (APP14)
+ */
+const KEPT_JPEG_SEGMENTS = [0xe0, 0xe2, 0xee];
+
+/**
+ * PNG chunks removed when stripping metadata: text, EXIF and timestamps
+ */
+const REMOVED_PNG_CHUNKS = ['tEXt', 'zTXt', 'iTXt', 'eXIf', 'tIME'];
+
+function isJpeg(bytes: Uint8Array): boolean {
+  return bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8;
+}
+
+function isPng(bytes: Uint8Array): boolean {
+  return bytes.length > 8 && PNG_SIGNATURE.every((byte, index) => bytes[index] === byte);
+}
+
+function chunkType(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+}
+
+/**
+ * Read the orientation tag from the first IFD of TIFF data, as found in a
+ * JPEG APP1 segment or a PNG eXIf chunk
+ */
+function readTiffOrientation(view: DataView, start: number, end: number): ExifOrientation {
+  if (end - start < 8) return 1;
+
+  const byteOrder = view.getUint16(start);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return 1;
+  const littleEndian = byteOrder === 0x4949;
+
+  const ifd = start + view.getUint32(start + 4, littleEndian);
+  if (ifd + 2 > end) return 1;
+
+  const entries = view.getUint16(ifd, littleEndian);
+  for (let index = 0; index < entries; index++) {
+    const entry = ifd + 2 + index * 12;
+    if (entry + 12 > end) break;
+    if (view.getUint16(entry, littleEndian) === EXIF_ORIENTATION_TAG) {
+      const orientation = view.getUint16(entry + 8, littleEndian);
+      return orientation >= 1 && orientation <= 8 ? (orientation as ExifOrientation) : 1;
+    }
+  }
+  return 1;
+}
+
+/**
+ * Walk the segments of a JPEG header, up to the start of the image data
+ * The callback receives each marker with the offsets of the whole segment.
+ */
+function forEachJpegSegment(
+  bytes: Uint8Array,
+  callback: (marker: number, start: number, end: number) => boolean | void
+): number {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan: entropy-coded data follows
+    if (marker === 0xda) break;
+
+    const end = offset + 2 + view.getUint16(offset + 2);
+    if (end > bytes.length || callback(marker, offset, end) === false) break;
+    offset = end;
+  }
+  return offset;
+}
+
+/**
+ * Walk the chunks of a PNG file
+ * The callback receives each chunk type with the offsets of the whole chunk.
+ */
+function forEachPngChunk(
+  bytes: Uint8Array,
+  callback: (type: string, start: number, end: number) => boolean | void
+): void {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 12 <= bytes.length) {
+    // Length, type, data and CRC
+    const end = offset + 12 + view.getUint32(offset);
+    if (end > bytes.length || callback(chunkType(bytes, offset + 4), offset, end) === false) break;
+    offset = end;
+  }
+}
+
+/**
+ * Read the EXIF orientation of a JPEG or PNG file
+ * Files without EXIF data, and other formats, are upright.
+ */
+export function readExifOrientation(bytes: Uint8Array): ExifOrientation {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let orientation: ExifOrientation = 1;
+
+  if (isJpeg(bytes)) {
+    forEachJpegSegment(bytes, (marker, start, end) => {
+      // APP1 segments hold EXIF after an "Exif\0\0" header, or XMP
+      if (marker === 0xe1 && chunkType(bytes, start + 4) === 'Exif') {
+        orientation = readTiffOrientation(view, start + 10, end);
+        return false;
+      }
+    });
+  } else if (isPng(bytes)) {
+    forEachPngChunk(bytes, (type, start, end) => {
+      if (type === 'eXIf') {
+        orientation = readTiffOrientation(view, start + 8, end - 4);
+        return false;
+      }
+      if (type === 'IDAT') return false;
+    });
+  }
+
+  return orientation;
+}
+
+/**
+ * Read the EXIF orientation of an image file
+ */
+export async function readImageOrientation(file: Blob): Promise<ExifOrientation> {
+  return readExifOrientation(new Uint8Array(await file.arrayBuffer()));
+}
+
+/**
+ * Size of an image once its orientation is applied
+ */
+export function getOrientedSize(
+  width: number,
+  height: number,
+  orientation: ExifOrientation
+): { width: number; height: number } {
+  return orientation >= 5 ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Transform a canvas of the oriented size so that the stored pixels of a
+ * width × height image, drawn at the origin, come out upright
+ */
+export function applyOrientation(
+  ctx: Pick<CanvasRenderingContext2D, 'transform'>,
+  orientation: ExifOrientation,
+  width: number,
+  height: number
+): void {
+  switch (orientation) {
+    case 2:
+      ctx.transform(-1, 0, 0, 1, width, 0);
+      break;
+    case 3:
+      ctx.transform(-1, 0, 0, -1, width, height);
+      break;
+    case 4:
+      ctx.transform(1, 0, 0, -1, 0, height);
+      break;
+    case 5:
+      ctx.transform(0, 1, 1, 0, 0, 0);
+      break;
+    case 6:
+      ctx.transform(0, 1, -1, 0, height, 0);
+      break;
+    case 7:
+      ctx.transform(0, -1, -1, 0, height, width);
+      break;
+    case 8:
+      ctx.transform(0, -1, 1, 0, 0, width);
+      break;
+  }
+}
+
+/**
+ * Remove EXIF (including GPS and device details), XMP, IPTC, comments and
+ * text chunks from a JPEG or PNG file, leaving the pixels untouched
+ * Other formats are returned as they are.
+ */
+export function removeImageMetadata(bytes: Uint8Array): Uint8Array {
+  const kept: Uint8Array[] = [];
+
+  if (isJpeg(bytes)) {
+    kept.push(bytes.subarray(0, 2));
+    const imageData = forEachJpegSegment(bytes, (marker, start, end) => {
+      const isMetadata = (marker >= 0xe0 && marker <= 0xef) || marker === 0xfe;
+      if (!isMetadata || KEPT_JPEG_SEGMENTS.includes(marker)) {
+        kept.push(bytes.subarray(start, end));
+      }
+    });
+    kept.push(bytes.subarray(imageData));
+  } else if (isPng(bytes)) {
+    kept.push(bytes.subarray(0, PNG_SIGNATURE.length));
+    forEachPngChunk(bytes, (type, start, end) => {
+      if (!REMOVED_PNG_CHUNKS.includes(type)) {
+        kept.push(bytes.subarray(start, end));
+      }
+    });
+  } else {
+    return bytes;
+  }
+
+  const stripped = new Uint8Array(kept.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of kept) {
+    stripped.set(part, offset);
+    offset += part.length;
+  }
+  return stripped;
+}
+
+/**
+ * Remove the metadata of an image file, see removeImageMetadata
+ */
+export async function stripImageMetadata(file: Blob): Promise<Blob> {
+  const bytes = removeImageMetadata(new Uint8Array(await file.arrayBuffer()));
+  return new Blob([new Uint8Array(bytes)], { type: file.type });
+}
@@ -0,0 +1,603 @@
+import { BoundingBox, PageImage } from '@/types';
+import {
+  HomographyMatrix,
+  IDENTITY_HOMOGRAPHY,
+  applyHomography,
+  applyHomographyToRect,
+  getPerspectiveTransform,
+  invertHomography,
+  multiplyHomographies,
+} from '@/lib/coordinateTransform';
+
+/**
+ * Longest side (in pixels) images are downscaled to when looking for the
+ * card edges and the skew
+ */
+const ANALYSIS_MAX_DIMENSION = 800;
+
+/**
+ * Images whose longest side is shorter than this are upscaled for OCR, so
+ * that small text is large enough for Tesseract
+ */
+const MIN_OCR_DIMENSION = 1600;
+
+/**
+ * Images whose longest side is longer than this are downscaled for OCR
+ */
+const MAX_OCR_DIMENSION = 4000;
+
+/**
+ * Largest upscaling factor
+ */
+const MAX_UPSCALE = 3;
+
+/**
+ * Smallest card, as a fraction of the photo area; smaller shapes are logos
+ * or stains, not the card
+ */
+const MIN_CARD_AREA_RATIO = 0.2;
+
+/**
+ * Largest card, as a fraction of the photo area; a card that fills the
+ * photo needs no perspective correction
+ */
+const MAX_CARD_AREA_RATIO = 0.95;
+
+/**
+ * How much of the quadrilateral through its corners a card shape must fill
+ * Rounded corners and blur lose a little; anything less is not a card.
+ */
+const MIN_CARD_FILL_RATIO = 0.9;
+
+/**
+ * Skew angles tried, in degrees either side of horizontal
+ */
+const MAX_SKEW = 15;
+const SKEW_STEP = 0.5;
+
+/**
+ * Skews smaller than this (in degrees) are left alone
+ */
+const MIN_SKEW = 0.5;
+
+/**
+ * Most text pixels used to estimate the skew
+ */
+const MAX_SKEW_SAMPLES = 50000;
+
+/**
+ * Adaptive thresholding: a pixel is ink when it is this much darker than
+ * the mean of its neighbourhood
+ */
+const THRESHOLD_SENSITIVITY = 0.15;
+
+/**
+ * One channel of 8-bit pixels, row by row
+ */
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+type Point = [number, number];
+
+/**
+ * An image prepared for OCR, with the transform from the original image's
+ * pixels to its own
+ */
+export interface PreprocessedImage {
+  image: PageImage;
+  transform: HomographyMatrix;
+  /** Corners of the card flattened into the image, in original pixels */
+  card?: Point[];
+}
+
+/**
+ * Convert RGBA pixels to luminance
+ */
+export function toGrayscale(image: PageImage): GrayImage {
+  const { width, height, data } = image;
+  const gray = new Uint8ClampedArray(width * height);
+
+  for (let index = 0; index < gray.length; index++) {
+    const offset = index * 4;
+    gray[index] = (77 * data[offset] + 150 * data[offset + 1] + 29 * data[offset + 2]) >> 8;
+  }
+  return { width, height, data: gray };
+}
+
+/**
+ * Shrink an image so its longest side is at most maxDimension, averaging
+ * the pixels each output pixel covers
+ */
+function downsample(image: GrayImage, maxDimension: number): { image: GrayImage; scale: number } {
+  const scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+  if (scale === 1) {
+    return { image, scale };
+  }
+
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const data = new Uint8ClampedArray(width * height);
+
+  for (let y = 0; y < height; y++) {
+    const top = Math.floor(y / scale);
+    const bottom = Math.min(image.height, Math.max(top + 1, Math.floor((y + 1) / scale)));
+    for (let x = 0; x < width; x++) {
+      const left = Math.floor(x / scale);
+      const right = Math.min(image.width, Math.max(left + 1, Math.floor((x + 1) / scale)));
+
+      let sum = 0;
+      for (let sy = top; sy < bottom; sy++) {
+        for (let sx = left; sx < right; sx++) {
+          sum += image.data[sy * image.width + sx];
+        }
+      }
+      data[y * width + x] = sum / ((bottom - top) * (right - left));
+    }
+  }
+
+  return { image: { width, height, data }, scale: width / image.width };
+}
+
+/**
+ * Otsu's threshold: the grey level that best separates dark and light pixels
+ */
+function otsuThreshold(image: GrayImage): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (let index = 0; index < image.data.length; index++) {
+    histogram[image.data[index]]++;
+  }
+
+  const total = image.data.length;
+  const sum = histogram.reduce((acc, count, level) => acc + count * level, 0);
+
+  let darkCount = 0;
+  let darkSum = 0;
+  let best = 0;
+  let threshold = 127;
+  for (let level = 0; level < 256; level++) {
+    darkCount += histogram[level];
+    darkSum += histogram[level] * level;
+    const lightCount = total - darkCount;
+    if (darkCount === 0 || lightCount === 0) continue;
+
+    const difference = darkSum / darkCount - (sum - darkSum) / lightCount;
+    const variance = darkCount * lightCount * difference * difference;
+    if (variance > best) {
+      best = variance;
+      threshold = level;
+    }
+  }
+  return threshold;
+}
+
+/**
+ * Ink mask by Bradley's adaptive threshold: a pixel is ink when it is
+ * darker than the mean of the window around it, which copes with shadows
+ * and uneven lighting that defeat a single threshold
+ */
+export function adaptiveThreshold(image: GrayImage): Uint8Array {
+  const { width, height, data } = image;
+  const radius = Math.max(7, Math.round(Math.min(width, height) / 16));
+
+  // Summed-area table, one row and column larger than the image
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += data[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  const ink = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const top = Math.max(0, y - radius);
+    const bottom = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - radius);
+      const right = Math.min(width, x + radius + 1);
+      const sum =
+        integral[bottom * (width + 1) + right] -
+        integral[top * (width + 1) + right] -
+        integral[bottom * (width + 1) + left] +
+        integral[top * (width + 1) + left];
+      const mean = sum / ((bottom - top) * (right - left));
+
+      ink[y * width + x] = data[y * width + x] < mean * (1 - THRESHOLD_SENSITIVITY) ? 1 : 0;
+    }
+  }
+  return ink;
+}
+
+function polygonArea(points: Point[]): number {
+  let area = 0;
+  points.forEach(([x1, y1], index) => {
+    const [x2, y2] = points[(index + 1) % points.length];
+    area += x1 * y2 - x2 * y1;
+  });
+  return Math.abs(area) / 2;
+}
+
+function isConvex(points: Point[]): boolean {
+  let sign = 0;
+  for (let index = 0; index < points.length; index++) {
+    const [x1, y1] = points[index];
+    const [x2, y2] = points[(index + 1) % points.length];
+    const [x3, y3] = points[(index + 2) % points.length];
+    const cross = (x2 - x1) * (y3 - y2) - (y2 - y1) * (x3 - x2);
+    if (cross === 0) return false;
+    if (sign !== 0 && Math.sign(cross) !== sign) return false;
+    sign = Math.sign(cross);
+  }
+  return true;
+}
+
+function distance([x1, y1]: Point, [x2, y2]: Point): number {
+  return Math.hypot(x2 - x1, y2 - y1);
+}
+
+/**
+ * Find the corners of a card photographed against a background, in
+ * clockwise order from the top left
+ * The card is the largest region on the other side of Otsu's threshold from
+ * the photo's border. Its corners are its extreme points along the
+ * diagonals, so cards may be turned by up to 45 degrees. Returns null when
+ * no card-shaped region is found, or the card fills the photo.
+ */
+export function findCardCorners(image: GrayImage): Point[] | null {
+  const { width, height, data } = image;
+  const threshold = otsuThreshold(image);
+
+  // The background is whichever side of the threshold most of the border is on
+  let lightBorder = 0;
+  let borderCount = 0;
+  for (let x = 0; x < width; x++) {
+    lightBorder += (data[x] > threshold ? 1 : 0) + (data[(height - 1) * width + x] > threshold ? 1 : 0);
+    borderCount += 2;
+  }
+  for (let y = 0; y < height; y++) {
+    lightBorder += (data[y * width] > threshold ? 1 : 0) + (data[y * width + width - 1] > threshold ? 1 : 0);
+    borderCount += 2;
+  }
+  const backgroundIsLight = lightBorder > borderCount / 2;
+
+  const foreground = new Uint8Array(width * height);
+  for (let index = 0; index < foreground.length; index++) {
+    foreground[index] = data[index] > threshold !== backgroundIsLight ? 1 : 0;
+  }
+
+  // Largest 4-connected foreground region
+  const labels = new Int32Array(width * height);
+  const stack = new Int32Array(width * height);
+  let bestLabel = 0;
+  let bestSize = 0;
+  let label = 0;
+  for (let start = 0; start < foreground.length; start++) {
+    if (!foreground[start] || labels[start]) continue;
+
+    label++;
+    let size = 0;
+    let top = 0;
+    stack[top++] = start;
+    labels[start] = label;
+    while (top > 0) {
+      const index = stack[--top];
+      size++;
+      const x = index % width;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index - width,
+        index + width,
+      ];
+      for (const neighbour of neighbours) {
+        if (neighbour >= 0 && neighbour < foreground.length && foreground[neighbour] && !labels[neighbour]) {
+          labels[neighbour] = label;
+          stack[top++] = neighbour;
+        }
+      }
+    }
+
+    if (size > bestSize) {
+      bestSize = size;
+      bestLabel = label;
+    }
+  }
+  if (bestLabel === 0) return null;
+
+  // Extreme points along the diagonals, and the area inside the region's
+  // outline (text on the card leaves holes in the region itself)
+  let topLeft: Point = [0, 0];
+  let topRight: Point = [0, 0];
+  let bottomRight: Point = [0, 0];
+  let bottomLeft: Point = [0, 0];
+  let minSum = Infinity;
+  let maxSum = -Infinity;
+  let minDifference = Infinity;
+  let maxDifference = -Infinity;
+  let filledArea = 0;
+
+  for (let y = 0; y < height; y++) {
+    let rowStart = -1;
+    let rowEnd = -1;
+    for (let x = 0; x < width; x++) {
+      if (labels[y * width + x] !== bestLabel) continue;
+      if (rowStart < 0) rowStart = x;
+      rowEnd = x;
+
+      if (x + y < minSum) { minSum = x + y; topLeft = [x, y]; }
+      if (x + y > maxSum) { maxSum = x + y; bottomRight = [x + 1, y + 1]; }
+      if (x - y > maxDifference) { maxDifference = x - y; topRight = [x + 1, y]; }
+      if (x - y < minDifference) { minDifference = x - y; bottomLeft = [x, y + 1]; }
+    }
+    if (rowStart >= 0) filledArea += rowEnd - rowStart + 1;
+  }
+
+  const corners = [topLeft, topRight, bottomRight, bottomLeft];
+  const area = polygonArea(corners);
+  const imageArea = width * height;
+  if (
+    area < imageArea * MIN_CARD_AREA_RATIO ||
+    area > imageArea * MAX_CARD_AREA_RATIO ||
+    !isConvex(corners) ||
+    Math.min(area, filledArea) / Math.max(area, filledArea) < MIN_CARD_FILL_RATIO
+  ) {
+    return null;
+  }
+  return corners;
+}
+
+/**
+ * Estimate the angle (in degrees, clockwise) of the text lines in an image
+ * Text pixels are projected onto the vertical axis at each candidate angle;
+ * the angle at which lines of text stack up into the sharpest peaks wins.
+ */
+export function estimateSkewAngle(image: GrayImage): number {
+  const { width, height } = image;
+  const ink = adaptiveThreshold(image);
+
+  let inkCount = 0;
+  for (let index = 0; index < ink.length; index++) {
+    inkCount += ink[index];
+  }
+  if (inkCount === 0) return 0;
+
+  const step = Math.max(1, Math.ceil(inkCount / MAX_SKEW_SAMPLES));
+  const xs: number[] = [];
+  const ys: number[] = [];
+  let seen = 0;
+  for (let index = 0; index < ink.length; index++) {
+    if (ink[index] && seen++ % step === 0) {
+      xs.push(index % width);
+      ys.push(Math.floor(index / width));
+    }
+  }
+
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  const bins = new Float64Array(diagonal * 2 + 1);
+  let bestAngle = 0;
+  let bestScore = -1;
+
+  for (let angle = -MAX_SKEW; angle <= MAX_SKEW + 1e-9; angle += SKEW_STEP) {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    bins.fill(0);
+    for (let index = 0; index < xs.length; index++) {
+      bins[Math.round(ys[index] * cos - xs[index] * sin) + diagonal]++;
+    }
+
+    let score = 0;
+    for (let index = 0; index < bins.length; index++) {
+      score += bins[index] * bins[index];
+    }
+    // Prefer the smaller angle on ties, so blank images stay as they are
+    if (score > bestScore || (score === bestScore && Math.abs(angle) < Math.abs(bestAngle))) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+
+  return Math.round(bestAngle / SKEW_STEP) * SKEW_STEP;
+}
+
+/**
+ * Transform that flattens the card onto an upright rectangle, with the size
+ * of that rectangle
+ */
+function getCardTransform(corners: Point[]): { transform: HomographyMatrix; width: number; height: number } {
+  const [topLeft, topRight, bottomRight, bottomLeft] = corners;
+  const width = Math.round(Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight)));
+  const height = Math.round(Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight)));
+
+  const transform = getPerspectiveTransform(corners, [
+    [0, 0],
+    [width, 0],
+    [width, height],
+    [0, height],
+  ]);
+  return { transform, width, height };
+}
+
+/**
+ * Transform that turns the image by -angle degrees, with the size of the
+ * turned image
+ */
+function getDeskewTransform(
+  angle: number,
+  width: number,
+  height: number
+): { transform: HomographyMatrix; width: number; height: number } {
+  const radians = (angle * Math.PI) / 180;
+  const sin = Math.sin(radians);
+  const cos = Math.cos(radians);
+  const rotation: HomographyMatrix = [cos, sin, 0, -sin, cos, 0, 0, 0, 1];
+
+  // Shift the turned image back into view
+  const bounds = applyHomographyToRect({ x: 0, y: 0, width, height }, rotation);
+  const shift: HomographyMatrix = [1, 0, -bounds.x, 0, 1, -bounds.y, 0, 0, 1];
+
+  return {
+    transform: multiplyHomographies(shift, rotation),
+    width: Math.ceil(bounds.width),
+    height: Math.ceil(bounds.height),
+  };
+}
+
+/**
+ * Resample an image through a transform, with bilinear interpolation
+ * Pixels that fall outside the source are white.
+ */
+function warpImage(
+  image: GrayImage,
+  transform: HomographyMatrix,
+  width: number,
+  height: number
+): GrayImage {
+  const inverse = invertHomography(transform);
+  const data = new Uint8ClampedArray(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [sourceX, sourceY] = applyHomography([x + 0.5, y + 0.5], inverse);
+      const fx = sourceX - 0.5;
+      const fy = sourceY - 0.5;
+      const x0 = Math.floor(fx);
+      const y0 = Math.floor(fy);
+
+      if (x0 < -1 || y0 < -1 || x0 >= image.width || y0 >= image.height) {
+        data[y * width + x] = 255;
+        continue;
+      }
+
+      const sample = (sx: number, sy: number) =>
+        image.data[
+          Math.min(image.height - 1, Math.max(0, sy)) * image.width +
+            Math.min(image.width - 1, Math.max(0, sx))
+        ];
+      const dx = fx - x0;
+      const dy = fy - y0;
+      data[y * width + x] =
+        sample(x0, y0) * (1 - dx) * (1 - dy) +
+        sample(x0 + 1, y0) * dx * (1 - dy) +
+        sample(x0, y0 + 1) * (1 - dx) * dy +
+        sample(x0 + 1, y0 + 1) * dx * dy;
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Scale a view of the image to a size OCR reads well (small images up,
+ * large ones down), resample it and binarise it with an adaptive threshold
+ */
+function prepareView(
+  gray: GrayImage,
+  view: { transform: HomographyMatrix; width: number; height: number }
+): PreprocessedImage {
+  let { transform, width, height } = view;
+
+  const longest = Math.max(width, height);
+  const scale =
+    longest < MIN_OCR_DIMENSION
+      ? Math.min(MAX_UPSCALE, MIN_OCR_DIMENSION / longest)
+      : Math.min(1, MAX_OCR_DIMENSION / longest);
+  if (scale !== 1) {
+    transform = multiplyHomographies([scale, 0, 0, 0, scale, 0, 0, 0, 1], transform);
+    width = Math.round(width * scale);
+    height = Math.round(height * scale);
+  }
+
+  const prepared = transform === IDENTITY_HOMOGRAPHY ? gray : warpImage(gray, transform, width, height);
+  const ink = adaptiveThreshold(prepared);
+
+  const data = new Uint8ClampedArray(ink.length * 4);
+  for (let index = 0; index < ink.length; index++) {
+    const value = ink[index] ? 0 : 255;
+    data[index * 4] = value;
+    data[index * 4 + 1] = value;
+    data[index * 4 + 2] = value;
+    data[index * 4 + 3] = 255;
+  }
+
+  return { image: { width, height, data }, transform };
+}
+
+/**
+ * Prepare a photo for OCR: grayscale, straighten skewed text, scale small
+ * images up and large ones down, then binarise with an adaptive threshold
+ * When a card is found against a background it is also flattened into a
+ * view of its own, returned first. The whole photo is always returned too,
+ * so text around the card (e.g. the form it lies on) is read as well.
+ * Each transform maps original pixels to its prepared image, so that OCR
+ * boxes can be mapped back with mapBoxToOriginal.
+ */
+export function preprocessImage(image: PageImage): PreprocessedImage[] {
+  const gray = toGrayscale(image);
+  const analysis = downsample(gray, ANALYSIS_MAX_DIMENSION);
+  const views: PreprocessedImage[] = [];
+
+  const corners = findCardCorners(analysis.image);
+  if (corners) {
+    const card = corners.map(([x, y]) => [x / analysis.scale, y / analysis.scale] as Point);
+    views.push({ ...prepareView(gray, getCardTransform(card)), card });
+  }
+
+  const angle = estimateSkewAngle(analysis.image);
+  views.push(
+    prepareView(
+      gray,
+      Math.abs(angle) >= MIN_SKEW
+        ? getDeskewTransform(angle, gray.width, gray.height)
+        : { transform: IDENTITY_HOMOGRAPHY, width: gray.width, height: gray.height }
+    )
+  );
+
+  return views;
+}
+
+/**
+ * Whether the centre of a box (in original pixels) lies on a card
+ */
+export function isOnCard(bbox: BoundingBox, card: Point[]): boolean {
+  const x = bbox.x + bbox.width / 2;
+  const y = bbox.y + bbox.height / 2;
+  let inside = false;
+
+  // Count crossings of a ray to the right of the point
+  card.forEach(([x1, y1], index) => {
+    const [x2, y2] = card[(index + 1) % card.length];
+    if (y1 > y !== y2 > y && x < x1 + ((y - y1) * (x2 - x1)) / (y2 - y1)) {
+      inside = !inside;
+    }
+  });
+  return inside;
+}
+
+/**
+ * Map a box in a prepared image back to the original image: the box around
+ * the mapped corners, clipped to the original image
+ */
+export function mapBoxToOriginal(
+  bbox: BoundingBox,
+  transform: HomographyMatrix,
+  width: number,
+  height: number
+): BoundingBox {
+  const mapped = applyHomographyToRect(bbox, invertHomography(transform));
+  const left = Math.max(0, mapped.x);
+  const top = Math.max(0, mapped.y);
+  const right = Math.min(width, mapped.x + mapped.width);
+  const bottom = Math.min(height, mapped.y + mapped.height);
+
+  return {
+    x: left,
+    y: top,
+    width: Math.max(0, right - left),
+    height: Math.max(0, bottom - top),
+  };
+}
@@ -0,0 +1,21 @@
+/**
+ * Code points of the digit zero in the Indic scripts Tesseract reads
+ * (Devanagari, Bengali, Gurmukhi, Gujarati, Odia, Tamil, Telugu, Kannada, Malayalam)
+ * Each script's digits 0-9 are consecutive from its zero.
+ */
+const INDIC_DIGIT_ZEROS = [0x0966, 0x09e6, 0x0a66, 0x0ae6, 0x0b66, 0x0be6, 0x0c66, 0x0ce6, 0x0d66];
+
+const INDIC_DIGIT_PATTERN =
+  /[\u0966-\u096F\u09E6-\u09EF\u0A66-\u0A6F\u0AE6-\u0AEF\u0B66-\u0B6F\u0BE6-\u0BEF\u0C66-\u0C6F\u0CE6-\u0CEF\u0D66-\u0D6F]/g;
+
+/**
+ * Replace Indic digits (e.g. Devanagari "२३४५") with ASCII digits
+ * Every digit maps to exactly one character, so string offsets are unchanged.
+ */
+export function normalizeIndicDigits(text: string): string {
+  return text.replace(INDIC_DIGIT_PATTERN, digit => {
+    const codePoint = digit.charCodeAt(0);
+    const zero = INDIC_DIGIT_ZEROS.find(start => codePoint >= start && codePoint <= start + 9)!;
+    return String(codePoint - zero);
+  });
+}
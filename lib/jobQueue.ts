@@ -0,0 +1,145 @@
+import { Job } from '@/types';
+
+/**
+ * Processes one file and resolves with its result
+ * The signal aborts when the job is cleared from the queue.
+ */
+export type JobProcessor<T> = (file: File, signal: AbortSignal) => Promise<T>;
+
+export type JobListener<T> = (jobs: Job<T>[]) => void;
+
+/**
+ * JobQueue runs files through a processor in the order they were added
+ * Jobs are replaced rather than mutated on every change, so listeners (e.g.
+ * React state setters) can compare them by reference.
+ */
+export class JobQueue<T> {
+  private jobs: Job<T>[] = [];
+  private listeners = new Set<JobListener<T>>();
+  private running = 0;
+  private controllers = new Map<string, AbortController>();
+  private nextId = 1;
+
+  /**
+   * @param processor - Runs one job
+   * @param concurrency - Jobs processed at once. The OCR worker reads one
+   * page at a time, so more than one only helps with a worker pool.
+   */
+  constructor(
+    private processor: JobProcessor<T>,
+    private concurrency = 1
+  ) {}
+
+  /**
+   * Queue files for processing
+   */
+  add(files: File[]): Job<T>[] {
+    const added = files.map(file => ({
+      id: `job-${this.nextId++}`,
+      file,
+      status: 'queued' as const,
+      attempts: 0,
+    }));
+
+    this.jobs = [...this.jobs, ...added];
+    this.notify();
+    this.startNext();
+    return added;
+  }
+
+  /**
+   * Queue a failed job again
+   */
+  retry(id: string): void {
+    const job = this.jobs.find(candidate => candidate.id === id);
+    if (!job || job.status !== 'failed') {
+      return;
+    }
+
+    this.update(id, { status: 'queued', error: undefined });
+    this.startNext();
+  }
+
+  /**
+   * Drop every job. Jobs already processing are aborted and their results discarded.
+   */
+  clear(): void {
+    for (const controller of Array.from(this.controllers.values())) {
+      controller.abort();
+    }
+    this.controllers.clear();
+    this.jobs = [];
+    this.notify();
+  }
+
+  getJobs(): Job<T>[] {
+    return this.jobs;
+  }
+
+  /**
+   * Whether no job is queued or processing
+   */
+  isIdle(): boolean {
+    return this.jobs.every(job => job.status === 'done' || job.status === 'failed');
+  }
+
+  /**
+   * Listen for job changes
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: JobListener<T>): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private startNext(): void {
+    while (this.running < this.concurrency) {
+      const job = this.jobs.find(candidate => candidate.status === 'queued');
+      if (!job) {
+        return;
+      }
+
+      this.running++;
+      this.update(job.id, { status: 'processing', attempts: job.attempts + 1 });
+      void this.run(job).finally(() => {
+        this.running--;
+        this.startNext();
+      });
+    }
+  }
+
+  private async run(job: Job<T>): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+
+    try {
+      const result = await this.processor(job.file, controller.signal);
+      this.update(job.id, { status: 'done', result });
+    } catch (error) {
+      this.update(job.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    } finally {
+      this.controllers.delete(job.id);
+    }
+  }
+
+  private update(id: string, changes: Partial<Job<T>>): void {
+    // Cleared jobs are gone; their late results are dropped
+    if (!this.jobs.some(job => job.id === id)) {
+      return;
+    }
+
+    this.jobs = this.jobs.map(job => (job.id === id ? { ...job, ...changes } : job));
+    this.notify();
+  }
+
+  private notify(): void {
+    for (const listener of Array.from(this.listeners)) {
+      listener(this.jobs);
+    }
+  }
+}
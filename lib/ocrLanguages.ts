@@ -0,0 +1,45 @@
+import { OCRLanguage } from '@/types';
+
+/**
+ * Characters Tesseract may output when reading Latin-script documents
+ * Restricting them avoids misreads on IDs, but would drop every other script.
+ */
+export const LATIN_CHAR_WHITELIST =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789 .,/-:()[]';
+
+/**
+ * Languages that can be selected, with their Tesseract language codes
+ */
+export const OCR_LANGUAGES: { code: OCRLanguage; label: string }[] = [
+  { code: 'auto', label: 'Automatic (English + Hindi)' },
+  { code: 'eng', label: 'English only' },
+  { code: 'hin', label: 'Hindi' },
+  { code: 'mar', label: 'Marathi' },
+  { code: 'ben', label: 'Bengali' },
+  { code: 'guj', label: 'Gujarati' },
+  { code: 'pan', label: 'Punjabi' },
+  { code: 'ori', label: 'Odia' },
+  { code: 'tam', label: 'Tamil' },
+  { code: 'tel', label: 'Telugu' },
+  { code: 'kan', label: 'Kannada' },
+  { code: 'mal', label: 'Malayalam' },
+];
+
+/**
+ * Tesseract language string for a selected language
+ * English is always included: every Indian ID prints its fields in English too.
+ */
+export function getTesseractLanguages(language: OCRLanguage): string {
+  if (language === 'auto') {
+    return 'eng+hin';
+  }
+
+  return language === 'eng' ? 'eng' : `eng+${language}`;
+}
+
+/**
+ * Whether every language in a Tesseract language string is written in Latin script
+ */
+export function isLatinOnly(languages: string): boolean {
+  return languages.split('+').every(language => language === 'eng');
+}
@@ -1,12 +1,88 @@
-import { createWorker, Worker } from 'tesseract.js';
+import { createWorker, RecognizeResult, Worker } from 'tesseract.js';
 import * as pdfjsLib from 'pdfjs-dist';
-import { OCRResult, PageData, TextBlock, BoundingBox } from '@/types';
+import type { PDFDocumentProxy, PDFPageProxy, PageViewport } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import {
+  OCRLanguage,
+  OCROptions,
+  OCRResult,
+  PageData,
+  PageImage,
+  PageGeometry,
+  TextBlock,
+  BoundingBox,
+} from '@/types';
+import {
+  ImageOperatorCodes,
+  MIN_TEXT_LAYER_CHARACTERS,
+  countTextLayerCharacters,
+  findImageRegions,
+  overlapsExistingText,
+  textItemsToTextBlocks,
+} from '@/lib/pdfTextLayer';
+import { LATIN_CHAR_WHITELIST, getTesseractLanguages, isLatinOnly } from '@/lib/ocrLanguages';
+import { loadPdfDocument, renderPdfPage } from '@/lib/pdfjs';
+import {
+  PageCanvasContext,
+  canvasToBlob,
+  createCanvas,
+  getContext2d,
+  loadImageBitmap,
+  releaseCanvas,
+} from '@/lib/canvas';
+import { mapConcurrent } from '@/lib/concurrency';
+import { ProgressTracker } from '@/lib/progressTracker';
+import { CancelledError, isCancelledError, raceWithSignal, throwIfCancelled } from '@/lib/cancellation';
+import { TESSDATA_PATH, TESSERACT_CORE_PATH, TESSERACT_WORKER_PATH } from '@/lib/vendorAssets';
+import {
+  PreprocessedImage,
+  isOnCard,
+  mapBoxToOriginal,
+  preprocessImage,
+} from '@/lib/imagePreprocessing';
 
-// Configure PDF.js worker
-if (typeof window !== 'undefined') {
-  pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`;
+/**
+ * Scale used when rendering PDF pages for OCR (higher scale gives better OCR)
+ */
+export const PDF_RENDER_SCALE = 2.0;
+
+/**
+ * Most Tesseract workers in the pool. Each worker holds its own copy of the
+ * language data (tens of MB), so more cores do not always mean more workers.
+ */
+export const MAX_OCR_WORKERS = 4;
+
+/**
+ * Pool size for a machine: one worker per core, leaving one core for the page
+ * @param hardwareConcurrency - Logical cores, from navigator.hardwareConcurrency
+ */
+export function getDefaultPoolSize(hardwareConcurrency?: number): number {
+  if (!hardwareConcurrency) {
+    return 1;
+  }
+  return Math.max(1, Math.min(MAX_OCR_WORKERS, hardwareConcurrency - 1));
+}
+
+export interface OCRServiceOptions {
+  poolSize?: number; // Defaults to getDefaultPoolSize(navigator.hardwareConcurrency)
 }
 
+/**
+ * PDF.js operators that matter when locating images on a page
+ */
+const IMAGE_OPERATOR_CODES: ImageOperatorCodes = {
+  save: pdfjsLib.OPS.save,
+  restore: pdfjsLib.OPS.restore,
+  transform: pdfjsLib.OPS.transform,
+  paintFormXObjectBegin: pdfjsLib.OPS.paintFormXObjectBegin,
+  paintFormXObjectEnd: pdfjsLib.OPS.paintFormXObjectEnd,
+  paintImageOps: [
+    pdfjsLib.OPS.paintImageXObject,
+    pdfjsLib.OPS.paintInlineImageXObject,
+    pdfjsLib.OPS.paintImageMaskXObject,
+  ],
+};
+
 /**
  * OCR Error types for better error handling
  */
@@ -46,28 +122,95 @@ function getUserFriendlyErrorMessage(error: unknown): string {
   return 'Unable to extract text from document. Please ensure the image is clear and try again.';
 }
 
+/**
+ * A worker of the pool, and where its recognition progress is reported while
+ * it reads a page
+ */
+interface PooledWorker {
+  worker: Worker;
+  onProgress: ((progress: number) => void) | null;
+}
+
+/**
+ * A page waiting for a worker of the pool to become free
+ */
+interface WorkerWaiter {
+  resolve: (worker: PooledWorker) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * OCRService reads text from images and PDFs
+ * Recognition runs on a pool of Tesseract workers, so the pages of a PDF are
+ * read in parallel. Each recognition checks a worker out for its duration,
+ * which lets Tesseract's progress be attributed to the page being read.
+ * Workers are started on demand, up to the pool size.
+ */
 export class OCRService {
-  private worker: Worker | null = null;
-  private isInitialized = false;
+  private workers: PooledWorker[] = [];
+  private idleWorkers: PooledWorker[] = [];
+  private waitingForWorker: WorkerWaiter[] = [];
+  private startingWorkers = 0;
+  private languages: string | null = null; // Tesseract languages currently loaded
+  private nextLayoutId = 1; // Line and paragraph ids stay unique across recognitions
+  private initialization: Promise<void> = Promise.resolve(); // Serialises pool changes
+  private readonly poolSize: number;
+
+  constructor(options: OCRServiceOptions = {}) {
+    this.poolSize = Math.max(
+      1,
+      options.poolSize ??
+        getDefaultPoolSize(typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : undefined)
+    );
+  }
+
+  /**
+   * Most workers the pool will start
+   */
+  getPoolSize(): number {
+    return this.poolSize;
+  }
 
   /**
-   * Initialize the Tesseract worker
+   * Initialize Tesseract workers for a language
+   * Language data is loaded from the app's own origin. Calling this again
+   * with another language reloads every worker's language data.
+   *
+   * @param language - Language of the document text
+   * @param workerCount - Workers to start now, capped at the pool size
    */
-  async initialize(): Promise<void> {
-    if (this.isInitialized) {
+  async initialize(language: OCRLanguage = 'auto', workerCount = 1): Promise<void> {
+    const languages = getTesseractLanguages(language);
+    const target = Math.max(1, Math.min(workerCount, this.poolSize));
+
+    const run = this.initialization.then(() => this.loadWorkers(languages, target));
+    this.initialization = run.catch(() => undefined);
+    return run;
+  }
+
+  private async loadWorkers(languages: string, target: number): Promise<void> {
+    if (this.languages === languages && this.workers.length >= target) {
       return;
     }
 
     try {
-      this.worker = await createWorker('eng');
-
-      // Configure Tesseract for better accuracy on documents
-      await this.worker.setParameters({
-        tessedit_char_whitelist: 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789 .,/-:()[]', // Common document characters
-        preserve_interword_spaces: '1', // Better spacing detection
-      });
+      if (this.languages !== languages) {
+        await Promise.all(
+          this.workers.map(async ({ worker }) => {
+            await worker.reinitialize(languages);
+            await this.configureWorker(worker, languages);
+          })
+        );
+        this.languages = languages;
+      }
 
-      this.isInitialized = true;
+      const added = await Promise.all(
+        Array.from({ length: target - this.workers.length }, () => this.startWorker(languages))
+      );
+      for (const pooled of added) {
+        this.workers.push(pooled);
+        this.releaseWorker(pooled);
+      }
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
       throw new OCRError(
@@ -78,25 +221,160 @@ export class OCRService {
   }
 
   /**
-   * Extract text from a file (image or PDF)
+   * Start a Tesseract worker
    */
-  async extractText(file: File): Promise<OCRResult> {
-    try {
-      // Initialize worker if not already done
-      if (!this.isInitialized) {
-        await this.initialize();
+  private async startWorker(languages: string): Promise<PooledWorker> {
+    const pooled: Omit<PooledWorker, 'worker'> = { onProgress: null };
+
+    // The worker, core and language data all come from the app's own origin
+    const worker = await createWorker(languages, undefined, {
+      workerPath: TESSERACT_WORKER_PATH,
+      corePath: TESSERACT_CORE_PATH,
+      langPath: TESSDATA_PATH,
+      workerBlobURL: false,
+      logger: (message) => {
+        if (message.status === 'recognizing text') {
+          pooled.onProgress?.(message.progress);
+        }
+      },
+    });
+    await this.configureWorker(worker, languages);
+
+    return Object.assign(pooled, { worker });
+  }
+
+  /**
+   * Configure Tesseract for better accuracy on documents
+   */
+  private async configureWorker(worker: Worker, languages: string): Promise<void> {
+    await worker.setParameters({
+      // Common document characters; a whitelist would drop every non-Latin script
+      tessedit_char_whitelist: isLatinOnly(languages) ? LATIN_CHAR_WHITELIST : '',
+      preserve_interword_spaces: '1', // Better spacing detection
+    });
+  }
+
+  /**
+   * Check a worker out of the pool, starting one if the pool is not full
+   * Must be balanced by releaseWorker. Waiting for a free worker stops with a
+   * CancelledError when the signal is aborted.
+   */
+  private async acquireWorker(signal?: AbortSignal): Promise<PooledWorker> {
+    const idle = this.idleWorkers.pop();
+    if (idle) {
+      return idle;
+    }
+
+    if (this.languages && this.workers.length + this.startingWorkers < this.poolSize) {
+      this.startingWorkers++;
+      try {
+        const pooled = await this.startWorker(this.languages);
+        this.workers.push(pooled);
+        return pooled;
+      } catch (error) {
+        // The workers already running can still do the work
+        console.error('Failed to start an additional OCR worker:', error);
+      } finally {
+        this.startingWorkers--;
+      }
+    }
+
+    let waiter: WorkerWaiter;
+    const waiting = new Promise<PooledWorker>((resolve, reject) => {
+      waiter = { resolve, reject };
+      this.waitingForWorker.push(waiter);
+    });
+
+    return raceWithSignal(waiting, signal, () => {
+      const index = this.waitingForWorker.indexOf(waiter);
+      if (index >= 0) {
+        this.waitingForWorker.splice(index, 1);
+      } else {
+        // Already handed a worker, so give it back
+        waiting.then(pooled => this.releaseWorker(pooled), () => {});
       }
+    });
+  }
+
+  /**
+   * Fail every page waiting for a worker, when none will become free
+   */
+  private rejectWaiting(error: Error): void {
+    const waiting = this.waitingForWorker;
+    this.waitingForWorker = [];
+    waiting.forEach(({ reject }) => reject(error));
+  }
 
+  /**
+   * Remove a worker from the pool and stop it, abandoning its current job
+   * A replacement is started when other pages are waiting for a worker.
+   */
+  private discardWorker(pooled: PooledWorker): void {
+    pooled.onProgress = null;
+    this.workers = this.workers.filter(candidate => candidate !== pooled);
+    pooled.worker.terminate().catch(error => {
+      console.error('Failed to terminate OCR worker:', error);
+    });
+
+    const languages = this.languages;
+    if (languages && this.waitingForWorker.length > 0) {
+      this.startingWorkers++;
+      this.startWorker(languages)
+        .then(replacement => {
+          this.workers.push(replacement);
+          this.releaseWorker(replacement);
+        })
+        .catch(error => {
+          console.error('Failed to replace OCR worker:', error);
+          if (this.workers.length === 0) {
+            this.rejectWaiting(
+              new OCRError('Failed to replace OCR worker', 'Text extraction failed. Please try again.')
+            );
+          }
+        })
+        .finally(() => {
+          this.startingWorkers--;
+        });
+    }
+  }
+
+  /**
+   * Return a worker to the pool, or hand it to the next page waiting for one
+   */
+  private releaseWorker(pooled: PooledWorker): void {
+    pooled.onProgress = null;
+
+    const next = this.waitingForWorker.shift();
+    if (next) {
+      next.resolve(pooled);
+    } else {
+      this.idleWorkers.push(pooled);
+    }
+  }
+
+  /**
+   * Extract text from a file (image or PDF)
+   * Failures are reported in the result; cancellation through options.signal
+   * rejects with a CancelledError instead.
+   */
+  async extractText(file: File, options: OCROptions = {}): Promise<OCRResult> {
+    try {
+      throwIfCancelled(options.signal);
       const fileType = file.type;
 
       // Handle PDF files
       if (fileType === 'application/pdf') {
-        return await this.extractTextFromPDF(file);
+        return await this.extractTextFromPDF(file, options);
       }
 
       // Handle image files
       if (fileType.startsWith('image/')) {
-        return await this.extractTextFromImage(file);
+        await this.initialize(options.language);
+        return await this.extractTextFromImage(
+          file,
+          new ProgressTracker(1, options.onProgress),
+          options.signal
+        );
       }
 
       return {
@@ -105,6 +383,10 @@ export class OCRService {
         error: 'Unsupported file type. Please upload PNG, JPG, JPEG, or PDF files.',
       };
     } catch (error) {
+      if (isCancelledError(error)) {
+        throw error;
+      }
+
       const userMessage = getUserFriendlyErrorMessage(error);
       return {
         pages: [],
@@ -116,53 +398,60 @@ export class OCRService {
 
   /**
    * Extract text from an image file
+   * The image is prepared for OCR first (text deskewed, scaled and
+   * binarised); a card found in a photo is also flattened and read on its
+   * own, and the whole photo supplies only the words around the card. Word
+   * boxes are mapped back to the original image's pixels.
    */
-  private async extractTextFromImage(file: File): Promise<OCRResult> {
-    if (!this.worker) {
-      throw new OCRError(
-        'OCR worker not initialized',
-        'Text extraction service not ready. Please try again.'
-      );
-    }
-
+  private async extractTextFromImage(
+    file: File,
+    tracker: ProgressTracker,
+    signal?: AbortSignal
+  ): Promise<OCRResult> {
     let imageUrl: string | null = null;
 
     try {
-      imageUrl = URL.createObjectURL(file);
-
-      // Get image dimensions
-      const img = await this.loadImage(imageUrl);
-      const width = img.width;
-      const height = img.height;
-
-      // Perform OCR
-      const result = await this.worker.recognize(imageUrl);
+      // Get the upright image dimensions
+      const bitmap = await this.loadImage(file);
+      const { width, height } = bitmap;
+
+      let views: PreprocessedImage[];
+      try {
+        views = preprocessImage(this.readPixels(bitmap));
+      } finally {
+        bitmap.close();
+      }
+      const card = views.find(view => view.card)?.card;
 
-      // Extract text blocks with bounding boxes
+      // Perform OCR on each view
       const textBlocks: TextBlock[] = [];
+      for (let index = 0; index < views.length; index++) {
+        throwIfCancelled(signal);
+        const { image, transform } = views[index];
+        imageUrl = URL.createObjectURL(await this.pixelsToBlob(image));
+
+        const words = await this.recognizeWords(imageUrl, {
+          onProgress: progress => tracker.update(1, (index + progress) / views.length),
+          signal,
+        });
+        URL.revokeObjectURL(imageUrl);
+        imageUrl = null;
 
-      if (result.data.words) {
-        for (const word of result.data.words) {
-          if (word.text.trim()) {
-            textBlocks.push({
-              text: word.text,
-              confidence: word.confidence / 100, // Normalize to 0-1
-              bbox: {
-                x: word.bbox.x0,
-                y: word.bbox.y0,
-                width: word.bbox.x1 - word.bbox.x0,
-                height: word.bbox.y1 - word.bbox.y0,
-              },
-            });
-          }
+        for (const block of words) {
+          const bbox = mapBoxToOriginal(block.bbox, transform, width, height);
+          // The card's own view reads it best
+          if (card && !views[index].card && isOnCard(bbox, card)) continue;
+          textBlocks.push({ ...block, bbox });
         }
       }
+      tracker.complete(1);
 
       const pageData: PageData = {
         pageNumber: 1,
         width,
         height,
         textBlocks,
+        textSource: 'ocr',
       };
 
       return {
@@ -170,6 +459,10 @@ export class OCRService {
         success: true,
       };
     } catch (error) {
+      if (isCancelledError(error)) {
+        throw error;
+      }
+
       const message = error instanceof Error ? error.message : 'Unknown error';
       throw new OCRError(
         `Image OCR failed: ${message}`,
@@ -184,107 +477,32 @@ export class OCRService {
   }
 
   /**
-   * Extract text from a PDF file by converting pages to images
+   * Extract text from a PDF file
+   * Pages with an embedded text layer are read directly from it, and only
+   * images painted on those pages are OCR'd. Pages without a text layer
+   * (scans) are rendered to images and OCR'd in full.
+   * Pages are processed in parallel, as many at once as the pool has workers.
    */
-  private async extractTextFromPDF(file: File): Promise<OCRResult> {
-    if (!this.worker) {
-      throw new OCRError(
-        'OCR worker not initialized',
-        'Text extraction service not ready. Please try again.'
-      );
-    }
+  private async extractTextFromPDF(file: File, options: OCROptions): Promise<OCRResult> {
+    let pdf: PDFDocumentProxy | null = null;
 
     try {
       const arrayBuffer = await file.arrayBuffer();
-      const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+      pdf = await loadPdfDocument(arrayBuffer);
       const numPages = pdf.numPages;
-      const pages: PageData[] = [];
+      const pageNumbers = Array.from({ length: numPages }, (_, index) => index + 1);
 
-      // Process each page
-      for (let pageNum = 1; pageNum <= numPages; pageNum++) {
-        let imageUrl: string | null = null;
-
-        try {
-          const page = await pdf.getPage(pageNum);
-          const viewport = page.getViewport({ scale: 2.0 }); // Higher scale for better OCR
-
-          // Create canvas to render PDF page
-          const canvas = document.createElement('canvas');
-          const context = canvas.getContext('2d');
-
-          if (!context) {
-            throw new OCRError(
-              'Failed to get canvas context',
-              `Error processing page ${pageNum} of ${numPages}. Some pages may not be redacted.`
-            );
-          }
-
-          canvas.width = viewport.width;
-          canvas.height = viewport.height;
-
-          // Render PDF page to canvas
-          await page.render({
-            canvasContext: context,
-            viewport: viewport,
-          }).promise;
-
-          // Convert canvas to blob for OCR
-          const blob = await new Promise<Blob>((resolve, reject) => {
-            canvas.toBlob((b) => {
-              if (b) resolve(b);
-              else reject(new OCRError(
-                'Failed to convert canvas to blob',
-                `Error processing page ${pageNum} of ${numPages}. Some pages may not be redacted.`
-              ));
-            }, 'image/png');
-          });
+      await this.initialize(options.language);
 
-          imageUrl = URL.createObjectURL(blob);
-
-          // Perform OCR on the page image
-          const result = await this.worker.recognize(imageUrl);
-
-          // Extract text blocks with bounding boxes
-          const textBlocks: TextBlock[] = [];
-
-          if (result.data.words) {
-            for (const word of result.data.words) {
-              if (word.text.trim()) {
-                textBlocks.push({
-                  text: word.text,
-                  confidence: word.confidence / 100, // Normalize to 0-1
-                  bbox: {
-                    x: word.bbox.x0,
-                    y: word.bbox.y0,
-                    width: word.bbox.x1 - word.bbox.x0,
-                    height: word.bbox.y1 - word.bbox.y0,
-                  },
-                });
-              }
-            }
-          }
-
-          pages.push({
-            pageNumber: pageNum,
-            width: viewport.width,
-            height: viewport.height,
-            textBlocks,
-          });
-        } catch (error) {
-          // Log page-specific error but continue processing other pages
-          console.error(`Error processing page ${pageNum}:`, error);
-
-          // If it's the first page or a critical error, rethrow
-          if (pageNum === 1 || error instanceof OCRError) {
-            throw error;
-          }
-        } finally {
-          // Clean up object URL for this page
-          if (imageUrl) {
-            URL.revokeObjectURL(imageUrl);
-          }
-        }
-      }
+      const pdfDocument = pdf;
+      const tracker = new ProgressTracker(numPages, options.onProgress);
+      const results = await mapConcurrent(pageNumbers, this.poolSize, async (pageNum) => {
+        throwIfCancelled(options.signal);
+        const pageData = await this.extractPageFromPDF(pdfDocument, pageNum, tracker, options.signal);
+        tracker.complete(pageNum);
+        return pageData;
+      });
+      const pages = results.filter((page): page is PageData => page !== null);
 
       // Check if we got at least some pages
       if (pages.length === 0) {
@@ -299,7 +517,7 @@ export class OCRService {
         success: true,
       };
     } catch (error) {
-      if (error instanceof OCRError) {
+      if (error instanceof OCRError || isCancelledError(error)) {
         throw error;
       }
 
@@ -308,34 +526,323 @@ export class OCRService {
         `PDF OCR failed: ${message}`,
         'Error processing PDF. Please ensure the file is not corrupted and try again.'
       );
+    } finally {
+      // Release pdf.js's worker-side copy of the document
+      await pdf?.destroy();
     }
   }
 
   /**
-   * Load an image and return it as an HTMLImageElement
+   * Extract the text of one PDF page
+   * Returns null when a page after the first fails, so the rest of the
+   * document can still be processed.
    */
-  private loadImage(url: string): Promise<HTMLImageElement> {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.onload = () => resolve(img);
-      img.onerror = () => reject(new OCRError(
+  private async extractPageFromPDF(
+    pdf: PDFDocumentProxy,
+    pageNum: number,
+    tracker: ProgressTracker,
+    signal?: AbortSignal
+  ): Promise<PageData | null> {
+    const numPages = pdf.numPages;
+    let imageUrl: string | null = null;
+
+    try {
+      const page = await pdf.getPage(pageNum);
+      const geometry: PageGeometry = {
+        scale: PDF_RENDER_SCALE,
+        rotation: page.rotate,
+        viewBox: page.view as PageGeometry['viewBox'],
+      };
+      const viewport = page.getViewport({ scale: geometry.scale });
+
+      let textBlocks: TextBlock[];
+      let textSource: PageData['textSource'];
+
+      // Prefer the embedded text layer: exact text and glyph positions
+      const textContent = await page.getTextContent();
+      const textItems = textContent.items.filter(
+        (item): item is TextItem => 'str' in item
+      );
+
+      if (countTextLayerCharacters(textItems) >= MIN_TEXT_LAYER_CHARACTERS) {
+        textBlocks = textItemsToTextBlocks(textItems, geometry);
+        textSource = 'text-layer';
+
+        // Images on the page (e.g. a pasted scan or signature) have no text layer
+        const imageRegions = findImageRegions(
+          await page.getOperatorList(),
+          IMAGE_OPERATOR_CODES,
+          geometry
+        );
+
+        if (imageRegions.length > 0) {
+          imageUrl = await this.renderPageToObjectUrl(page, viewport, pageNum, numPages, signal);
+          const textLayerBlocks = [...textBlocks];
+
+          for (let index = 0; index < imageRegions.length; index++) {
+            const region = imageRegions[index];
+            const ocrBlocks = await this.recognizeWords(imageUrl, {
+              region,
+              bounds: viewport,
+              onProgress: progress => tracker.update(pageNum, (index + progress) / imageRegions.length),
+              signal,
+            });
+            textBlocks.push(
+              ...ocrBlocks.filter(block => !overlapsExistingText(block.bbox, textLayerBlocks))
+            );
+          }
+
+          if (textBlocks.length > textLayerBlocks.length) {
+            textSource = 'mixed';
+          }
+        }
+      } else {
+        // No usable text layer: OCR the whole rendered page
+        imageUrl = await this.renderPageToObjectUrl(page, viewport, pageNum, numPages, signal);
+        textBlocks = await this.recognizeWords(imageUrl, {
+          onProgress: progress => tracker.update(pageNum, progress),
+          signal,
+        });
+        textSource = 'ocr';
+      }
+
+      return {
+        pageNumber: pageNum,
+        width: viewport.width,
+        height: viewport.height,
+        textBlocks,
+        geometry,
+        textSource,
+      };
+    } catch (error) {
+      // Log page-specific error but continue processing other pages
+      console.error(`Error processing page ${pageNum}:`, error);
+
+      // If it's the first page, a critical error or a cancellation, rethrow
+      if (pageNum === 1 || error instanceof OCRError || isCancelledError(error)) {
+        throw error;
+      }
+      return null;
+    } finally {
+      // Clean up object URL for this page
+      if (imageUrl) {
+        URL.revokeObjectURL(imageUrl);
+      }
+    }
+  }
+
+  /**
+   * Render a PDF page to a PNG and return an object URL for it
+   * The caller is responsible for revoking the URL.
+   */
+  private async renderPageToObjectUrl(
+    page: PDFPageProxy,
+    viewport: PageViewport,
+    pageNum: number,
+    numPages: number,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const pageErrorMessage = `Error processing page ${pageNum} of ${numPages}. Some pages may not be redacted.`;
+
+    // Create an offscreen canvas to render the PDF page
+    const canvas = createCanvas(viewport.width, viewport.height);
+
+    try {
+      let context: PageCanvasContext;
+      try {
+        context = getContext2d(canvas);
+      } catch {
+        throw new OCRError('Failed to get canvas context', pageErrorMessage);
+      }
+
+      // Render PDF page to canvas
+      const renderTask = renderPdfPage(page, context, viewport);
+      await raceWithSignal(renderTask.promise, signal, () => renderTask.cancel());
+
+      // Convert canvas to blob for OCR
+      const blob = await canvasToBlob(canvas).catch(() => {
+        throw new OCRError('Failed to convert canvas to blob', pageErrorMessage);
+      });
+
+      return URL.createObjectURL(blob);
+    } finally {
+      // Release the canvas backing store
+      releaseCanvas(canvas);
+    }
+  }
+
+  /**
+   * Run OCR on an image and return word-level text blocks
+   * An optional region restricts recognition to part of the image; word
+   * boxes are still relative to the full image. onProgress receives
+   * Tesseract's recognition progress (0-1). Tesseract jobs cannot be
+   * stopped, so on abort the worker running the job is discarded.
+   */
+  private async recognizeWords(
+    imageUrl: string,
+    {
+      region,
+      bounds,
+      onProgress,
+      signal,
+    }: {
+      region?: BoundingBox;
+      bounds?: { width: number; height: number };
+      onProgress?: (progress: number) => void;
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<TextBlock[]> {
+    if (!this.languages) {
+      throw new OCRError(
+        'OCR worker not initialized',
+        'Text extraction service not ready. Please try again.'
+      );
+    }
+
+    const rectangle = region && bounds ? this.clampRegion(region, bounds) : undefined;
+    if (region && !rectangle) {
+      return []; // Region lies entirely outside the page
+    }
+
+    const pooled = await this.acquireWorker(signal);
+    if (signal?.aborted) {
+      this.releaseWorker(pooled);
+      throw new CancelledError();
+    }
+
+    let result: RecognizeResult;
+    let discarded = false;
+    try {
+      pooled.onProgress = onProgress ?? null;
+      result = await raceWithSignal(
+        pooled.worker.recognize(imageUrl, rectangle ? { rectangle } : {}),
+        signal,
+        () => {
+          discarded = true;
+          this.discardWorker(pooled);
+        }
+      );
+    } finally {
+      if (!discarded) {
+        this.releaseWorker(pooled);
+      }
+    }
+
+    // Extract text blocks with bounding boxes
+    const textBlocks: TextBlock[] = [];
+    const layoutIds = new Map<object, number>();
+    const getLayoutId = (element: object) => {
+      if (!layoutIds.has(element)) {
+        layoutIds.set(element, this.nextLayoutId++);
+      }
+      return layoutIds.get(element);
+    };
+
+    if (result.data.words) {
+      for (const word of result.data.words) {
+        if (word.text.trim()) {
+          textBlocks.push({
+            text: word.text,
+            confidence: word.confidence / 100, // Normalize to 0-1
+            bbox: {
+              x: word.bbox.x0,
+              y: word.bbox.y0,
+              width: word.bbox.x1 - word.bbox.x0,
+              height: word.bbox.y1 - word.bbox.y0,
+            },
+            // Keep the layout Tesseract found, for detectors that work on lines
+            lineId: word.line ? getLayoutId(word.line) : undefined,
+            paragraphId: word.paragraph ? getLayoutId(word.paragraph) : undefined,
+          });
+        }
+      }
+    }
+
+    return textBlocks;
+  }
+
+  /**
+   * Clip a region to the image bounds and convert it to a Tesseract rectangle
+   */
+  private clampRegion(
+    region: BoundingBox,
+    bounds: { width: number; height: number }
+  ): { left: number; top: number; width: number; height: number } | null {
+    const left = Math.max(0, Math.floor(region.x));
+    const top = Math.max(0, Math.floor(region.y));
+    const right = Math.min(bounds.width, Math.ceil(region.x + region.width));
+    const bottom = Math.min(bounds.height, Math.ceil(region.y + region.height));
+
+    if (right <= left || bottom <= top) {
+      return null;
+    }
+
+    return { left, top, width: right - left, height: bottom - top };
+  }
+
+  /**
+   * Decode an image file; the caller closes the returned bitmap
+   */
+  private async loadImage(file: File): Promise<ImageBitmap> {
+    try {
+      return await loadImageBitmap(file);
+    } catch {
+      throw new OCRError(
         'Failed to load image',
         'Unable to load image. Please ensure the file is a valid image and try again.'
-      ));
-      img.src = url;
-    });
+      );
+    }
   }
 
   /**
-   * Terminate the worker and clean up resources
+   * Read the pixels of a decoded image
    */
-  async terminate(): Promise<void> {
-    if (this.worker) {
-      await this.worker.terminate();
-      this.worker = null;
-      this.isInitialized = false;
+  private readPixels(bitmap: ImageBitmap): PageImage {
+    const canvas = createCanvas(bitmap.width, bitmap.height);
+
+    try {
+      const ctx = getContext2d(canvas, true);
+      ctx.drawImage(bitmap, 0, 0);
+      return ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+    } finally {
+      releaseCanvas(canvas);
+    }
+  }
+
+  /**
+   * Encode pixels as PNG for OCR
+   */
+  private async pixelsToBlob(image: PageImage): Promise<Blob> {
+    const canvas = createCanvas(image.width, image.height);
+
+    try {
+      const ctx = getContext2d(canvas);
+      const imageData = ctx.createImageData(image.width, image.height);
+      imageData.data.set(image.data);
+      ctx.putImageData(imageData, 0, 0);
+      return await canvasToBlob(canvas);
+    } finally {
+      releaseCanvas(canvas);
     }
   }
+
+  /**
+   * Terminate every worker in the pool and clean up resources
+   * Waits for pool changes in progress; the pool restarts on the next
+   * extraction. Pages still waiting for a worker fail.
+   */
+  async terminate(): Promise<void> {
+    await this.initialization;
+
+    const workers = this.workers;
+    this.workers = [];
+    this.idleWorkers = [];
+    this.languages = null;
+    this.rejectWaiting(
+      new OCRError('OCR workers terminated', 'Text extraction was stopped. Please try again.')
+    );
+    await Promise.all(workers.map(({ worker }) => worker.terminate()));
+  }
 }
 
 // Export a singleton instance
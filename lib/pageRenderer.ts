@@ -0,0 +1,137 @@
+import { PageData, PageGeometry } from '@/types';
+import { PDF_RENDER_SCALE } from '@/lib/ocrService';
+import { loadPdfDocument, renderPdfPage } from '@/lib/pdfjs';
+import { raceWithSignal, throwIfCancelled } from '@/lib/cancellation';
+import { PageCanvasContext, createCanvas, getContext2d, loadImageBitmap, releaseCanvas } from '@/lib/canvas';
+
+/**
+ * A page rendered to pixels for image analysis
+ */
+export interface RenderedPage {
+  pageNumber: number;
+  imageData: ImageData;
+  /** Rendered pixels per page pixel (below 1 when the page was downscaled) */
+  scale: number;
+}
+
+/**
+ * Render the pages of a document as they were seen by OCR, so that boxes
+ * found in the rendered pixels map to page pixel space by dividing by the
+ * returned scale. Pages larger than maxDimension are downscaled.
+ * Aborting the signal stops rendering with a CancelledError.
+ */
+export async function renderPages(
+  file: File,
+  pages: PageData[],
+  maxDimension = Infinity,
+  signal?: AbortSignal
+): Promise<RenderedPage[]> {
+  throwIfCancelled(signal);
+  if (file.type === 'application/pdf') {
+    return renderPDFPages(file, pages, maxDimension, signal);
+  }
+
+  const page = pages.find(p => p.pageNumber === 1);
+  return page ? [await renderImagePage(file, page, maxDimension)] : [];
+}
+
+/**
+ * Scale that fits a page within maxDimension without upscaling it
+ */
+function getFitScale(page: PageData, maxDimension: number): number {
+  return Math.min(1, maxDimension / Math.max(page.width, page.height));
+}
+
+/**
+ * Render an image file (a single page) to pixels
+ */
+async function renderImagePage(
+  file: File,
+  page: PageData,
+  maxDimension: number
+): Promise<RenderedPage> {
+  const img = await loadImageBitmap(file);
+
+  try {
+    const scale = getFitScale(page, maxDimension);
+    const width = Math.round(page.width * scale);
+    const height = Math.round(page.height * scale);
+    const imageData = drawToImageData(width, height, ctx => ctx.drawImage(img, 0, 0, width, height));
+
+    return { pageNumber: page.pageNumber, imageData, scale };
+  } finally {
+    img.close();
+  }
+}
+
+/**
+ * Render PDF pages to pixels at their OCR geometry
+ */
+async function renderPDFPages(
+  file: File,
+  pages: PageData[],
+  maxDimension: number,
+  signal?: AbortSignal
+): Promise<RenderedPage[]> {
+  const arrayBuffer = await file.arrayBuffer();
+  const pdf = await loadPdfDocument(arrayBuffer);
+  const rendered: RenderedPage[] = [];
+
+  try {
+    for (const page of pages) {
+      throwIfCancelled(signal);
+      const pdfPage = await pdf.getPage(page.pageNumber);
+      const geometry: PageGeometry = page.geometry ?? {
+        scale: PDF_RENDER_SCALE,
+        rotation: pdfPage.rotate,
+        viewBox: pdfPage.view as PageGeometry['viewBox'],
+      };
+
+      const scale = getFitScale(page, maxDimension);
+      const viewport = pdfPage.getViewport({
+        scale: geometry.scale * scale,
+        rotation: geometry.rotation,
+      });
+
+      const canvas = createCanvas(Math.round(viewport.width), Math.round(viewport.height));
+
+      try {
+        const ctx = getContext2d(canvas, true);
+        const renderTask = renderPdfPage(pdfPage, ctx, viewport);
+        await raceWithSignal(renderTask.promise, signal, () => renderTask.cancel());
+        rendered.push({
+          pageNumber: page.pageNumber,
+          imageData: ctx.getImageData(0, 0, canvas.width, canvas.height),
+          scale,
+        });
+      } finally {
+        // Release the canvas backing store
+        releaseCanvas(canvas);
+        pdfPage.cleanup();
+      }
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return rendered;
+}
+
+/**
+ * Draw onto a temporary canvas and read its pixels back
+ */
+function drawToImageData(
+  width: number,
+  height: number,
+  draw: (ctx: PageCanvasContext) => void
+): ImageData {
+  const canvas = createCanvas(width, height);
+
+  try {
+    const ctx = getContext2d(canvas, true);
+    draw(ctx);
+    return ctx.getImageData(0, 0, width, height);
+  } finally {
+    releaseCanvas(canvas);
+  }
+}
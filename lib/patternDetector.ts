@@ -1,32 +1,454 @@
-import { OCRResult, DetectionResult, Detection, BoundingBox, TextBlock } from '@/types';
+import {
+  ChecksumStrictness,
+  OCRResult,
+  DetectionResult,
+  Detection,
+  BoundingBox,
+  TextBlock,
+  DetectorContext,
+  DetectorDefinition,
+  DetectionType,
+  DetectionOptions,
+} from '@/types';
+import { DetectorRegistry, getDetectorRegistry } from '@/lib/detectorRegistry';
+import { CUSTOM_DETECTORS } from '@/lib/customDetectors';
+import { throwIfCancelled } from '@/lib/cancellation';
+import { isValidAadhaarNumber, isValidGSTINChecksum, isValidVirtualId } from '@/lib/checksums';
+import { normalizeIndicDigits } from '@/lib/indicText';
+import {
+  TextLine,
+  findNextLine,
+  findPreviousLine,
+  groupIntoLines,
+  unionBoxes,
+} from '@/lib/textLayout';
+
+export interface PatternDetectorOptions {
+  registry?: DetectorRegistry;
+  /**
+   * Default for detectPII runs that do not set their own. Applies to the
+   * Aadhaar detector this instance registers, so it needs a registry
+   * without one: the constructor throws otherwise
+   */
+  aadhaarStrictness?: ChecksumStrictness;
+}
+
+/**
+ * Aadhaar confidence levels by validation outcome
+ */
+const AADHAAR_CONFIDENCE = {
+  valid: 0.98, // Passes the Verhoeff check (and the leading digit rule)
+  invalid: 0.5, // Fails validation, kept in lenient mode
+  unvalidated: 0.9, // Validation turned off
+};
+
+/**
+ * Letters OCR commonly reads in place of digits
+ */
+const DIGIT_CONFUSIONS: Record<string, string> = {
+  O: '0',
+  I: '1',
+  Z: '2',
+  S: '5',
+  B: '8',
+  G: '6',
+  T: '7',
+};
+
+/**
+ * A digit, or a letter OCR commonly reads in place of one
+ */
+const DIGIT = '[0-9OIZSBGT]';
+
+/**
+ * A fixed-format identifier detected by pattern, OCR normalization and validation
+ */
+interface IdentifierFormat {
+  type: DetectionType;
+  /** Loose pattern tolerating OCR confusions in digit positions */
+  pattern: RegExp;
+  /** Positions (ignoring separators) that must hold digits */
+  digitPositions: number[];
+  /** Structural validation of the normalized value */
+  isValid: (value: string) => boolean;
+  /** Optional check character validation, raising or lowering confidence */
+  hasValidChecksum?: (value: string) => boolean;
+  /** Optional fix-ups applied after digit normalization */
+  normalize?: (value: string) => string;
+  /** Optional keywords expected shortly before the value; matches without one get low confidence */
+  keywords?: RegExp;
+}
+
+/**
+ * State and union territory codes used in vehicle and licence registrations
+ */
+const LICENCE_STATE_CODES = new Set([
+  'AN', 'AP', 'AR', 'AS', 'BR', 'CG', 'CH', 'CT', 'DD', 'DL', 'DN', 'GA',
+  'GJ', 'HP', 'HR', 'JH', 'JK', 'KA', 'KL', 'LA', 'LD', 'MH', 'ML', 'MN',
+  'MP', 'MZ', 'NL', 'OD', 'OR', 'PB', 'PY', 'RJ', 'SK', 'TG', 'TN', 'TR',
+  'TS', 'UA', 'UK', 'UP', 'WB',
+]);
+
+/**
+ * Passport: file series letter then 7 digits, e.g. J8369854
+ * Invoice and reference numbers share the shape, so a passport keyword is
+ * expected nearby.
+ */
+const PASSPORT_FORMAT: IdentifierFormat = {
+  type: 'PASSPORT',
+  pattern: new RegExp(`\\b[A-Z]${DIGIT}{7}\\b`, 'gi'),
+  digitPositions: [1, 2, 3, 4, 5, 6, 7],
+  isValid: (value) => /^[A-PR-WY][1-9]\d{5}[1-9]$/.test(value),
+  keywords: /passport|पासपोर्ट/i,
+};
+
+/**
+ * EPIC voter ID: 3 letters then 7 digits, e.g. ABC1234567
+ */
+const VOTER_ID_FORMAT: IdentifierFormat = {
+  type: 'VOTER_ID',
+  pattern: new RegExp(`\\b[A-Z]{3}${DIGIT}{7}\\b`, 'gi'),
+  digitPositions: [3, 4, 5, 6, 7, 8, 9],
+  isValid: (value) => /^[A-Z]{3}\d{7}$/.test(value),
+};
+
+/**
+ * Driving licence: state code, RTO code, year of issue, 7-digit number,
+ * e.g. MH14 20110062821 or DL-0420110149646
+ */
+const DRIVING_LICENCE_FORMAT: IdentifierFormat = {
+  type: 'DRIVING_LICENCE',
+  pattern: new RegExp(
+    `\\b[A-Z]{2}[\\s-]?${DIGIT}{2}[\\s-]?${DIGIT}{4}[\\s-]?${DIGIT}{7}\\b`,
+    'gi'
+  ),
+  digitPositions: [2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14],
+  isValid: (value) =>
+    /^[A-Z]{2}\d{2}(19|20)\d{9}$/.test(value) && LICENCE_STATE_CODES.has(value.slice(0, 2)),
+};
+
+/**
+ * GSTIN: state code, the holder's PAN, entity number, 'Z', check character,
+ * e.g. 27AAPFU0939F1ZV
+ */
+const GSTIN_FORMAT: IdentifierFormat = {
+  type: 'GSTIN',
+  pattern: new RegExp(`\\b${DIGIT}{2}[A-Z]{5}${DIGIT}{4}[A-Z][0-9A-Z][Z2][0-9A-Z]\\b`, 'gi'),
+  digitPositions: [0, 1, 7, 8, 9, 10],
+  // Position 13 is always 'Z', which OCR often reads as 2
+  normalize: (value) => value.slice(0, 13) + 'Z' + value.slice(14),
+  isValid: (value) => {
+    const stateCode = Number(value.slice(0, 2));
+    return /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/.test(value) &&
+      ((stateCode >= 1 && stateCode <= 38) || stateCode === 97 || stateCode === 99);
+  },
+  hasValidChecksum: isValidGSTINChecksum,
+};
+
+/**
+ * IFSC: 4-letter bank code, a zero, 6-character branch code, e.g. SBIN0001234
+ */
+const IFSC_FORMAT: IdentifierFormat = {
+  type: 'IFSC',
+  pattern: /\b[A-Z]{4}[0O][A-Z0-9]{6}\b/gi,
+  digitPositions: [4],
+  isValid: (value) => /^[A-Z]{4}0[A-Z0-9]{6}$/.test(value),
+};
+
+/**
+ * Keywords that mark a nearby number as a bank account number
+ */
+const BANKING_KEYWORDS = /\b(?:a\/c|account|acct|acc|bank|savings|current|ifsc)\b/i;
+
+/**
+ * How far before a number (in characters) a banking or identifier keyword
+ * may appear
+ */
+const KEYWORD_WINDOW = 40;
+
+/**
+ * Confidence of identifiers found without their keyword: below the review
+ * default, so they start unticked and batch processing leaves them
+ */
+const UNANCHORED_IDENTIFIER_CONFIDENCE = 0.5;
+
+/**
+ * Address confidence by how the address was found
+ */
+const ADDRESS_CONFIDENCE = {
+  labelWithPin: 0.9,
+  label: 0.8,
+  pin: 0.75,
+};
+
+/**
+ * Most lines an address may span
+ */
+const MAX_ADDRESS_LINES = 6;
+
+/**
+ * Six-digit Indian postal code
+ */
+const PIN_CODE_PATTERN = /\b\d{6}\b/;
+
+/**
+ * Label introducing an address ("Address:", "Addr.", "पता:")
+ */
+const ADDRESS_LABEL_PATTERN = /(?:^|\s)(?:address|addr\.?|पता(?=[\s:/-]|$))\s*[:-]?/i;
+
+/**
+ * Relation prefix that starts an address on Aadhaar cards: son/care/daughter/wife
+ * of, and the Hindi आत्मज, आत्मजा, पत्नी and द्वारा
+ */
+const RELATION_LABEL_PATTERN = /(?:^|\s)([SCDW]\s?\/\s?O\b|(?:आत्मजा?|पत्नी|द्वारा)(?=[\s:/-]|$))/i;
+
+/**
+ * Labels of other card fields, which end an address
+ * Devanagari has no word boundaries for \b, so Hindi labels end at
+ * whitespace, a colon or a slash instead.
+ */
+const FIELD_LABEL_PATTERN = new RegExp(
+  '^\\s*(?:(?:name|dob|d\\.o\\.b|date of birth|year of birth|yob|gender|sex|male|female|mobile|' +
+    'phone|email|e-mail|aadhaar|vid|issue date|download date)\\b|' +
+    '(?:नाम|जन्म\\s*तिथि|जन्म\\s*वर्ष|लिंग|पुरुष|महिला|मोबाइल|आधार)(?=[\\s:/]|$))',
+  'i'
+);
+
+/**
+ * Words and place-name suffixes (English and Hindi) that mark a block of
+ * text as an address
+ */
+const ADDRESS_KEYWORD_PATTERN = new RegExp(
+  '\\b(?:street|st|road|rd|avenue|lane|colony|sector|city|town|village|vill|district|dist|' +
+    'state|pin|pincode|postal|zip|house|flat|apartment|building|block|floor|nagar|marg|gali|' +
+    'chowk|near|opp|post|po|tehsil|taluk|mandal)\\b|\\w(?:nagar|pura|pur|ganj|abad|bad)\\b|' +
+    'नगर|मार्ग|गली|जिला|ग्राम|गांव|पोस्ट|तहसील|राज्य|मकान|कॉलोनी|रोड|मोहल्ला',
+  'i'
+);
+
+/**
+ * Name and date-of-birth confidence by how they were found
+ */
+const NAME_CONFIDENCE = {
+  label: 0.85,
+  layout: 0.7,
+};
+
+const DOB_CONFIDENCE = {
+  label: 0.9,
+  layout: 0.7,
+};
+
+/**
+ * Labels introducing a name ("Name", "Father's Name", "नाम", "पिता का नाम")
+ * Devanagari has no word boundaries for \b, so labels are delimited by
+ * whitespace and slashes instead.
+ */
+const NAME_LABEL_PATTERN =
+  /(?:^|[\s/])(?:(?:(?:father|mother|husband|guardian)(?:'s|s)?\s+)?name(?![a-z])|(?:(?:पिता|माता|पति)\s+का\s+)?नाम(?=[\s:/-]|$))\s*[:-]?/i;
+
+/**
+ * Labels introducing a full date of birth ("DOB", "Date of Birth", "जन्म तिथि")
+ */
+const DOB_LABEL_PATTERN =
+  /(?:^|[\s/])(?:dob|d\.o\.b\.?|date\s+of\s+birth|birth\s+date|जन्म\s*तिथि(?=[\s:/-]|$))(?![a-z])\s*[:-]?/i;
+
+/**
+ * Labels introducing a year of birth ("Year of Birth", "YoB", "जन्म वर्ष")
+ */
+const YOB_LABEL_PATTERN = /(?:^|[\s/])(?:year\s+of\s+birth|yob|जन्म\s*वर्ष(?=[\s:/-]|$))(?![a-z])\s*[:-]?/i;
+
+/**
+ * Dates as printed on Indian IDs: 01/01/1990, 01-01-1990, 01.01.1990,
+ * 01 Jan 1990, 01-JAN-1990 and 1990-01-01
+ */
+const DATE_PATTERN = new RegExp(
+  [
+    '\\b(?:0?[1-9]|[12]\\d|3[01])[/.-](?:0?[1-9]|1[0-2])[/.-](?:19|20)\\d{2}\\b',
+    '\\b(?:0?[1-9]|[12]\\d|3[01])[\\s/.-]?(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*[\\s/.,-]*(?:19|20)\\d{2}\\b',
+    '\\b(?:19|20)\\d{2}-(?:0[1-9]|1[0-2])-(?:0[1-9]|[12]\\d|3[01])\\b',
+  ].join('|'),
+  'i'
+);
+
+/**
+ * A four-digit year of birth
+ */
+const YEAR_PATTERN = /\b(?:19|20)\d{2}\b/;
+
+/**
+ * Most name lines read above a date of birth (holder and father on PAN
+ * cards, Hindi and English names on Aadhaar cards)
+ */
+const MAX_NAME_LINES_ABOVE_DOB = 2;
+
+/**
+ * Words on ID cards that look like names but are headings or field values
+ */
+const NOT_NAME_WORDS = new Set([
+  'government', 'govt', 'india', 'income', 'tax', 'department', 'permanent', 'account',
+  'number', 'card', 'unique', 'identification', 'authority', 'signature', 'male', 'female',
+  'father', 'mother', 'name', 'dob', 'birth', 'date', 'year', 'aadhaar', 'address', 'enrolment',
+  'issue', 'download', 'valid', 'republic', 'election', 'commission', 'identity',
+  'भारत', 'सरकार', 'आयकर', 'विभाग', 'पुरुष', 'महिला', 'जन्म', 'आधार', 'पता',
+]);
 
 /**
  * PatternDetector class for identifying PII in OCR results
+ * Runs every detector in the registry. The built-in detectors are registered
+ * into it on construction unless a detector of the same type already exists;
+ * pass a separate registry to get an independently configured detector.
  */
 export class PatternDetector {
+  private readonly registry: DetectorRegistry;
+  private readonly aadhaarStrictness: ChecksumStrictness;
+
+  constructor(options: PatternDetectorOptions = {}) {
+    this.registry = options.registry ?? getDetectorRegistry();
+    this.aadhaarStrictness = options.aadhaarStrictness ?? 'lenient';
+    if (options.aadhaarStrictness && this.registry.has('AADHAAR')) {
+      throw new Error(
+        'The registry already has an Aadhaar detector; pass a separate registry to set aadhaarStrictness'
+      );
+    }
+    this.registerBuiltInDetectors();
+  }
+
   /**
    * Detect all PII patterns in the OCR result
+   * Detection is synchronous, so an abort is noticed before the next detector.
    */
-  detectPII(ocrResult: OCRResult): DetectionResult {
-    const aadhaarNumbers = this.detectAadhaar(ocrResult);
-    const panNumbers = this.detectPAN(ocrResult);
-    const phoneNumbers = this.detectPhone(ocrResult);
-    const addresses = this.detectAddress(ocrResult);
+  detectPII(ocrResult: OCRResult, options: DetectionOptions = {}): DetectionResult {
+    const detections: Detection[] = [];
+    const normalizedResult = this.normalizeDigits(ocrResult);
+    const aadhaarStrictness = options.aadhaarStrictness ?? this.aadhaarStrictness;
+
+    for (const detector of this.registry.getAll()) {
+      throwIfCancelled(options.signal);
+      detections.push(
+        ...detector.detect(normalizedResult, { detections: [...detections], aadhaarStrictness })
+      );
+    }
+
+    return { detections };
+  }
 
+  /**
+   * Read Indic digits (e.g. on the Hindi side of an Aadhaar card) as ASCII
+   * digits, so every detector matches them. Text offsets are unchanged.
+   */
+  private normalizeDigits(ocrResult: OCRResult): OCRResult {
     return {
-      aadhaarNumbers,
-      panNumbers,
-      phoneNumbers,
-      addresses,
+      ...ocrResult,
+      pages: ocrResult.pages.map(page => ({
+        ...page,
+        textBlocks: page.textBlocks.map(block => ({ ...block, text: normalizeIndicDigits(block.text) })),
+      })),
     };
   }
 
+  /**
+   * Register a custom detector to run alongside the built-in ones
+   */
+  registerDetector(detector: DetectorDefinition): void {
+    this.registry.register(detector);
+  }
+
+  /**
+   * Register the detectors that ship with the tool
+   */
+  private registerBuiltInDetectors(): void {
+    const builtInDetectors: DetectorDefinition[] = [
+      {
+        type: 'AADHAAR',
+        label: 'Aadhaar Numbers',
+        color: '#60a5fa',
+        detect: (ocrResult, context) => this.detectAadhaar(ocrResult, context.aadhaarStrictness),
+      },
+      {
+        type: 'PAN',
+        label: 'PAN Numbers',
+        color: '#4ade80',
+        detect: (ocrResult) => this.detectPAN(ocrResult),
+      },
+      {
+        type: 'PHONE',
+        label: 'Phone Numbers',
+        color: '#c084fc',
+        detect: (ocrResult) => this.detectPhone(ocrResult),
+      },
+      {
+        type: 'ADDRESS',
+        label: 'Addresses',
+        color: '#fb923c',
+        detect: (ocrResult) => this.detectAddress(ocrResult),
+      },
+      {
+        type: 'PASSPORT',
+        label: 'Passport Numbers',
+        color: '#f472b6',
+        detect: (ocrResult) => this.detectIdentifier(ocrResult, PASSPORT_FORMAT),
+      },
+      {
+        type: 'VOTER_ID',
+        label: 'Voter IDs',
+        color: '#2dd4bf',
+        detect: (ocrResult) => this.detectIdentifier(ocrResult, VOTER_ID_FORMAT),
+      },
+      {
+        type: 'DRIVING_LICENCE',
+        label: 'Driving Licences',
+        color: '#fbbf24',
+        detect: (ocrResult) => this.detectIdentifier(ocrResult, DRIVING_LICENCE_FORMAT),
+      },
+      {
+        type: 'GSTIN',
+        label: 'GSTINs',
+        color: '#a3e635',
+        detect: (ocrResult) => this.detectIdentifier(ocrResult, GSTIN_FORMAT),
+      },
+      {
+        type: 'IFSC',
+        label: 'IFSC Codes',
+        color: '#38bdf8',
+        detect: (ocrResult) => this.detectIdentifier(ocrResult, IFSC_FORMAT),
+      },
+      {
+        type: 'BANK_ACCOUNT',
+        label: 'Bank Account Numbers',
+        color: '#e879f9',
+        detect: (ocrResult) => this.detectBankAccount(ocrResult),
+      },
+      {
+        type: 'DOB',
+        label: 'Dates of Birth',
+        color: '#818cf8',
+        detect: (ocrResult, context) => this.detectDateOfBirth(ocrResult, context),
+      },
+      {
+        type: 'NAME',
+        label: 'Names',
+        color: '#34d399',
+        detect: (ocrResult, context) => this.detectNames(ocrResult, context),
+      },
+    ];
+
+    for (const detector of builtInDetectors) {
+      if (!this.registry.has(detector.type)) {
+        this.registry.register(detector);
+      }
+    }
+  }
+
   /**
    * Detect Aadhaar numbers in OCR result
    * Supports formats: 123456789012, 1234 5678 9012, 1234-5678-9012
    * Also detects VID (Virtual ID) numbers which are 16 digits
+   * Numbers are validated against their Verhoeff check digit (and, for
+   * Aadhaar, the rule that they never start with 0 or 1) according to the
+   * given strictness
    */
-  private detectAadhaar(ocrResult: OCRResult): Detection[] {
+  private detectAadhaar(ocrResult: OCRResult, strictness: ChecksumStrictness): Detection[] {
     const detections: Detection[] = [];
 
     // Regex patterns for different Aadhaar formats
@@ -63,6 +485,9 @@ export class PatternDetector {
           if (digitsOnly.length === 12 || digitsOnly.length === 16) {
             detectedNumbers.add(digitsOnly);
 
+            const confidence = this.getAadhaarConfidence(digitsOnly, strictness);
+            if (confidence === null) continue;
+
             // Find the bounding box for this match
             const bbox = this.findBoundingBoxForMatch(
               matchedText,
@@ -75,9 +500,15 @@ export class PatternDetector {
               detections.push({
                 type: 'AADHAAR',
                 value: matchedText,
-                confidence: 0.9,
+                confidence,
                 bbox,
                 pageNumber: page.pageNumber,
+                // Lets the redaction engine mask all but the last four digits
+                charBoxes: this.findCharacterBoxesForMatch(
+                  matchedText,
+                  match.index,
+                  page.textBlocks
+                ),
               });
             }
           }
@@ -88,6 +519,26 @@ export class PatternDetector {
     return detections;
   }
 
+  /**
+   * Confidence for a 12-digit Aadhaar or 16-digit VID candidate
+   * Returns null when the candidate should be dropped.
+   */
+  private getAadhaarConfidence(digits: string, strictness: ChecksumStrictness): number | null {
+    if (strictness === 'off') {
+      return AADHAAR_CONFIDENCE.unvalidated;
+    }
+
+    const isValid = digits.length === 12
+      ? isValidAadhaarNumber(digits)
+      : isValidVirtualId(digits);
+
+    if (isValid) {
+      return AADHAAR_CONFIDENCE.valid;
+    }
+
+    return strictness === 'strict' ? null : AADHAAR_CONFIDENCE.invalid;
+  }
+
   /**
    * Find bounding box for a matched text at a specific position
    */
@@ -126,6 +577,56 @@ export class PatternDetector {
     return this.mergeBoundingBoxes(involvedBlocks.map(block => block.bbox));
   }
 
+  /**
+   * Find a bounding box for every character of a match
+   * OCR only locates whole words, so characters are spaced evenly across
+   * their word's box. The spaces joining blocks get a zero-width box at the
+   * end of the preceding block.
+   */
+  private findCharacterBoxesForMatch(
+    matchedText: string,
+    matchIndex: number,
+    textBlocks: TextBlock[]
+  ): BoundingBox[] {
+    const charBoxes: BoundingBox[] = [];
+    let currentIndex = 0;
+    let previousBlock: TextBlock | null = null;
+
+    for (const block of textBlocks) {
+      const blockStart = currentIndex;
+      const blockEnd = currentIndex + block.text.length;
+      const charWidth = block.bbox.width / Math.max(1, block.text.length);
+
+      // Characters of the match in this block, plus the space joining it to the previous one
+      const start = Math.max(matchIndex, blockStart - 1);
+      const end = Math.min(matchIndex + matchedText.length, blockEnd);
+
+      for (let i = start; i < end; i++) {
+        if (i < blockStart) {
+          // The joining space before this block
+          const anchor = previousBlock?.bbox ?? { ...block.bbox, width: 0 };
+          charBoxes.push({ x: anchor.x + anchor.width, y: anchor.y, width: 0, height: anchor.height });
+        } else {
+          charBoxes.push({
+            x: block.bbox.x + (i - blockStart) * charWidth,
+            y: block.bbox.y,
+            width: charWidth,
+            height: block.bbox.height,
+          });
+        }
+      }
+
+      previousBlock = block;
+      currentIndex = blockEnd + 1; // +1 for the space we added when joining
+
+      if (currentIndex > matchIndex + matchedText.length) {
+        break;
+      }
+    }
+
+    return charBoxes;
+  }
+
   /**
    * Merge multiple bounding boxes into one that encompasses all
    */
@@ -388,6 +889,146 @@ export class PatternDetector {
     return Array.from(seen.values());
   }
 
+  /**
+   * Detect a fixed-format identifier (passport, voter ID, licence, GSTIN, IFSC)
+   * Loose matches have OCR confusions in their digit positions fixed, as
+   * normalizePAN does, and are kept only if they validate afterwards
+   */
+  private detectIdentifier(ocrResult: OCRResult, format: IdentifierFormat): Detection[] {
+    const detections: Detection[] = [];
+
+    for (const page of ocrResult.pages) {
+      // Build full text from all text blocks for pattern matching
+      const fullText = page.textBlocks.map(block => block.text).join(' ');
+
+      // Matches never overlap, so a value printed twice is detected twice
+      const matches = Array.from(fullText.matchAll(format.pattern));
+
+      for (const match of matches) {
+        if (match.index === undefined) continue;
+
+        const matchedText = match[0];
+        const raw = matchedText.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+        // Words that are mostly letters are not identifiers with misread digits
+        const digitCount = raw.replace(/\D/g, '').length;
+        if (digitCount * 2 < format.digitPositions.length) continue;
+
+        let normalized = this.normalizeDigitPositions(raw, format.digitPositions);
+        if (format.normalize) {
+          normalized = format.normalize(normalized);
+        }
+
+        if (!format.isValid(normalized)) {
+          continue;
+        }
+
+        // Lower confidence when OCR errors had to be corrected
+        let confidence = normalized === raw ? 0.9 : 0.75;
+        if (format.hasValidChecksum) {
+          confidence = format.hasValidChecksum(normalized) ? 0.95 : 0.6;
+        }
+        if (format.keywords) {
+          const context = fullText.substring(Math.max(0, match.index - KEYWORD_WINDOW), match.index);
+          if (!format.keywords.test(context)) {
+            confidence = Math.min(confidence, UNANCHORED_IDENTIFIER_CONFIDENCE);
+          }
+        }
+
+        const bbox = this.findBoundingBoxForMatch(
+          matchedText,
+          match.index,
+          page.textBlocks,
+          fullText
+        );
+
+        if (bbox) {
+          detections.push({
+            type: format.type,
+            value: normalized,
+            confidence,
+            bbox,
+            pageNumber: page.pageNumber,
+          });
+        }
+      }
+    }
+
+    return detections;
+  }
+
+  /**
+   * Replace letters OCR commonly confuses with digits at the given positions
+   */
+  private normalizeDigitPositions(text: string, positions: number[]): string {
+    const chars = text.split('');
+
+    for (const position of positions) {
+      if (position < chars.length) {
+        chars[position] = DIGIT_CONFUSIONS[chars[position]] ?? chars[position];
+      }
+    }
+
+    return chars.join('');
+  }
+
+  /**
+   * Detect bank account numbers in OCR result
+   * Account numbers have no fixed format, so 9-18 digit numbers are only
+   * reported when a banking keyword (A/c, Account, Bank, IFSC...) precedes them
+   */
+  private detectBankAccount(ocrResult: OCRResult): Detection[] {
+    const detections: Detection[] = [];
+
+    // Starts and ends with a digit, tolerating misread digits in between
+    const accountPattern = new RegExp(`\\b\\d${DIGIT}{7,16}\\d\\b`, 'gi');
+
+    for (const page of ocrResult.pages) {
+      // Build full text from all text blocks for pattern matching
+      const fullText = page.textBlocks.map(block => block.text).join(' ');
+
+      // Matches never overlap, so a number printed twice is detected twice
+      const matches = Array.from(fullText.matchAll(accountPattern));
+
+      for (const match of matches) {
+        if (match.index === undefined) continue;
+
+        const matchedText = match[0];
+        const raw = matchedText.toUpperCase();
+
+        // Allow at most two misread digits
+        if (raw.replace(/\d/g, '').length > 2) continue;
+
+        const context = fullText.substring(
+          Math.max(0, match.index - KEYWORD_WINDOW),
+          match.index
+        );
+        if (!BANKING_KEYWORDS.test(context)) continue;
+
+        const normalized = this.normalizeDigitPositions(raw, raw.split('').map((_, i) => i));
+
+        const bbox = this.findBoundingBoxForMatch(
+          matchedText,
+          match.index,
+          page.textBlocks,
+          fullText
+        );
+
+        if (bbox) {
+          detections.push({
+            type: 'BANK_ACCOUNT',
+            value: normalized,
+            confidence: normalized === raw ? 0.85 : 0.7,
+            bbox,
+            pageNumber: page.pageNumber,
+          });
+        }
+      }
+    }
+
+    return detections;
+  }
+
   /**
    * Detect phone numbers in OCR result
    * Supports various formats: 9876543210, +91 9876543210, +91-9876543210, (91) 9876543210, etc.
@@ -461,161 +1102,407 @@ export class PatternDetector {
 
   /**
    * Detect addresses in OCR result
-   * Uses PIN codes and address keywords to identify address blocks
+   * Addresses are found from the page layout: a block of lines starting after
+   * an "Address:" label or at a relation prefix (S/O, C/O, D/O, W/O), or
+   * ending at a line with a PIN code. Blocks stop at layout boundaries (a gap,
+   * a change of column or text size) and at the labels of other fields.
+   * Each line of the address gets its own region.
    */
   private detectAddress(ocrResult: OCRResult): Detection[] {
     const detections: Detection[] = [];
 
-    // PIN code pattern: 6 digits
-    const pinPattern = /\b\d{6}\b/g;
-
-    // Address keywords (case-insensitive)
-    const addressKeywords = [
-      'street', 'road', 'avenue', 'lane', 'colony', 'sector',
-      'city', 'town', 'village', 'district', 'state',
-      'pin', 'pincode', 'postal', 'zip',
-      'address', 'residence', 'house', 'flat', 'apartment',
-      'building', 'block', 'floor',
-      'nagar', 'marg', 'gali', 'chowk', 'pura', 'pur', 'ganj'
-    ];
-
     for (const page of ocrResult.pages) {
-      // Build full text from all text blocks
-      const fullText = page.textBlocks.map(block => block.text).join(' ');
-
-      // Find all PIN codes
-      const pinMatches = Array.from(fullText.matchAll(pinPattern));
-
-      for (const pinMatch of pinMatches) {
-        if (pinMatch.index === undefined) continue;
+      const lines = groupIntoLines(page.textBlocks);
+      const used = new Set<TextLine>();
+
+      const addDetection = (addressLines: TextLine[], contentStart: number, confidence: number) => {
+        addressLines.forEach(line => used.add(line));
+
+        const parts = addressLines.map((line, index) => ({
+          line,
+          from: index === 0 ? contentStart : 0,
+        }));
+        const regions = parts
+          .map(({ line, from }) => this.getLineRegion(line, from))
+          .filter((region): region is BoundingBox => region !== null);
+        const value = parts
+          .map(({ line, from }) => line.text.slice(from).trim())
+          .filter(text => text.length > 0)
+          .join(' ');
+
+        if (regions.length === 0) return;
+
+        detections.push({
+          type: 'ADDRESS',
+          value,
+          confidence,
+          bbox: unionBoxes(regions),
+          pageNumber: page.pageNumber,
+          regions,
+        });
+      };
+
+      // Pass 1: addresses anchored on a label
+      for (const line of lines) {
+        if (used.has(line)) continue;
+
+        const anchor = this.findAddressLabel(line.text);
+        if (!anchor) continue;
+
+        // A label on a line of its own introduces the lines below
+        const labelOnly = line.text.slice(anchor.contentStart).trim().length === 0;
+        const first = labelOnly ? findNextLine(lines, line) : line;
+        if (!first || used.has(first) || FIELD_LABEL_PATTERN.test(first.text)) continue;
+
+        used.add(line);
+        const addressLines = this.collectAddressLines(lines, first, used);
+        const hasPin = addressLines.some(addressLine => PIN_CODE_PATTERN.test(addressLine.text));
+
+        addDetection(
+          addressLines,
+          labelOnly ? 0 : anchor.contentStart,
+          hasPin ? ADDRESS_CONFIDENCE.labelWithPin : ADDRESS_CONFIDENCE.label
+        );
+      }
 
-        const pinCode = pinMatch[0];
-        const pinIndex = pinMatch.index;
+      // Pass 2: unlabelled addresses ending in a PIN code
+      for (const line of lines) {
+        if (used.has(line) || !PIN_CODE_PATTERN.test(line.text)) continue;
 
-        // Look for address keywords near the PIN code
-        // Check text within ~200 characters before and after the PIN
-        const contextStart = Math.max(0, pinIndex - 200);
-        const contextEnd = Math.min(fullText.length, pinIndex + pinCode.length + 200);
-        const context = fullText.substring(contextStart, contextEnd).toLowerCase();
+        const addressLines = [line];
+        let current = line;
+        while (addressLines.length < MAX_ADDRESS_LINES) {
+          const previous = findPreviousLine(lines, current);
+          if (!previous || used.has(previous) || FIELD_LABEL_PATTERN.test(previous.text)) break;
 
-        // Check if any address keywords are present
-        const hasAddressKeyword = addressKeywords.some(keyword =>
-          context.includes(keyword.toLowerCase())
-        );
+          addressLines.unshift(previous);
+          current = previous;
+        }
 
-        if (hasAddressKeyword) {
-          // Find text blocks that are part of this address
-          // We'll include blocks within the context window
-          const addressBlocks: TextBlock[] = [];
-          let currentIndex = 0;
+        // A PIN alone is just a six-digit number
+        const text = addressLines.map(addressLine => addressLine.text).join(' ');
+        if (!ADDRESS_KEYWORD_PATTERN.test(text)) continue;
 
-          for (const block of page.textBlocks) {
-            const blockStart = currentIndex;
-            const blockEnd = currentIndex + block.text.length;
+        addDetection(addressLines, 0, ADDRESS_CONFIDENCE.pin);
+      }
+    }
 
-            // Include blocks that overlap with our context window
-            if (blockEnd >= contextStart && blockStart <= contextEnd) {
-              addressBlocks.push(block);
-            }
+    return detections;
+  }
 
-            currentIndex = blockEnd + 1; // +1 for the space
-          }
+  /**
+   * Find an address label in a line
+   * Returns where the address itself starts: after "Address:", or at a
+   * relation prefix, which is part of the address on Indian ID documents.
+   */
+  private findAddressLabel(text: string): { contentStart: number } | null {
+    const addressLabel = ADDRESS_LABEL_PATTERN.exec(text);
+    if (addressLabel) {
+      return { contentStart: addressLabel.index + addressLabel[0].length };
+    }
 
-          if (addressBlocks.length > 0) {
-            // Merge bounding boxes of all address blocks
-            const bbox = this.mergeBoundingBoxes(addressBlocks.map(b => b.bbox));
+    const relationLabel = RELATION_LABEL_PATTERN.exec(text);
+    if (relationLabel) {
+      return { contentStart: relationLabel.index + relationLabel[0].length - relationLabel[1].length };
+    }
 
-            // Extract the address text
-            const addressText = addressBlocks.map(b => b.text).join(' ');
+    return null;
+  }
 
-            detections.push({
-              type: 'ADDRESS',
-              value: addressText.trim(),
-              confidence: 0.75, // Lower confidence due to heuristic nature
-              bbox,
-              pageNumber: page.pageNumber,
-            });
-          }
-        }
+  /**
+   * Follow an address down the page from its first line
+   * Stops after the line with the PIN code, at a layout boundary, at another
+   * field's label, or after MAX_ADDRESS_LINES lines.
+   */
+  private collectAddressLines(lines: TextLine[], first: TextLine, used: Set<TextLine>): TextLine[] {
+    const addressLines = [first];
+    let current = first;
+
+    while (!PIN_CODE_PATTERN.test(current.text) && addressLines.length < MAX_ADDRESS_LINES) {
+      const next = findNextLine(lines, current);
+      if (
+        !next ||
+        used.has(next) ||
+        addressLines.includes(next) ||
+        FIELD_LABEL_PATTERN.test(next.text) ||
+        this.findAddressLabel(next.text)
+      ) {
+        break;
       }
+
+      addressLines.push(next);
+      current = next;
     }
 
-    // Remove duplicate/overlapping addresses
-    return this.deduplicateAddresses(detections);
+    return addressLines;
   }
 
   /**
-   * Remove duplicate or heavily overlapping address detections
+   * Detect dates of birth in OCR result
+   * Dates are taken after a DOB or year-of-birth label (on the same line or
+   * the next). On pages with an Aadhaar or PAN number, a line holding only a
+   * date above the number is the date of birth too, as on PAN cards.
    */
-  private deduplicateAddresses(detections: Detection[]): Detection[] {
-    if (detections.length <= 1) {
-      return detections;
-    }
+  private detectDateOfBirth(ocrResult: OCRResult, context: DetectorContext): Detection[] {
+    const detections: Detection[] = [];
 
-    const result: Detection[] = [];
-    const used = new Set<number>();
+    for (const page of ocrResult.pages) {
+      const lines = groupIntoLines(page.textBlocks);
+      const idNumbers = this.getIdNumbers(context, page.pageNumber);
+      const used = new Set<TextLine>();
+
+      const addDetection = (line: TextLine, match: RegExpExecArray, offset: number, confidence: number) => {
+        used.add(line);
+        const bbox = this.getLineRegion(line, offset + match.index, offset + match.index + match[0].length);
+        if (!bbox) return;
+
+        detections.push({
+          type: 'DOB',
+          value: match[0],
+          confidence,
+          bbox,
+          pageNumber: page.pageNumber,
+        });
+      };
+
+      for (const line of lines) {
+        if (used.has(line)) continue;
+
+        const dobLabel = DOB_LABEL_PATTERN.exec(line.text);
+        const yobLabel = dobLabel ? null : YOB_LABEL_PATTERN.exec(line.text);
+        const label = dobLabel ?? yobLabel;
+        if (!label) continue;
+
+        const valuePattern = dobLabel ? DATE_PATTERN : YEAR_PATTERN;
+        const contentStart = this.skipLabels(line.text, label.index + label[0].length, [
+          DOB_LABEL_PATTERN,
+          YOB_LABEL_PATTERN,
+        ]);
+        const match = valuePattern.exec(line.text.slice(contentStart));
+
+        if (match) {
+          addDetection(line, match, contentStart, DOB_CONFIDENCE.label);
+          continue;
+        }
 
-    for (let i = 0; i < detections.length; i++) {
-      if (used.has(i)) continue;
+        // The value can sit below a label on a line of its own
+        const next = line.text.slice(contentStart).trim() ? null : findNextLine(lines, line);
+        const nextMatch = next && !used.has(next) ? valuePattern.exec(next.text) : null;
+        if (next && nextMatch) {
+          addDetection(next, nextMatch, 0, DOB_CONFIDENCE.label);
+        }
+      }
 
-      const current = detections[i];
-      let bestDetection = current;
-      used.add(i);
+      // Unlabelled dates on ID cards
+      if (idNumbers.length === 0) continue;
 
-      // Check for overlaps with other detections on the same page
-      for (let j = i + 1; j < detections.length; j++) {
-        if (used.has(j)) continue;
+      for (const line of lines) {
+        if (used.has(line) || !this.isAboveIdNumber(line, idNumbers)) continue;
 
-        const other = detections[j];
+        const match = DATE_PATTERN.exec(line.text);
+        if (match && match[0].length === line.text.trim().length) {
+          addDetection(line, match, 0, DOB_CONFIDENCE.layout);
+        }
+      }
+    }
+
+    return detections;
+  }
 
-        // Only compare detections on the same page
-        if (current.pageNumber !== other.pageNumber) continue;
+  /**
+   * Detect names in OCR result
+   * Names are taken after a name label (on the same line or the next). On
+   * pages with an Aadhaar or PAN number, the name-like lines directly above
+   * a date of birth are names too: that is where Aadhaar and PAN cards print
+   * the holder's (and father's) name.
+   */
+  private detectNames(ocrResult: OCRResult, context: DetectorContext): Detection[] {
+    const detections: Detection[] = [];
 
-        // Check if bounding boxes overlap significantly
-        const overlapArea = this.calculateOverlapArea(current.bbox, other.bbox);
-        const currentArea = current.bbox.width * current.bbox.height;
-        const otherArea = other.bbox.width * other.bbox.height;
+    for (const page of ocrResult.pages) {
+      const lines = groupIntoLines(page.textBlocks);
+      const idNumbers = this.getIdNumbers(context, page.pageNumber);
+      const used = new Set<TextLine>();
+
+      const addDetection = (line: TextLine, from: number, to: number, confidence: number) => {
+        used.add(line);
+        const bbox = this.getLineRegion(line, from, to);
+        if (!bbox) return;
+
+        detections.push({
+          type: 'NAME',
+          value: line.text.slice(from, to).trim(),
+          confidence,
+          bbox,
+          pageNumber: page.pageNumber,
+        });
+      };
+
+      for (const line of lines) {
+        if (used.has(line)) continue;
+
+        const label = NAME_LABEL_PATTERN.exec(line.text);
+        if (!label) continue;
+        used.add(line);
+
+        const contentStart = this.skipLabels(line.text, label.index + label[0].length, [NAME_LABEL_PATTERN]);
+
+        // A name can share its line with the date of birth
+        const dobLabel = DOB_LABEL_PATTERN.exec(line.text.slice(contentStart));
+        const contentEnd = dobLabel ? contentStart + dobLabel.index : line.text.length;
+        const value = line.text.slice(contentStart, contentEnd);
+
+        if (value.trim()) {
+          if (this.looksLikeName(value)) {
+            addDetection(line, contentStart, contentEnd, NAME_CONFIDENCE.label);
+          }
+          continue;
+        }
 
-        // If overlap is more than 50% of either box, consider them duplicates
-        if (overlapArea > currentArea * 0.5 || overlapArea > otherArea * 0.5) {
-          used.add(j);
+        // The value can sit below a label on a line of its own
+        const next = findNextLine(lines, line);
+        if (next && !used.has(next) && this.looksLikeName(next.text)) {
+          addDetection(next, 0, next.text.length, NAME_CONFIDENCE.label);
+        }
+      }
 
-          // Keep the one with larger bounding box (more complete address)
-          if (otherArea > currentArea) {
-            bestDetection = other;
+      // Unlabelled names above the date of birth on ID cards
+      if (idNumbers.length === 0) continue;
+
+      const dates = context.detections.filter(
+        detection => detection.type === 'DOB' && detection.pageNumber === page.pageNumber
+      );
+
+      for (const date of dates) {
+        // The line the date was read from
+        const centerX = date.bbox.x + date.bbox.width / 2;
+        const centerY = date.bbox.y + date.bbox.height / 2;
+        let current = lines.find(({ bbox }) =>
+          centerX >= bbox.x && centerX <= bbox.x + bbox.width &&
+          centerY >= bbox.y && centerY <= bbox.y + bbox.height
+        );
+
+        for (let i = 0; current && i < MAX_NAME_LINES_ABOVE_DOB; i++) {
+          const previous = findPreviousLine(lines, current);
+          if (
+            !previous ||
+            used.has(previous) ||
+            !this.looksLikeName(previous.text) ||
+            !this.isAboveIdNumber(previous, idNumbers)
+          ) {
+            break;
           }
+
+          addDetection(previous, 0, previous.text.length, NAME_CONFIDENCE.layout);
+          current = previous;
         }
       }
+    }
+
+    return detections;
+  }
 
-      result.push(bestDetection);
+  /**
+   * Aadhaar and PAN numbers already detected on a page
+   */
+  private getIdNumbers(context: DetectorContext, pageNumber: number): Detection[] {
+    return context.detections.filter(
+      detection =>
+        detection.pageNumber === pageNumber &&
+        (detection.type === 'AADHAAR' || detection.type === 'PAN')
+    );
+  }
+
+  /**
+   * Whether a line sits above one of the ID numbers, where cards print the
+   * holder's details
+   */
+  private isAboveIdNumber(line: TextLine, idNumbers: Detection[]): boolean {
+    return idNumbers.some(
+      idNumber => line.bbox.y + line.bbox.height <= idNumber.bbox.y + idNumber.bbox.height / 2
+    );
+  }
+
+  /**
+   * Whether text reads like a person's name: one to five words of Latin or
+   * Indic letters, none of them card headings or field labels
+   */
+  private looksLikeName(text: string): boolean {
+    const words = text.trim().split(/\s+/);
+    if (words.length === 0 || words.length > 5) {
+      return false;
     }
 
-    return result;
+    return words.every(word =>
+      /^[A-Za-z\u0900-\u0DFF][A-Za-z\u0900-\u0DFF.']*$/.test(word) &&
+      !NOT_NAME_WORDS.has(word.toLowerCase().replace(/[.']/g, ''))
+    ) && text.replace(/[^A-Za-z\u0900-\u0DFF]/g, '').length >= 2;
   }
 
   /**
-   * Calculate the overlapping area between two bounding boxes
+   * Move past repeated labels, as in bilingual "नाम / Name:" fields
    */
-  private calculateOverlapArea(box1: BoundingBox, box2: BoundingBox): number {
-    const x1 = Math.max(box1.x, box2.x);
-    const y1 = Math.max(box1.y, box2.y);
-    const x2 = Math.min(box1.x + box1.width, box2.x + box2.width);
-    const y2 = Math.min(box1.y + box1.height, box2.y + box2.height);
+  private skipLabels(text: string, index: number, patterns: RegExp[]): number {
+    for (;;) {
+      const rest = text.slice(index);
+      const repeated = patterns
+        .map(pattern => pattern.exec(rest))
+        .find(match => match && /^[\s/|]*$/.test(rest.slice(0, match.index)));
+
+      if (!repeated) {
+        return index;
+      }
+      index += repeated.index + repeated[0].length;
+    }
+  }
+
+  /**
+   * Box around the part of a line between two character offsets
+   * Words are located by OCR, so a word split by an offset (e.g. a label
+   * and value recognised as one block) is cut in proportion to its text.
+   */
+  private getLineRegion(line: TextLine, fromIndex: number, toIndex = line.text.length): BoundingBox | null {
+    // Leave out surrounding whitespace
+    while (fromIndex < toIndex && /\s/.test(line.text[fromIndex])) {
+      fromIndex++;
+    }
+    while (toIndex > fromIndex && /\s/.test(line.text[toIndex - 1])) {
+      toIndex--;
+    }
 
-    if (x2 <= x1 || y2 <= y1) {
-      return 0; // No overlap
+    const boxes: BoundingBox[] = [];
+    let currentIndex = 0;
+
+    for (const block of line.blocks) {
+      const blockStart = currentIndex;
+      const blockEnd = currentIndex + block.text.length;
+      currentIndex = blockEnd + 1; // +1 for the space we added when joining
+
+      if (blockEnd <= fromIndex || blockStart >= toIndex) continue;
+
+      const charWidth = block.bbox.width / Math.max(1, block.text.length);
+      const start = Math.max(0, fromIndex - blockStart);
+      const end = Math.min(block.text.length, toIndex - blockStart);
+      boxes.push({ ...block.bbox, x: block.bbox.x + start * charWidth, width: (end - start) * charWidth });
     }
 
-    return (x2 - x1) * (y2 - y1);
+    return boxes.length > 0 ? unionBoxes(boxes) : null;
   }
 }
 
 // Export a singleton instance
 let patternDetectorInstance: PatternDetector | null = null;
 
+/**
+ * The shared detector, with the built-in detectors and CUSTOM_DETECTORS
+ * registered
+ */
 export function getPatternDetector(): PatternDetector {
   if (!patternDetectorInstance) {
     patternDetectorInstance = new PatternDetector();
+    for (const detector of CUSTOM_DETECTORS) {
+      patternDetectorInstance.registerDetector(detector);
+    }
   }
   return patternDetectorInstance;
 }
@@ -0,0 +1,445 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFObject,
+  PDFPage,
+  PDFRef,
+  PDFStream,
+  PDFString,
+  PDFTextField,
+} from 'pdf-lib';
+import { PDFPart, PDFSanitizationPolicy, SanitizationRecord } from '@/types';
+
+/**
+ * Strip every part of a PDF that can carry personal data besides its pages
+ */
+export const DEFAULT_SANITIZATION_POLICY: PDFSanitizationPolicy = {
+  metadata: 'remove',
+  annotations: 'remove',
+  formFields: 'remove',
+  attachments: 'remove',
+  javascript: 'remove',
+  bookmarks: 'remove',
+};
+
+/**
+ * Parts offered in the review step, in display order
+ */
+export const PDF_PARTS: { part: PDFPart; label: string; canScrub: boolean }[] = [
+  { part: 'metadata', label: 'Document properties', canScrub: true },
+  { part: 'annotations', label: 'Comments and links', canScrub: true },
+  { part: 'formFields', label: 'Form fields', canScrub: true },
+  { part: 'bookmarks', label: 'Bookmarks', canScrub: true },
+  { part: 'attachments', label: 'Attachments', canScrub: false },
+  { part: 'javascript', label: 'JavaScript', canScrub: false },
+];
+
+/**
+ * Values shorter than this are not scrubbed, as they would match too much
+ */
+const MIN_SCRUBBED_LENGTH = 3;
+
+/**
+ * Letters and digits of Latin and Indic scripts
+ */
+const VALUE_CHARACTER = /[0-9A-Za-z\u00C0-\u024F\u0900-\u0DFF]/;
+
+/**
+ * Finds the redacted values in text, however they are spaced or punctuated
+ */
+export class ValueMatcher {
+  private readonly pattern: RegExp | null;
+
+  constructor(values: string[]) {
+    const sources = values
+      .map(value => Array.from(value).filter(character => VALUE_CHARACTER.test(character)))
+      .filter(characters => characters.length >= MIN_SCRUBBED_LENGTH)
+      // Longest first, so a value is masked in full rather than in part
+      .sort((a, b) => b.length - a.length)
+      .map(characters => characters.join('[\\s\\-./]*'));
+
+    this.pattern = sources.length > 0 ? new RegExp(`(?:${sources.join('|')})`, 'gi') : null;
+  }
+
+  matches(text: string): boolean {
+    if (!this.pattern) return false;
+    this.pattern.lastIndex = 0;
+    return this.pattern.test(text);
+  }
+
+  /**
+   * Replace the letters and digits of every redacted value with X
+   */
+  scrub(text: string): string {
+    if (!this.pattern) return text;
+    return text.replace(this.pattern, match =>
+      Array.from(match)
+        .map(character => (VALUE_CHARACTER.test(character) ? 'X' : character))
+        .join('')
+    );
+  }
+}
+
+/**
+ * Remove or scrub the parts of a PDF besides its page content that can carry
+ * the redacted information, and drop every object nothing refers to any
+ * more (such as the content of pages replaced by rasterized copies), since
+ * pdf-lib writes out every object it holds. Save the document with
+ * updateFieldAppearances off, as pdf-lib's cached form may be gone.
+ *
+ * @param pdfDoc - The document, changed in place
+ * @param policy - What to do with each part
+ * @param redactedValues - The values redacted from the pages, which are scrubbed
+ * @returns What was removed or scrubbed
+ */
+export function sanitizePdf(
+  pdfDoc: PDFDocument,
+  policy: PDFSanitizationPolicy,
+  redactedValues: string[]
+): SanitizationRecord[] {
+  const matcher = new ValueMatcher(redactedValues);
+  const records: SanitizationRecord[] = [];
+  const record = (part: PDFPart, action: SanitizationRecord['action'], description: string) =>
+    records.push({ part, action, description });
+
+  // Form fields first: they own the widget annotations on the pages
+  sanitizeFormFields(pdfDoc, policy.formFields, matcher, record);
+  sanitizeAnnotations(pdfDoc, policy, matcher, record);
+  sanitizeMetadata(pdfDoc, policy.metadata, matcher, record);
+  sanitizeAttachments(pdfDoc, policy.attachments, record);
+  sanitizeJavaScript(pdfDoc, policy.javascript, record);
+  sanitizeBookmarks(pdfDoc, policy.bookmarks, matcher, record);
+
+  removeUnreachableObjects(pdfDoc);
+  return records;
+}
+
+type Recorder = (part: PDFPart, action: SanitizationRecord['action'], description: string) => void;
+
+function getText(object: PDFObject | undefined): string | undefined {
+  return object instanceof PDFString || object instanceof PDFHexString
+    ? object.decodeText()
+    : undefined;
+}
+
+function getName(object: PDFObject | undefined): string | undefined {
+  return object instanceof PDFName ? object.decodeText() : undefined;
+}
+
+function lookupDict(pdfDoc: PDFDocument, object: PDFObject | undefined): PDFDict | undefined {
+  const resolved = object instanceof PDFRef ? pdfDoc.context.lookup(object) : object;
+  return resolved instanceof PDFDict ? resolved : undefined;
+}
+
+function getNamesDict(pdfDoc: PDFDocument): PDFDict | undefined {
+  return lookupDict(pdfDoc, pdfDoc.catalog.get(PDFName.of('Names')));
+}
+
+/**
+ * The annotations on a page, with the entry each is listed under
+ */
+function getAnnotations(pdfDoc: PDFDocument, page: PDFPage): { entry: PDFObject; dict: PDFDict }[] {
+  const annots = page.node.Annots();
+  if (!annots) return [];
+
+  return annots.asArray().flatMap(entry => {
+    const dict = lookupDict(pdfDoc, entry);
+    return dict ? [{ entry, dict }] : [];
+  });
+}
+
+/**
+ * Keep only the annotations of a page that pass a test
+ */
+function filterAnnotations(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  keep: (dict: PDFDict) => boolean
+): void {
+  const annotations = getAnnotations(pdfDoc, page);
+  const kept = annotations.filter(({ dict }) => keep(dict));
+  if (kept.length === annotations.length) return;
+
+  if (kept.length === 0) {
+    page.node.delete(PDFName.of('Annots'));
+  } else {
+    page.node.set(PDFName.of('Annots'), pdfDoc.context.obj(kept.map(({ entry }) => entry)));
+  }
+}
+
+function sanitizeFormFields(
+  pdfDoc: PDFDocument,
+  action: PDFSanitizationPolicy['formFields'],
+  matcher: ValueMatcher,
+  record: Recorder
+): void {
+  if (action === 'keep' || !pdfDoc.catalog.get(PDFName.of('AcroForm'))) return;
+
+  const fields = pdfDoc.getForm().getFields();
+
+  if (action === 'scrub') {
+    let scrubbed = false;
+    for (const field of fields) {
+      if (!(field instanceof PDFTextField)) continue;
+
+      const text = field.getText();
+      if (text && matcher.matches(text)) {
+        // Viewers redraw the field from its new value
+        field.acroField.setValue(PDFHexString.fromText(matcher.scrub(text)));
+        for (const widget of field.acroField.getWidgets()) {
+          widget.dict.delete(PDFName.of('AP'));
+        }
+        record('formFields', 'scrubbed', `Field "${field.getName()}"`);
+        scrubbed = true;
+      }
+    }
+    if (scrubbed) {
+      pdfDoc.getForm().acroForm.dict.set(PDFName.of('NeedAppearances'), pdfDoc.context.obj(true));
+    }
+    return;
+  }
+
+  for (const field of fields) {
+    record('formFields', 'removed', `Field "${field.getName()}"`);
+  }
+
+  // Widgets are removed from the pages directly: pages replaced by rasterized
+  // copies no longer hold theirs, which pdf-lib's removeField expects
+  pdfDoc.catalog.delete(PDFName.of('AcroForm'));
+  for (const page of pdfDoc.getPages()) {
+    filterAnnotations(pdfDoc, page, dict => getName(dict.get(PDFName.of('Subtype'))) !== 'Widget');
+  }
+}
+
+/**
+ * Text an annotation shows or links to
+ */
+function getAnnotationText(pdfDoc: PDFDocument, dict: PDFDict): string {
+  const action = lookupDict(pdfDoc, dict.get(PDFName.of('A')));
+  return ['Contents', 'T', 'Subj', 'RC']
+    .map(key => getText(dict.get(PDFName.of(key))))
+    .concat(getText(action?.get(PDFName.of('URI'))))
+    .filter(Boolean)
+    .join('\n');
+}
+
+function sanitizeAnnotations(
+  pdfDoc: PDFDocument,
+  policy: PDFSanitizationPolicy,
+  matcher: ValueMatcher,
+  record: Recorder
+): void {
+  pdfDoc.getPages().forEach((page, pageIndex) => {
+    const removed = new Set<PDFDict>();
+
+    filterAnnotations(pdfDoc, page, dict => {
+      const subtype = getName(dict.get(PDFName.of('Subtype'))) ?? 'Unknown';
+      // Widgets belong to form fields
+      if (subtype === 'Widget') return true;
+
+      const parent = lookupDict(pdfDoc, dict.get(PDFName.of('Parent')));
+      const isAttachment = subtype === 'FileAttachment' && policy.attachments === 'remove';
+      const remove =
+        isAttachment ||
+        policy.annotations === 'remove' ||
+        (policy.annotations === 'scrub' &&
+          ((subtype === 'Popup' && !!parent && removed.has(parent)) ||
+            matcher.matches(getAnnotationText(pdfDoc, dict))));
+
+      if (remove) {
+        removed.add(dict);
+        // Popups are listed with the annotation they belong to
+        if (subtype !== 'Popup') {
+          record(
+            isAttachment ? 'attachments' : 'annotations',
+            'removed',
+            `${subtype} annotation on page ${pageIndex + 1}`
+          );
+        }
+      }
+      return !remove;
+    });
+  });
+}
+
+const INFO_KEYS = ['Title', 'Author', 'Subject', 'Keywords', 'Creator', 'Producer'];
+
+function sanitizeMetadata(
+  pdfDoc: PDFDocument,
+  action: PDFSanitizationPolicy['metadata'],
+  matcher: ValueMatcher,
+  record: Recorder
+): void {
+  if (action === 'keep') return;
+
+  const info = lookupDict(pdfDoc, pdfDoc.context.trailerInfo.Info);
+  if (info) {
+    for (const [key, value] of info.entries()) {
+      const name = key.decodeText();
+      const text = getText(value);
+
+      if (action === 'remove') {
+        info.delete(key);
+        if (text || INFO_KEYS.includes(name)) {
+          record('metadata', 'removed', name);
+        }
+      } else if (text && matcher.matches(text)) {
+        info.set(key, PDFHexString.fromText(matcher.scrub(text)));
+        record('metadata', 'scrubbed', name);
+      }
+    }
+  }
+
+  // XMP is XML that repeats the document properties; it is never scrubbed
+  if (pdfDoc.catalog.get(PDFName.of('Metadata'))) {
+    pdfDoc.catalog.delete(PDFName.of('Metadata'));
+    record('metadata', 'removed', 'XMP metadata');
+  }
+}
+
+/**
+ * Names listed in a name tree (such as the embedded files)
+ */
+function getNameTreeNames(pdfDoc: PDFDocument, node: PDFDict | undefined): string[] {
+  if (!node) return [];
+
+  const names = node.lookupMaybe(PDFName.of('Names'), PDFArray);
+  const own = names
+    ? names.asArray().filter((_, index) => index % 2 === 0).map(name => getText(name) ?? '')
+    : [];
+  const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray)?.asArray() ?? [];
+
+  return own.concat(...kids.map(kid => getNameTreeNames(pdfDoc, lookupDict(pdfDoc, kid))));
+}
+
+function sanitizeAttachments(
+  pdfDoc: PDFDocument,
+  action: PDFSanitizationPolicy['attachments'],
+  record: Recorder
+): void {
+  const names = getNamesDict(pdfDoc);
+  if (action === 'keep' || !names?.get(PDFName.of('EmbeddedFiles'))) return;
+
+  const files = getNameTreeNames(pdfDoc, lookupDict(pdfDoc, names.get(PDFName.of('EmbeddedFiles'))));
+  names.delete(PDFName.of('EmbeddedFiles'));
+  for (const file of files) {
+    record('attachments', 'removed', `Attachment "${file}"`);
+  }
+}
+
+function isJavaScriptAction(pdfDoc: PDFDocument, object: PDFObject | undefined): boolean {
+  return getName(lookupDict(pdfDoc, object)?.get(PDFName.of('S'))) === 'JavaScript';
+}
+
+function sanitizeJavaScript(
+  pdfDoc: PDFDocument,
+  action: PDFSanitizationPolicy['javascript'],
+  record: Recorder
+): void {
+  if (action === 'keep') return;
+
+  const { catalog } = pdfDoc;
+  const names = getNamesDict(pdfDoc);
+  if (names?.get(PDFName.of('JavaScript'))) {
+    names.delete(PDFName.of('JavaScript'));
+    record('javascript', 'removed', 'Document scripts');
+  }
+  if (isJavaScriptAction(pdfDoc, catalog.get(PDFName.of('OpenAction')))) {
+    catalog.delete(PDFName.of('OpenAction'));
+    record('javascript', 'removed', 'Script run when the document opens');
+  }
+  if (catalog.get(PDFName.of('AA'))) {
+    catalog.delete(PDFName.of('AA'));
+    record('javascript', 'removed', 'Document event actions');
+  }
+
+  pdfDoc.getPages().forEach((page, pageIndex) => {
+    let removed = !!page.node.get(PDFName.of('AA'));
+    page.node.delete(PDFName.of('AA'));
+
+    for (const { dict } of getAnnotations(pdfDoc, page)) {
+      if (dict.get(PDFName.of('AA'))) {
+        dict.delete(PDFName.of('AA'));
+        removed = true;
+      }
+      if (isJavaScriptAction(pdfDoc, dict.get(PDFName.of('A')))) {
+        dict.delete(PDFName.of('A'));
+        removed = true;
+      }
+    }
+
+    if (removed) {
+      record('javascript', 'removed', `Scripts on page ${pageIndex + 1}`);
+    }
+  });
+}
+
+function sanitizeBookmarks(
+  pdfDoc: PDFDocument,
+  action: PDFSanitizationPolicy['bookmarks'],
+  matcher: ValueMatcher,
+  record: Recorder
+): void {
+  const outlines = lookupDict(pdfDoc, pdfDoc.catalog.get(PDFName.of('Outlines')));
+  if (action === 'keep' || !outlines) return;
+
+  if (action === 'remove') {
+    pdfDoc.catalog.delete(PDFName.of('Outlines'));
+    record('bookmarks', 'removed', 'Bookmarks');
+    return;
+  }
+
+  // Walk the outline tree, guarding against loops in malformed files
+  const visited = new Set<PDFDict>();
+  const visit = (item: PDFDict | undefined) => {
+    while (item && !visited.has(item)) {
+      visited.add(item);
+
+      const title = getText(item.get(PDFName.of('Title')));
+      if (title && matcher.matches(title)) {
+        item.set(PDFName.of('Title'), PDFHexString.fromText(matcher.scrub(title)));
+        record('bookmarks', 'scrubbed', 'Bookmark title');
+      }
+
+      visit(lookupDict(pdfDoc, item.get(PDFName.of('First'))));
+      item = lookupDict(pdfDoc, item.get(PDFName.of('Next')));
+    }
+  };
+  visit(lookupDict(pdfDoc, outlines.get(PDFName.of('First'))));
+}
+
+/**
+ * Delete every object that cannot be reached from the document catalog or
+ * its properties
+ */
+function removeUnreachableObjects(pdfDoc: PDFDocument): void {
+  const { context } = pdfDoc;
+  const reachable = new Set<PDFRef>();
+  const pending: (PDFObject | undefined)[] = [context.trailerInfo.Root, context.trailerInfo.Info];
+
+  while (pending.length > 0) {
+    const object = pending.pop();
+
+    if (object instanceof PDFRef) {
+      if (!reachable.has(object)) {
+        reachable.add(object);
+        pending.push(context.lookup(object));
+      }
+    } else if (object instanceof PDFDict) {
+      pending.push(...object.values());
+    } else if (object instanceof PDFArray) {
+      pending.push(...object.asArray());
+    } else if (object instanceof PDFStream) {
+      pending.push(object.dict);
+    }
+  }
+
+  for (const [ref] of context.enumerateIndirectObjects()) {
+    if (!reachable.has(ref)) {
+      context.delete(ref);
+    }
+  }
+}
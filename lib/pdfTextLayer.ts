@@ -0,0 +1,178 @@
+import { BoundingBox, PageGeometry, TextBlock } from '@/types';
+import {
+  TransformMatrix,
+  multiplyTransforms,
+  pdfPointsToPixelRect,
+} from '@/lib/coordinateTransform';
+
+/**
+ * Minimum number of non-whitespace characters for a page's text layer to be
+ * trusted instead of running OCR
+ */
+export const MIN_TEXT_LAYER_CHARACTERS = 10;
+
+/**
+ * Minimum area (in OCR pixels) for an embedded image to be worth OCRing
+ */
+export const MIN_IMAGE_REGION_AREA = 64 * 64;
+
+/**
+ * Portion of the font size that glyphs extend below the baseline
+ */
+const DESCENT_RATIO = 0.25;
+
+/**
+ * A text run from PDF.js getTextContent()
+ */
+export interface PDFTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+}
+
+/**
+ * Operator list from PDF.js getOperatorList()
+ */
+export interface PDFOperatorList {
+  fnArray: number[];
+  argsArray: unknown[][];
+}
+
+/**
+ * PDF.js operator codes needed to locate images on a page
+ */
+export interface ImageOperatorCodes {
+  save: number;
+  restore: number;
+  transform: number;
+  paintFormXObjectBegin: number;
+  paintFormXObjectEnd: number;
+  paintImageOps: number[];
+}
+
+/**
+ * Count the non-whitespace characters in a page's text items
+ */
+export function countTextLayerCharacters(items: PDFTextItem[]): number {
+  return items.reduce((count, item) => count + item.str.replace(/\s/g, '').length, 0);
+}
+
+/**
+ * Convert PDF.js text items into word-level text blocks in OCR pixel space.
+ * Each item is split on whitespace; glyph positions within an item are
+ * interpolated along the text direction, which handles rotated text too.
+ */
+export function textItemsToTextBlocks(
+  items: PDFTextItem[],
+  geometry: PageGeometry
+): TextBlock[] {
+  const textBlocks: TextBlock[] = [];
+
+  for (const item of items) {
+    if (!item.str.trim() || item.transform.length < 6) continue;
+
+    const [a, b, c, d, e, f] = item.transform;
+    const advanceLength = Math.hypot(a, b);
+    const fontHeight = item.height || Math.hypot(c, d);
+    if (advanceLength === 0 || fontHeight === 0) continue;
+
+    // Unit vectors along the baseline and towards the top of the glyphs
+    const ux = a / advanceLength;
+    const uy = b / advanceLength;
+    const upLength = Math.hypot(c, d) || advanceLength;
+    const vx = c / upLength;
+    const vy = d / upLength;
+
+    const charAdvance = item.width / item.str.length;
+    const wordPattern = /\S+/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = wordPattern.exec(item.str)) !== null) {
+      const start = match.index * charAdvance;
+      const end = (match.index + match[0].length) * charAdvance;
+      const bottom = -fontHeight * DESCENT_RATIO;
+      const top = fontHeight;
+
+      const corners: [number, number][] = [
+        [start, bottom],
+        [end, bottom],
+        [start, top],
+        [end, top],
+      ].map(([along, up]) => [e + ux * along + vx * up, f + uy * along + vy * up]);
+
+      textBlocks.push({
+        text: match[0],
+        confidence: 1, // Text from the document itself, not recognised
+        bbox: pdfPointsToPixelRect(corners, geometry),
+      });
+    }
+  }
+
+  return textBlocks;
+}
+
+/**
+ * Find where images are painted on a page, in OCR pixel space.
+ * Walks the operator list tracking the current transform; every image is
+ * painted into the unit square of the transform in effect at that point.
+ */
+export function findImageRegions(
+  operatorList: PDFOperatorList,
+  ops: ImageOperatorCodes,
+  geometry: PageGeometry
+): BoundingBox[] {
+  const regions: BoundingBox[] = [];
+  const stack: TransformMatrix[] = [];
+  let ctm: TransformMatrix = [1, 0, 0, 1, 0, 0];
+
+  for (let i = 0; i < operatorList.fnArray.length; i++) {
+    const fn = operatorList.fnArray[i];
+    const args = operatorList.argsArray[i];
+
+    if (fn === ops.save) {
+      stack.push(ctm);
+    } else if (fn === ops.restore || fn === ops.paintFormXObjectEnd) {
+      ctm = stack.pop() ?? ctm;
+    } else if (fn === ops.transform) {
+      ctm = multiplyTransforms(ctm, args as TransformMatrix);
+    } else if (fn === ops.paintFormXObjectBegin) {
+      stack.push(ctm);
+      const matrix = args?.[0];
+      if (Array.isArray(matrix) && matrix.length === 6) {
+        ctm = multiplyTransforms(ctm, matrix as TransformMatrix);
+      }
+    } else if (ops.paintImageOps.includes(fn)) {
+      const corners: [number, number][] = [
+        [ctm[4], ctm[5]],
+        [ctm[0] + ctm[4], ctm[1] + ctm[5]],
+        [ctm[2] + ctm[4], ctm[3] + ctm[5]],
+        [ctm[0] + ctm[2] + ctm[4], ctm[1] + ctm[3] + ctm[5]],
+      ];
+      const region = pdfPointsToPixelRect(corners, geometry);
+
+      if (region.width * region.height >= MIN_IMAGE_REGION_AREA) {
+        regions.push(region);
+      }
+    }
+  }
+
+  return regions;
+}
+
+/**
+ * Check whether a block is mostly covered by any of the given blocks
+ */
+export function overlapsExistingText(bbox: BoundingBox, existing: TextBlock[]): boolean {
+  const area = bbox.width * bbox.height;
+  if (area === 0) return false;
+
+  return existing.some(({ bbox: other }) => {
+    const x1 = Math.max(bbox.x, other.x);
+    const y1 = Math.max(bbox.y, other.y);
+    const x2 = Math.min(bbox.x + bbox.width, other.x + other.width);
+    const y2 = Math.min(bbox.y + bbox.height, other.y + other.height);
+
+    return x2 > x1 && y2 > y1 && (x2 - x1) * (y2 - y1) > area * 0.5;
+  });
+}
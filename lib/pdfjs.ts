@@ -0,0 +1,47 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFDocumentProxy, PDFPageProxy, PageViewport } from 'pdfjs-dist';
+import type { RenderTask } from 'pdfjs-dist/types/src/display/api';
+import { PageCanvasContext, pdfCanvasFactory } from '@/lib/canvas';
+import {
+  PDFJS_CMAP_PATH,
+  PDFJS_STANDARD_FONT_PATH,
+  PDFJS_WORKER_PATH,
+} from '@/lib/vendorAssets';
+
+// Configure PDF.js worker, served from the app's own origin. The pipeline
+// runs in a Web Worker, which has no window.
+if (typeof self !== 'undefined') {
+  pdfjsLib.GlobalWorkerOptions.workerSrc = PDFJS_WORKER_PATH;
+}
+
+/**
+ * Open a PDF from its bytes or a (blob) URL
+ * Character maps and standard fonts are loaded locally too, and eval is
+ * off so the document works under a strict Content-Security-Policy.
+ * Scratch canvases are OffscreenCanvases, so pages render without a DOM;
+ * without a document, embedded fonts are drawn as paths instead of being
+ * loaded as FontFaces.
+ */
+export function loadPdfDocument(source: ArrayBuffer | Uint8Array | string): Promise<PDFDocumentProxy> {
+  return pdfjsLib.getDocument({
+    ...(typeof source === 'string' ? { url: source } : { data: source }),
+    cMapUrl: PDFJS_CMAP_PATH,
+    cMapPacked: true,
+    standardFontDataUrl: PDFJS_STANDARD_FONT_PATH,
+    isEvalSupported: false,
+    canvasFactory: pdfCanvasFactory,
+    disableFontFace: typeof document === 'undefined',
+  }).promise;
+}
+
+/**
+ * Render a page onto a canvas. pdf.js draws on OffscreenCanvas contexts as
+ * well, although its types only name the DOM one.
+ */
+export function renderPdfPage(
+  page: PDFPageProxy,
+  context: PageCanvasContext,
+  viewport: PageViewport
+): RenderTask {
+  return page.render({ canvasContext: context as CanvasRenderingContext2D, viewport });
+}
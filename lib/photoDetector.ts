@@ -0,0 +1,379 @@
+import { BoundingBox, Detection, DetectionOptions, DetectionResult, OCRResult, PageImage } from '@/types';
+import { renderPages } from '@/lib/pageRenderer';
+import { throwIfCancelled } from '@/lib/cancellation';
+
+/**
+ * Longest side (in pixels) pages are downscaled to before analysis
+ */
+const ANALYSIS_MAX_DIMENSION = 640;
+
+/**
+ * Analysis grid cell size as a fraction of the longest image side
+ */
+const CELL_FRACTION = 1 / 80;
+
+/**
+ * Fraction of skin-toned pixels for a grid cell to count as skin
+ */
+const MIN_CELL_SKIN_RATIO = 0.4;
+
+/**
+ * Smallest face candidate, in grid cells
+ */
+const MIN_FACE_CELLS = 6;
+
+/**
+ * Largest face candidate, as a fraction of the image area
+ * (larger skin-toned areas are backgrounds, not faces)
+ */
+const MAX_FACE_AREA_RATIO = 0.2;
+
+/**
+ * Minimum luminance standard deviation inside a face candidate
+ * Eyes, brows and hair give faces texture that flat beige backgrounds lack.
+ */
+const MIN_FACE_TEXTURE = 12;
+
+/**
+ * How far the photo extends beyond the face, as a fraction of the face size
+ * ID photos are head-and-shoulders portraits with some margin above the hair.
+ */
+const PORTRAIT_MARGINS = { left: 0.4, right: 0.4, top: 0.6, bottom: 1.0 };
+
+/**
+ * Confidence by detection method
+ */
+const PHOTO_CONFIDENCE = {
+  faceDetector: 0.85,
+  heuristic: 0.6,
+};
+
+/**
+ * Minimal typing for the Shape Detection API's FaceDetector, which is only
+ * available in some browsers
+ */
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly;
+}
+
+type FaceDetectorConstructor = new (options?: {
+  fastMode?: boolean;
+  maxDetectedFaces?: number;
+}) => {
+  detect(image: ImageBitmapSource): Promise<DetectedFace[]>;
+};
+
+/**
+ * PhotoDetector finds portrait photographs on ID documents
+ * Photos carry no text, so this runs on the rendered page pixels rather
+ * than on OCR results. The browser's FaceDetector is used when available,
+ * with a skin-tone heuristic as the fallback.
+ */
+export class PhotoDetector {
+  /**
+   * Detect portrait photos on every page of a document
+   * Boxes are returned in page pixel space, like text detections.
+   * Cancellation is checked between pages.
+   */
+  async detectPhotos(
+    file: File,
+    ocrResult: OCRResult,
+    options: DetectionOptions = {}
+  ): Promise<DetectionResult> {
+    const detections: Detection[] = [];
+    const renderedPages = await renderPages(file, ocrResult.pages, ANALYSIS_MAX_DIMENSION, options.signal);
+
+    for (const rendered of renderedPages) {
+      throwIfCancelled(options.signal);
+      const page = ocrResult.pages.find(p => p.pageNumber === rendered.pageNumber);
+      if (!page) continue;
+
+      const textBoxes = page.textBlocks.map(block => scaleBox(block.bbox, rendered.scale));
+      const photos = await this.findPhotos(rendered.imageData, textBoxes);
+
+      for (const photo of photos) {
+        detections.push({
+          type: 'PHOTO',
+          value: '',
+          confidence: photo.confidence,
+          bbox: scaleBox(photo.bbox, 1 / rendered.scale),
+          pageNumber: page.pageNumber,
+        });
+      }
+    }
+
+    return { detections };
+  }
+
+  /**
+   * Find photos in a rendered page, preferring the browser's face detector
+   */
+  private async findPhotos(
+    imageData: ImageData,
+    textBoxes: BoundingBox[]
+  ): Promise<{ bbox: BoundingBox; confidence: number }[]> {
+    // globalThis is the window, or self in the pipeline worker
+    const { FaceDetector } = globalThis as unknown as { FaceDetector?: FaceDetectorConstructor };
+
+    if (FaceDetector) {
+      try {
+        const faces = await new FaceDetector({ fastMode: true }).detect(imageData);
+
+        // No faces may just mean a small or faded photo, so fall back to the heuristic
+        if (faces.length > 0) {
+          const portraits = faces.map(face =>
+            expandToPortrait(
+              {
+                x: face.boundingBox.x,
+                y: face.boundingBox.y,
+                width: face.boundingBox.width,
+                height: face.boundingBox.height,
+              },
+              imageData.width,
+              imageData.height
+            )
+          );
+
+          return mergeOverlappingBoxes(portraits).map(bbox => ({
+            bbox,
+            confidence: PHOTO_CONFIDENCE.faceDetector,
+          }));
+        }
+      } catch (error) {
+        console.error('FaceDetector failed, falling back to heuristic photo detection:', error);
+      }
+    }
+
+    return findPhotoRegions(imageData, textBoxes).map(bbox => ({
+      bbox,
+      confidence: PHOTO_CONFIDENCE.heuristic,
+    }));
+  }
+}
+
+/**
+ * Find portrait photos in an image using skin-tone analysis
+ * The image is divided into a grid; connected groups of skin-toned cells
+ * that are face-shaped, textured and free of OCR text are treated as faces
+ * and expanded to the surrounding portrait. Boxes are in image pixels.
+ */
+export function findPhotoRegions(image: PageImage, textBoxes: BoundingBox[]): BoundingBox[] {
+  const cellSize = Math.max(2, Math.round(Math.max(image.width, image.height) * CELL_FRACTION));
+  const cols = Math.ceil(image.width / cellSize);
+  const rows = Math.ceil(image.height / cellSize);
+
+  // Photos never contain recognised text, so cells under text are excluded
+  const textCells = new Uint8Array(cols * rows);
+  for (const box of textBoxes) {
+    const startCol = Math.max(0, Math.floor(box.x / cellSize));
+    const endCol = Math.min(cols - 1, Math.floor((box.x + box.width) / cellSize));
+    const startRow = Math.max(0, Math.floor(box.y / cellSize));
+    const endRow = Math.min(rows - 1, Math.floor((box.y + box.height) / cellSize));
+
+    for (let row = startRow; row <= endRow; row++) {
+      for (let col = startCol; col <= endCol; col++) {
+        textCells[row * cols + col] = 1;
+      }
+    }
+  }
+
+  const skinCells = new Uint8Array(cols * rows);
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const index = row * cols + col;
+      if (textCells[index]) continue;
+
+      const cell = {
+        x: col * cellSize,
+        y: row * cellSize,
+        width: Math.min(cellSize, image.width - col * cellSize),
+        height: Math.min(cellSize, image.height - row * cellSize),
+      };
+      if (getSkinRatio(image, cell) >= MIN_CELL_SKIN_RATIO) {
+        skinCells[index] = 1;
+      }
+    }
+  }
+
+  const portraits: BoundingBox[] = [];
+  const visited = new Uint8Array(cols * rows);
+
+  for (let start = 0; start < skinCells.length; start++) {
+    if (!skinCells[start] || visited[start]) continue;
+
+    // Flood fill the connected group of skin cells
+    let count = 0;
+    let minCol = cols, maxCol = 0, minRow = rows, maxRow = 0;
+    const stack = [start];
+    visited[start] = 1;
+
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      const col = index % cols;
+      const row = Math.floor(index / cols);
+
+      count++;
+      minCol = Math.min(minCol, col);
+      maxCol = Math.max(maxCol, col);
+      minRow = Math.min(minRow, row);
+      maxRow = Math.max(maxRow, row);
+
+      const neighbours = [
+        col > 0 ? index - 1 : -1,
+        col < cols - 1 ? index + 1 : -1,
+        row > 0 ? index - cols : -1,
+        row < rows - 1 ? index + cols : -1,
+      ];
+      for (const neighbour of neighbours) {
+        if (neighbour >= 0 && skinCells[neighbour] && !visited[neighbour]) {
+          visited[neighbour] = 1;
+          stack.push(neighbour);
+        }
+      }
+    }
+
+    const face: BoundingBox = {
+      x: minCol * cellSize,
+      y: minRow * cellSize,
+      width: Math.min(image.width, (maxCol + 1) * cellSize) - minCol * cellSize,
+      height: Math.min(image.height, (maxRow + 1) * cellSize) - minRow * cellSize,
+    };
+
+    const aspectRatio = face.width / face.height;
+    const fillRatio = count / ((maxCol - minCol + 1) * (maxRow - minRow + 1));
+
+    if (
+      count >= MIN_FACE_CELLS &&
+      aspectRatio >= 0.5 && aspectRatio <= 1.5 &&
+      fillRatio >= 0.4 &&
+      face.width * face.height <= image.width * image.height * MAX_FACE_AREA_RATIO &&
+      getLuminanceDeviation(image, face) >= MIN_FACE_TEXTURE
+    ) {
+      portraits.push(expandToPortrait(face, image.width, image.height));
+    }
+  }
+
+  return mergeOverlappingBoxes(portraits);
+}
+
+/**
+ * Whether a colour falls in the skin-tone range of the YCbCr colour space,
+ * which holds across skin tones better than RGB thresholds
+ */
+function isSkinTone(r: number, g: number, b: number): boolean {
+  const y = 0.299 * r + 0.587 * g + 0.114 * b;
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+
+  return y > 60 && cb >= 77 && cb <= 127 && cr >= 138 && cr <= 173;
+}
+
+/**
+ * Fraction of skin-toned pixels in a region
+ */
+function getSkinRatio(image: PageImage, region: BoundingBox): number {
+  let skin = 0;
+
+  for (let y = region.y; y < region.y + region.height; y++) {
+    for (let x = region.x; x < region.x + region.width; x++) {
+      const offset = (y * image.width + x) * 4;
+      if (isSkinTone(image.data[offset], image.data[offset + 1], image.data[offset + 2])) {
+        skin++;
+      }
+    }
+  }
+
+  return skin / (region.width * region.height);
+}
+
+/**
+ * Standard deviation of luminance in a region
+ */
+function getLuminanceDeviation(image: PageImage, region: BoundingBox): number {
+  let sum = 0;
+  let sumOfSquares = 0;
+
+  for (let y = region.y; y < region.y + region.height; y++) {
+    for (let x = region.x; x < region.x + region.width; x++) {
+      const offset = (y * image.width + x) * 4;
+      const luminance =
+        0.299 * image.data[offset] + 0.587 * image.data[offset + 1] + 0.114 * image.data[offset + 2];
+      sum += luminance;
+      sumOfSquares += luminance * luminance;
+    }
+  }
+
+  const count = region.width * region.height;
+  const mean = sum / count;
+  return Math.sqrt(Math.max(0, sumOfSquares / count - mean * mean));
+}
+
+/**
+ * Grow a face box to the head-and-shoulders portrait around it,
+ * clipped to the image
+ */
+function expandToPortrait(face: BoundingBox, width: number, height: number): BoundingBox {
+  const left = Math.max(0, face.x - face.width * PORTRAIT_MARGINS.left);
+  const top = Math.max(0, face.y - face.height * PORTRAIT_MARGINS.top);
+  const right = Math.min(width, face.x + face.width * (1 + PORTRAIT_MARGINS.right));
+  const bottom = Math.min(height, face.y + face.height * (1 + PORTRAIT_MARGINS.bottom));
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Merge boxes that overlap until none do
+ */
+function mergeOverlappingBoxes(boxes: BoundingBox[]): BoundingBox[] {
+  const merged: BoundingBox[] = [];
+
+  for (const box of boxes) {
+    let current = box;
+    let overlapping = merged.findIndex(other => boxesOverlap(current, other));
+
+    // A merged box can grow into others, so keep absorbing until it stops
+    while (overlapping !== -1) {
+      const other = merged.splice(overlapping, 1)[0];
+      const x = Math.min(current.x, other.x);
+      const y = Math.min(current.y, other.y);
+      current = {
+        x,
+        y,
+        width: Math.max(current.x + current.width, other.x + other.width) - x,
+        height: Math.max(current.y + current.height, other.y + other.height) - y,
+      };
+      overlapping = merged.findIndex(other => boxesOverlap(current, other));
+    }
+
+    merged.push(current);
+  }
+
+  return merged;
+}
+
+function boxesOverlap(a: BoundingBox, b: BoundingBox): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width &&
+    a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+/**
+ * Scale a box between page pixel space and rendered pixels
+ */
+function scaleBox(bbox: BoundingBox, scale: number): BoundingBox {
+  return {
+    x: bbox.x * scale,
+    y: bbox.y * scale,
+    width: bbox.width * scale,
+    height: bbox.height * scale,
+  };
+}
+
+// Export a singleton instance
+let photoDetectorInstance: PhotoDetector | null = null;
+
+export function getPhotoDetector(): PhotoDetector {
+  if (!photoDetectorInstance) {
+    photoDetectorInstance = new PhotoDetector();
+  }
+  return photoDetectorInstance;
+}
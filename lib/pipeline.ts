@@ -0,0 +1,161 @@
+import {
+  ChecksumStrictness,
+  Detection,
+  DetectionResult,
+  OCRLanguage,
+  OCRResult,
+  PageProgress,
+  RedactedDocument,
+  RedactionOptions,
+  VerificationResult,
+} from '@/types';
+import { getOCRService } from '@/lib/ocrService';
+import { getPatternDetector } from '@/lib/patternDetector';
+import { getPhotoDetector } from '@/lib/photoDetector';
+import { getBarcodeScanner } from '@/lib/barcodeScanner';
+import { getRedactionEngine } from '@/lib/redactionEngine';
+import { throwIfCancelled } from '@/lib/cancellation';
+import { findLeaks, getPrintedTexts } from '@/lib/verification';
+import { isRedactedByDefault } from '@/lib/reviewItems';
+
+/**
+ * Pipeline stages reported while a document is processed
+ */
+export type PipelineStage = 'extracting' | 'detecting' | 'redacting' | 'verifying';
+
+export interface PipelineOptions {
+  language?: OCRLanguage;
+  aadhaarStrictness?: ChecksumStrictness; // Defaults to the pattern detector's own setting
+  onStage?: (stage: PipelineStage) => void;
+  onProgress?: (stage: PipelineStage, progress: PageProgress) => void; // Page progress of OCR and redaction
+  signal?: AbortSignal; // Aborting stops the pipeline with a CancelledError
+}
+
+export interface DocumentDetections {
+  ocrResult: OCRResult;
+  detections: DetectionResult;
+}
+
+export interface ProcessedDocument extends DocumentDetections {
+  document: RedactedDocument;
+  unredacted: Detection[]; // Found with too little confidence to redact without review
+}
+
+/**
+ * Read a document and find everything to redact in it
+ */
+export async function detectDocument(
+  file: File,
+  options: PipelineOptions = {}
+): Promise<DocumentDetections> {
+  const { signal } = options;
+
+  throwIfCancelled(signal);
+  options.onStage?.('extracting');
+  const ocrResult = await getOCRService().extractText(file, {
+    language: options.language,
+    onProgress: progress => options.onProgress?.('extracting', progress),
+    signal,
+  });
+
+  if (!ocrResult.success || ocrResult.error) {
+    throw new Error(ocrResult.error || 'OCR extraction failed');
+  }
+
+  throwIfCancelled(signal);
+  options.onStage?.('detecting');
+  const textDetections = getPatternDetector().detectPII(ocrResult, {
+    signal,
+    aadhaarStrictness: options.aadhaarStrictness,
+  });
+
+  // Photos and QR codes carry no text, so they are found in the page images instead
+  throwIfCancelled(signal);
+  const photoDetections = await getPhotoDetector().detectPhotos(file, ocrResult, { signal });
+  throwIfCancelled(signal);
+  const codeDetections = await getBarcodeScanner().scanDocument(file, ocrResult, { signal });
+
+  throwIfCancelled(signal);
+  return {
+    ocrResult,
+    detections: {
+      detections: [
+        ...textDetections.detections,
+        ...photoDetections.detections,
+        ...codeDetections.detections,
+      ],
+    },
+  };
+}
+
+/**
+ * Redact the given detections from a document
+ */
+export async function redactDocument(
+  file: File,
+  detections: DetectionResult,
+  options: PipelineOptions & Omit<RedactionOptions, 'onProgress'> = {}
+): Promise<RedactedDocument> {
+  throwIfCancelled(options.signal);
+  options.onStage?.('redacting');
+  return getRedactionEngine().applyRedactions(file, detections, {
+    mode: options.mode,
+    aadhaarMasking: options.aadhaarMasking,
+    style: options.style,
+    sanitization: options.sanitization,
+    pages: options.pages,
+    onProgress: progress => options.onProgress?.('redacting', progress),
+    signal: options.signal,
+  });
+}
+
+/**
+ * Read a redacted document again and report the redacted PII that can
+ * still be detected in it
+ *
+ * @param redacted - The redacted document
+ * @param detections - The detections that were redacted
+ */
+export async function verifyDocument(
+  redacted: Blob,
+  detections: DetectionResult,
+  options: PipelineOptions & Pick<RedactionOptions, 'aadhaarMasking' | 'style'> = {}
+): Promise<VerificationResult> {
+  const { signal } = options;
+
+  throwIfCancelled(signal);
+  options.onStage?.('verifying');
+  const file = new File([redacted], 'redacted', { type: redacted.type });
+  const ocrResult = await getOCRService().extractText(file, {
+    language: options.language,
+    onProgress: progress => options.onProgress?.('verifying', progress),
+    signal,
+  });
+
+  if (!ocrResult.success || ocrResult.error) {
+    throw new Error(ocrResult.error || 'OCR extraction failed');
+  }
+
+  throwIfCancelled(signal);
+  const found = getPatternDetector().detectPII(ocrResult, { signal });
+  const printedTexts = getPrintedTexts(detections, options.style, options.aadhaarMasking);
+
+  return { leaks: findLeaks(detections, found, printedTexts) };
+}
+
+/**
+ * Detect and redact a document without review: every detection that review
+ * would enable is redacted, and returned as the document's detections. The
+ * rest are returned as unredacted, so they can be reported.
+ */
+export async function processDocument(
+  file: File,
+  options: PipelineOptions & Omit<RedactionOptions, 'pages' | 'onProgress'> = {}
+): Promise<ProcessedDocument> {
+  const { ocrResult, detections: found } = await detectDocument(file, options);
+  const detections = { detections: found.detections.filter(isRedactedByDefault) };
+  const unredacted = found.detections.filter(detection => !isRedactedByDefault(detection));
+  const document = await redactDocument(file, detections, { ...options, pages: ocrResult.pages });
+
+  return { ocrResult, detections, document, unredacted };
+}
@@ -0,0 +1,282 @@
+import { DetectionResult, RedactedDocument, VerificationResult } from '@/types';
+import type {
+  DocumentDetections,
+  PipelineOptions,
+  ProcessedDocument,
+} from '@/lib/pipeline';
+import type {
+  PipelineRequest,
+  PipelineResponse,
+  RedactedBytes,
+  RedactionSettings,
+} from '@/lib/pipelineMessages';
+import { CancelledError } from '@/lib/cancellation';
+import { getDetectorRegistry } from '@/lib/detectorRegistry';
+
+interface PendingRequest {
+  options: PipelineOptions;
+  resolve: (response: PipelineResponse) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Whether the pipeline can run in a Web Worker: it needs OffscreenCanvas
+ * to render pages there
+ */
+export function isPipelineWorkerSupported(): boolean {
+  return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+}
+
+/**
+ * Rebuild a redacted document from the bytes sent by the worker
+ */
+function toRedactedDocument({ bytes, mimeType, sanitization }: RedactedBytes): RedactedDocument {
+  const blob = new Blob([bytes], { type: mimeType });
+  return { blob, mimeType, previewUrl: URL.createObjectURL(blob), sanitization };
+}
+
+/**
+ * PipelineClient runs the document pipeline in a Web Worker so that the
+ * page stays responsive, and mirrors the functions of lib/pipeline
+ * Browsers without OffscreenCanvas run the pipeline on the main thread.
+ */
+export class PipelineClient {
+  private worker: Worker | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 1;
+
+  /**
+   * Read a document and find everything to redact in it
+   */
+  async detectDocument(file: File, options: PipelineOptions = {}): Promise<DocumentDetections> {
+    if (!isPipelineWorkerSupported()) {
+      const pipeline = await import('@/lib/pipeline');
+      return pipeline.detectDocument(file, options);
+    }
+
+    const response = await this.send(
+      {
+        type: 'detect',
+        id: this.nextId++,
+        file,
+        language: options.language,
+        aadhaarStrictness: options.aadhaarStrictness,
+      },
+      options
+    );
+    if (response.type !== 'detected') {
+      throw new Error(`Unexpected pipeline response: ${response.type}`);
+    }
+    return response.result;
+  }
+
+  /**
+   * Redact the given detections from a document
+   */
+  async redactDocument(
+    file: File,
+    detections: DetectionResult,
+    options: PipelineOptions & RedactionSettings = {}
+  ): Promise<RedactedDocument> {
+    if (!isPipelineWorkerSupported()) {
+      const pipeline = await import('@/lib/pipeline');
+      return pipeline.redactDocument(file, detections, options);
+    }
+
+    const { mode, aadhaarMasking, style, sanitization, pages } = options;
+    const response = await this.send(
+      {
+        type: 'redact',
+        id: this.nextId++,
+        file,
+        detections,
+        settings: { mode, aadhaarMasking, style, sanitization, pages },
+      },
+      options
+    );
+    if (response.type !== 'redacted') {
+      throw new Error(`Unexpected pipeline response: ${response.type}`);
+    }
+    return toRedactedDocument(response.document);
+  }
+
+  /**
+   * Detect and redact a document without review: every detection that
+   * review would enable is redacted, and the rest are returned as unredacted
+   */
+  async processDocument(
+    file: File,
+    options: PipelineOptions & Omit<RedactionSettings, 'pages'> = {}
+  ): Promise<ProcessedDocument> {
+    if (!isPipelineWorkerSupported()) {
+      const pipeline = await import('@/lib/pipeline');
+      return pipeline.processDocument(file, options);
+    }
+
+    const { mode, aadhaarMasking, style, sanitization } = options;
+    const response = await this.send(
+      {
+        type: 'process',
+        id: this.nextId++,
+        file,
+        language: options.language,
+        aadhaarStrictness: options.aadhaarStrictness,
+        settings: { mode, aadhaarMasking, style, sanitization },
+      },
+      options
+    );
+    if (response.type !== 'processed') {
+      throw new Error(`Unexpected pipeline response: ${response.type}`);
+    }
+    return { ...response.result, document: toRedactedDocument(response.document) };
+  }
+
+  /**
+   * Read a redacted document again and report the redacted PII still
+   * detectable in it
+   */
+  async verifyDocument(
+    redacted: Blob,
+    detections: DetectionResult,
+    options: PipelineOptions & Pick<RedactionSettings, 'aadhaarMasking' | 'style'> = {}
+  ): Promise<VerificationResult> {
+    if (!isPipelineWorkerSupported()) {
+      const pipeline = await import('@/lib/pipeline');
+      return pipeline.verifyDocument(redacted, detections, options);
+    }
+
+    const { aadhaarMasking, style } = options;
+    const response = await this.send(
+      {
+        type: 'verify',
+        id: this.nextId++,
+        redacted,
+        detections,
+        language: options.language,
+        settings: { aadhaarMasking, style },
+      },
+      options
+    );
+    if (response.type !== 'verified') {
+      throw new Error(`Unexpected pipeline response: ${response.type}`);
+    }
+    return response.result;
+  }
+
+  /**
+   * Stop the worker, failing any request still running
+   * A new worker starts with the next request.
+   */
+  terminate(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.rejectAll(new CancelledError());
+  }
+
+  /**
+   * Post a request and resolve with its final response
+   * Stage and progress messages are passed to the request's callbacks;
+   * aborting the signal cancels the request in the worker.
+   */
+  private send(request: PipelineRequest, options: PipelineOptions): Promise<PipelineResponse> {
+    const { signal } = options;
+    if (signal?.aborted) {
+      return Promise.reject(new CancelledError());
+    }
+
+    const worker = this.getWorker();
+    const { id } = request;
+
+    return new Promise((resolve, reject) => {
+      const handleAbort = () => {
+        this.pending.delete(id);
+        worker.postMessage({ type: 'cancel', id } satisfies PipelineRequest);
+        reject(new CancelledError());
+      };
+      signal?.addEventListener('abort', handleAbort, { once: true });
+
+      const settle = () => signal?.removeEventListener('abort', handleAbort);
+      this.pending.set(id, {
+        options,
+        resolve: response => {
+          settle();
+          resolve(response);
+        },
+        reject: error => {
+          settle();
+          reject(error);
+        },
+      });
+
+      worker.postMessage(request);
+    });
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      const worker = new Worker(new URL('./pipelineWorker.ts', import.meta.url));
+      worker.addEventListener('message', (event: MessageEvent<PipelineResponse>) =>
+        this.handleResponse(event.data)
+      );
+      worker.addEventListener('error', (event) => {
+        console.error('Pipeline worker failed:', event.message);
+        this.worker?.terminate();
+        this.worker = null;
+        this.rejectAll(new Error('Document processing stopped unexpectedly. Please try again.'));
+      });
+      this.worker = worker;
+    }
+    return this.worker;
+  }
+
+  private handleResponse(response: PipelineResponse): void {
+    // Review and preview label detections from this thread's registry
+    if (response.type === 'detectors') {
+      getDetectorRegistry().describeDetectors(response.detectors);
+      return;
+    }
+
+    // Responses to cancelled requests are dropped
+    const request = this.pending.get(response.id);
+    if (!request) {
+      return;
+    }
+
+    switch (response.type) {
+      case 'stage':
+        request.options.onStage?.(response.stage);
+        return;
+
+      case 'progress':
+        request.options.onProgress?.(response.stage, response.progress);
+        return;
+
+      case 'failed':
+        this.pending.delete(response.id);
+        request.reject(response.cancelled ? new CancelledError() : new Error(response.error));
+        return;
+
+      default:
+        this.pending.delete(response.id);
+        request.resolve(response);
+    }
+  }
+
+  private rejectAll(error: Error): void {
+    const pending = Array.from(this.pending.values());
+    this.pending.clear();
+    for (const request of pending) {
+      request.reject(error);
+    }
+  }
+}
+
+// Export a singleton instance
+let pipelineClientInstance: PipelineClient | null = null;
+
+export function getPipelineClient(): PipelineClient {
+  if (!pipelineClientInstance) {
+    pipelineClientInstance = new PipelineClient();
+  }
+  return pipelineClientInstance;
+}
@@ -0,0 +1,87 @@
+import {
+  ChecksumStrictness,
+  DetectionResult,
+  DetectorInfo,
+  OCRLanguage,
+  PageProgress,
+  RedactionOptions,
+  SanitizationRecord,
+  VerificationResult,
+} from '@/types';
+import type { DocumentDetections, PipelineStage, ProcessedDocument } from '@/lib/pipeline';
+
+/**
+ * Redaction settings sent to the pipeline worker
+ */
+export type RedactionSettings = Pick<
+  RedactionOptions,
+  'mode' | 'aadhaarMasking' | 'style' | 'sanitization' | 'pages'
+>;
+
+/**
+ * A redacted document as it crosses between threads. Blob URLs belong to
+ * the thread that created them, so the bytes are sent instead.
+ */
+export interface RedactedBytes {
+  bytes: ArrayBuffer;
+  mimeType: string;
+  sanitization?: SanitizationRecord[];
+}
+
+/**
+ * Messages from the app to the pipeline worker. Every request carries an id
+ * that the worker's responses repeat.
+ */
+export type PipelineRequest =
+  | {
+      type: 'detect';
+      id: number;
+      file: File;
+      language?: OCRLanguage;
+      aadhaarStrictness?: ChecksumStrictness;
+    }
+  | {
+      type: 'redact';
+      id: number;
+      file: File;
+      detections: DetectionResult;
+      settings: RedactionSettings;
+    }
+  | {
+      type: 'process';
+      id: number;
+      file: File;
+      language?: OCRLanguage;
+      aadhaarStrictness?: ChecksumStrictness;
+      settings: Omit<RedactionSettings, 'pages'>;
+    }
+  | {
+      type: 'verify';
+      id: number;
+      redacted: Blob;
+      detections: DetectionResult;
+      language?: OCRLanguage;
+      settings: Pick<RedactionSettings, 'aadhaarMasking' | 'style'>;
+    }
+  | { type: 'cancel'; id: number };
+
+/**
+ * Messages from the pipeline worker to the app
+ * A request ends with exactly one detected, redacted, processed, verified or
+ * failed message; stage and progress messages may come before it. The
+ * worker's first message, before any response, describes its detectors.
+ */
+export type PipelineResponse =
+  | { type: 'detectors'; detectors: DetectorInfo[] }
+  | { type: 'stage'; id: number; stage: PipelineStage }
+  | { type: 'progress'; id: number; stage: PipelineStage; progress: PageProgress }
+  | { type: 'detected'; id: number; result: DocumentDetections }
+  | { type: 'redacted'; id: number; document: RedactedBytes }
+  | {
+      type: 'processed';
+      id: number;
+      result: Omit<ProcessedDocument, 'document'>;
+      document: RedactedBytes;
+    }
+  | { type: 'verified'; id: number; result: VerificationResult }
+  | { type: 'failed'; id: number; error: string; cancelled: boolean };
@@ -0,0 +1,131 @@
+import { RedactedDocument } from '@/types';
+import {
+  PipelineOptions,
+  detectDocument,
+  processDocument,
+  redactDocument,
+  verifyDocument,
+} from '@/lib/pipeline';
+import { isCancelledError } from '@/lib/cancellation';
+import { getDetectorRegistry } from '@/lib/detectorRegistry';
+import { getPatternDetector } from '@/lib/patternDetector';
+import type { PipelineRequest, PipelineResponse, RedactedBytes } from '@/lib/pipelineMessages';
+
+/**
+ * Pipeline worker entry point: OCR, detection and redaction run here, off
+ * the main thread, and the app talks to it through PipelineClient
+ */
+
+// Aborts each request still running, by request id
+const controllers = new Map<number, AbortController>();
+
+// Detection runs here, so the app labels detections with this registry's
+// detectors
+getPatternDetector();
+post({ type: 'detectors', detectors: getDetectorRegistry().getDetectorInfo() });
+
+self.addEventListener('message', (event: MessageEvent<PipelineRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    controllers.get(request.id)?.abort();
+    return;
+  }
+
+  void handleRequest(request);
+});
+
+function post(response: PipelineResponse, transfer: Transferable[] = []): void {
+  self.postMessage(response, { transfer });
+}
+
+/**
+ * Read a redacted document's bytes and revoke the preview URL made here
+ */
+async function toBytes(document: RedactedDocument): Promise<RedactedBytes> {
+  URL.revokeObjectURL(document.previewUrl);
+  return {
+    bytes: await document.blob.arrayBuffer(),
+    mimeType: document.mimeType,
+    sanitization: document.sanitization,
+  };
+}
+
+async function handleRequest(request: Exclude<PipelineRequest, { type: 'cancel' }>): Promise<void> {
+  const { id } = request;
+  const controller = new AbortController();
+  controllers.set(id, controller);
+
+  const options: PipelineOptions = {
+    onStage: stage => post({ type: 'stage', id, stage }),
+    onProgress: (stage, progress) => post({ type: 'progress', id, stage, progress }),
+    signal: controller.signal,
+  };
+
+  try {
+    switch (request.type) {
+      case 'detect': {
+        const result = await detectDocument(request.file, {
+          ...options,
+          language: request.language,
+          aadhaarStrictness: request.aadhaarStrictness,
+        });
+        post({ type: 'detected', id, result });
+        break;
+      }
+
+      case 'redact': {
+        const redacted = await redactDocument(request.file, request.detections, {
+          ...options,
+          ...request.settings,
+        });
+        const document = await toBytes(redacted);
+        post({ type: 'redacted', id, document }, [document.bytes]);
+        break;
+      }
+
+      case 'process': {
+        const processed = await processDocument(request.file, {
+          ...options,
+          ...request.settings,
+          language: request.language,
+          aadhaarStrictness: request.aadhaarStrictness,
+        });
+        const document = await toBytes(processed.document);
+        post(
+          {
+            type: 'processed',
+            id,
+            result: {
+              ocrResult: processed.ocrResult,
+              detections: processed.detections,
+              unredacted: processed.unredacted,
+            },
+            document,
+          },
+          [document.bytes]
+        );
+        break;
+      }
+
+      case 'verify': {
+        const result = await verifyDocument(request.redacted, request.detections, {
+          ...options,
+          ...request.settings,
+          language: request.language,
+        });
+        post({ type: 'verified', id, result });
+        break;
+      }
+    }
+  } catch (error) {
+    post({
+      type: 'failed',
+      id,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred',
+      cancelled: isCancelledError(error),
+    });
+  } finally {
+    controllers.delete(id);
+  }
+}
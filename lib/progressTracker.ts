@@ -0,0 +1,59 @@
+import { PageProgress } from '@/types';
+
+/**
+ * ProgressTracker combines the progress of pages processed in parallel into
+ * one figure for the document
+ * Listeners are only called when the whole percentage changes or a page
+ * completes, so fine-grained sources (such as Tesseract) do not flood them.
+ */
+export class ProgressTracker {
+  private pageProgress = new Map<number, number>();
+  private completedPages = 0;
+  private lastPercent = -1;
+
+  constructor(
+    private readonly totalPages: number,
+    private readonly onProgress?: (progress: PageProgress) => void
+  ) {}
+
+  /**
+   * Record how far (0-1) a page has got
+   */
+  update(pageNumber: number, fraction: number): void {
+    this.pageProgress.set(pageNumber, Math.min(1, Math.max(0, fraction)));
+    this.report(false);
+  }
+
+  /**
+   * Record that a page is done
+   */
+  complete(pageNumber: number): void {
+    this.pageProgress.set(pageNumber, 1);
+    this.completedPages++;
+    this.report(true);
+  }
+
+  private report(force: boolean): void {
+    if (!this.onProgress || this.totalPages === 0) {
+      return;
+    }
+
+    let sum = 0;
+    this.pageProgress.forEach(fraction => {
+      sum += fraction;
+    });
+    const progress = Math.min(1, sum / this.totalPages);
+    const percent = Math.floor(progress * 100);
+
+    if (!force && percent === this.lastPercent) {
+      return;
+    }
+
+    this.lastPercent = percent;
+    this.onProgress({
+      completedPages: this.completedPages,
+      totalPages: this.totalPages,
+      progress,
+    });
+  }
+}
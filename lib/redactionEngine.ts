@@ -1,5 +1,117 @@
-import { DetectionResult, RedactedDocument } from '@/types';
-import { PDFDocument, rgb } from 'pdf-lib';
+import {
+  AadhaarMaskingOptions,
+  BoundingBox,
+  Detection,
+  DetectionResult,
+  PageGeometry,
+  RedactedDocument,
+  RedactionFont,
+  RedactionMode,
+  RedactionOptions,
+  RedactionStyle,
+} from '@/types';
+import {
+  PDFArray,
+  PDFContentStream,
+  PDFDict,
+  PDFDocument,
+  PDFFont,
+  PDFName,
+  PDFPage,
+  PDFRawStream,
+  PDFRef,
+  RGB,
+  StandardFonts,
+  decodePDFRawStream,
+  degrees,
+  rgb,
+} from 'pdf-lib';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import {
+  convertPixelRect,
+  getRenderedSize,
+  normalizeRotation,
+  pixelRectToPdfRect,
+  pixelToPdfPoint,
+} from '@/lib/coordinateTransform';
+import { RedactionRegion, getRedactionRegions } from '@/lib/redactionRegions';
+import { loadPdfDocument, renderPdfPage } from '@/lib/pdfjs';
+import { ProgressTracker } from '@/lib/progressTracker';
+import { raceWithSignal, throwIfCancelled } from '@/lib/cancellation';
+import {
+  DEFAULT_REDACTION_STYLE,
+  getLabelLayout,
+  getStyleLabel,
+  paintRegions,
+  parseHexColor,
+  requiresRasterizing,
+} from '@/lib/redactionStyles';
+import {
+  canvasToBlob,
+  createCanvas,
+  getContext2d,
+  loadImageBitmap,
+  releaseCanvas,
+} from '@/lib/canvas';
+import { DEFAULT_SANITIZATION_POLICY, sanitizePdf } from '@/lib/pdfSanitizer';
+import { stripImageMetadata } from '@/lib/imageMetadata';
+
+/**
+ * Scale used when rasterizing redacted PDF pages (2.0 = 144 DPI)
+ */
+const RASTER_SCALE = 2.0;
+
+/**
+ * Default redaction mode: remove the underlying content rather than cover it
+ */
+const DEFAULT_REDACTION_MODE: RedactionMode = 'rasterize';
+
+/**
+ * Standard PDF fonts for labels drawn in overlay mode
+ */
+const PDF_LABEL_FONTS: Record<RedactionFont, StandardFonts> = {
+  'sans-serif': StandardFonts.HelveticaBold,
+  serif: StandardFonts.TimesRomanBold,
+  monospace: StandardFonts.CourierBold,
+};
+
+/**
+ * Resource categories whose entries content streams call by name
+ */
+const NAMED_RESOURCES = ['Font', 'XObject', 'ExtGState', 'ColorSpace', 'Pattern', 'Shading', 'Properties'];
+
+/**
+ * Names (e.g. /Im0) used in the content streams of a page, or null when a
+ * stream cannot be decoded
+ */
+function getContentNames(page: PDFPage): Set<string> | null {
+  const { context } = page.doc;
+  const contents = page.node.Contents();
+  const streams = contents instanceof PDFArray
+    ? contents.asArray().map(entry => context.lookup(entry))
+    : [contents];
+  const names = new Set<string>();
+  const decoder = new TextDecoder('latin1');
+
+  for (const stream of streams) {
+    let bytes: Uint8Array;
+    if (stream instanceof PDFContentStream) {
+      bytes = stream.getUnencodedContents();
+    } else if (stream instanceof PDFRawStream) {
+      try {
+        bytes = decodePDFRawStream(stream).decode();
+      } catch {
+        return null;
+      }
+    } else {
+      continue;
+    }
+    for (const name of decoder.decode(bytes).match(/\/[^\s/\[\]()<>{}%]+/g) ?? []) {
+      names.add(name);
+    }
+  }
+  return names;
+}
 
 /**
  * RedactionEngine class for applying redactions to documents
@@ -11,169 +123,179 @@ export class RedactionEngine {
    */
   async applyRedactions(
     file: File,
-    detections: DetectionResult
+    detections: DetectionResult,
+    options: RedactionOptions = {}
   ): Promise<RedactedDocument> {
     const mimeType = file.type;
+    throwIfCancelled(options.signal);
     
     // Route based on file type
     if (mimeType === 'application/pdf') {
-      return this.redactPDF(file, detections);
+      return this.redactPDF(file, detections, options);
     } else if (mimeType.startsWith('image/')) {
-      return this.redactImage(file, detections);
+      const redacted = await this.redactImage(
+        file,
+        detections,
+        options.aadhaarMasking,
+        options.style ?? DEFAULT_REDACTION_STYLE
+      );
+      if (options.signal?.aborted) {
+        URL.revokeObjectURL(redacted.previewUrl);
+        throwIfCancelled(options.signal);
+      }
+      new ProgressTracker(1, options.onProgress).complete(1);
+      return redacted;
     } else {
       throw new Error(`Unsupported file type: ${mimeType}`);
     }
   }
 
   /**
-   * Redact an image file using Canvas API
+   * Redact an image file on an offscreen canvas
+   * The image is drawn upright, as it was read by OCR, and written without
+   * EXIF orientation, GPS, device or text metadata.
    */
   private async redactImage(
     file: File,
-    detections: DetectionResult
+    detections: DetectionResult,
+    aadhaarMasking: AadhaarMaskingOptions | undefined,
+    style: RedactionStyle
   ): Promise<RedactedDocument> {
-    return new Promise((resolve, reject) => {
-      // Create an image element to load the file
-      const img = new Image();
-      
-      img.onload = () => {
-        try {
-          // Create a canvas with the same dimensions as the image
-          const canvas = document.createElement('canvas');
-          canvas.width = img.width;
-          canvas.height = img.height;
-          
-          const ctx = canvas.getContext('2d');
-          if (!ctx) {
-            reject(new Error('Failed to get canvas context'));
-            return;
-          }
-          
-          // Draw the original image onto the canvas
-          ctx.drawImage(img, 0, 0);
-          
-          // Collect all detections from all types (only page 1 for images)
-          const allDetections = [
-            ...detections.aadhaarNumbers,
-            ...detections.panNumbers,
-            ...detections.phoneNumbers,
-            ...detections.addresses,
-          ].filter(detection => detection.pageNumber === 1);
-          
-          // Apply black rectangles over detected regions
-          ctx.fillStyle = 'rgb(0, 0, 0)'; // Pure black
-          
-          for (const detection of allDetections) {
-            const { x, y, width, height } = detection.bbox;
-            ctx.fillRect(x, y, width, height);
-          }
-          
-          // Convert canvas to blob
-          canvas.toBlob((blob) => {
-            if (!blob) {
-              reject(new Error('Failed to create blob from canvas'));
-              return;
-            }
-            
-            // Create preview URL
-            const previewUrl = URL.createObjectURL(blob);
-            
-            resolve({
-              blob,
-              mimeType: file.type,
-              previewUrl,
-            });
-          }, file.type);
-          
-        } catch (error) {
-          reject(error);
-        }
-      };
-      
-      img.onerror = () => {
-        reject(new Error('Failed to load image'));
-      };
-      
-      // Load the image from the file
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        if (e.target?.result) {
-          img.src = e.target.result as string;
-        } else {
-          reject(new Error('Failed to read file'));
-        }
-      };
-      reader.onerror = () => {
-        reject(new Error('Failed to read file'));
+    const img = await loadImageBitmap(file);
+
+    // Create a canvas with the same dimensions as the image
+    const canvas = createCanvas(img.width, img.height);
+
+    try {
+      const ctx = getContext2d(canvas);
+
+      // Draw the original image onto the canvas
+      ctx.drawImage(img, 0, 0);
+
+      // Collect all detections from all types (only page 1 for images)
+      const allDetections = detections.detections.filter(
+        detection => detection.pageNumber === 1
+      );
+
+      // Paint over detected regions
+      paintRegions(ctx, getRedactionRegions(allDetections, aadhaarMasking), style);
+
+      // Convert canvas to blob, making sure no metadata is carried over
+      const blob = await stripImageMetadata(await canvasToBlob(canvas, file.type));
+
+      // Create preview URL
+      const previewUrl = URL.createObjectURL(blob);
+
+      return {
+        blob,
+        mimeType: file.type,
+        previewUrl,
       };
-      reader.readAsDataURL(file);
-    });
+    } finally {
+      img.close();
+      releaseCanvas(canvas);
+    }
   }
 
   /**
    * Redact a PDF file using pdf-lib
+   * In 'rasterize' mode every page with detections is replaced by a flattened
+   * image of itself, so nothing under a redaction box can be selected or extracted.
+   * Styles that need the page pixels (blur, pixelate) always rasterize.
+   * Pages without detections keep their content; after rasterizing, each
+   * page keeps only the resources its content uses.
+   * Detection boxes are in OCR pixel space and are mapped through each page's
+   * geometry; pages without OCR geometry are treated as unscaled points.
+   * Progress counts the pages with detections, the only ones redacted.
+   * Cancellation is checked before each page and stops page rendering.
+   * Metadata, annotations, form fields, attachments, scripts and bookmarks
+   * are then removed or scrubbed by the sanitisation policy.
    */
   private async redactPDF(
     file: File,
-    detections: DetectionResult
+    detections: DetectionResult,
+    options: RedactionOptions
   ): Promise<RedactedDocument> {
+    const { pages: ocrPages = [], aadhaarMasking, onProgress, signal } = options;
+    const style = options.style ?? DEFAULT_REDACTION_STYLE;
+    const mode = requiresRasterizing(style) ? 'rasterize' : options.mode ?? DEFAULT_REDACTION_MODE;
+
     // Read the PDF file as array buffer
     const arrayBuffer = await file.arrayBuffer();
     
-    // Load the PDF document
-    const pdfDoc = await PDFDocument.load(arrayBuffer);
+    // Load the PDF document, keeping its properties for the sanitisation policy
+    const pdfDoc = await PDFDocument.load(arrayBuffer, { updateMetadata: false });
     const pages = pdfDoc.getPages();
     
-    // Collect all detections
-    const allDetections = [
-      ...detections.aadhaarNumbers,
-      ...detections.panNumbers,
-      ...detections.phoneNumbers,
-      ...detections.addresses,
-    ];
-    
     // Group detections by page
-    const detectionsByPage = new Map<number, typeof allDetections>();
-    for (const detection of allDetections) {
+    const detectionsByPage = new Map<number, Detection[]>();
+    for (const detection of detections.detections) {
       const pageDetections = detectionsByPage.get(detection.pageNumber) || [];
       pageDetections.push(detection);
       detectionsByPage.set(detection.pageNumber, pageDetections);
     }
     
-    // Apply redactions to each page
-    for (const [pageNumber, pageDetections] of Array.from(detectionsByPage.entries())) {
+    // PDF.js is only needed to render pages in rasterize mode.
+    // It takes ownership of the buffer it is given, so hand it a copy.
+    const renderDoc = mode === 'rasterize' && detectionsByPage.size > 0
+      ? await loadPdfDocument(new Uint8Array(arrayBuffer.slice(0)))
+      : null;
+    
+    // Mask tokens and labels drawn as PDF text need embedded fonts
+    const maskFont = !renderDoc && aadhaarMasking?.printMaskToken
+      ? await pdfDoc.embedFont(StandardFonts.HelveticaBold)
+      : null;
+    const labelFont = !renderDoc && style.type === 'label'
+      ? await pdfDoc.embedFont(PDF_LABEL_FONTS[style.font])
+      : null;
+    
+    const pagesToRedact = Array.from(detectionsByPage.entries()).filter(
       // Page numbers are 1-indexed in our system, but 0-indexed in pdf-lib
-      const pageIndex = pageNumber - 1;
-      
-      if (pageIndex < 0 || pageIndex >= pages.length) {
-        continue; // Skip invalid page numbers
-      }
-      
-      const page = pages[pageIndex];
-      const { height } = page.getSize();
-      
-      // Draw black rectangles over detected regions
-      for (const detection of pageDetections) {
-        const { x, y, width, height: bboxHeight } = detection.bbox;
+      ([pageNumber]) => pageNumber >= 1 && pageNumber <= pages.length
+    );
+    const tracker = new ProgressTracker(pagesToRedact.length, onProgress);
+    
+    try {
+      // Apply redactions to each page
+      for (const [pageNumber, pageDetections] of pagesToRedact) {
+        throwIfCancelled(signal);
+        const pageIndex = pageNumber - 1;
         
-        // PDF coordinates are from bottom-left, but our OCR coordinates are from top-left
-        // So we need to flip the y-coordinate
-        const pdfY = height - y - bboxHeight;
+        const page = pages[pageIndex];
+        const geometry =
+          ocrPages.find(p => p.pageNumber === pageNumber)?.geometry ??
+          this.getUnscaledGeometry(page);
+        const regions = getRedactionRegions(pageDetections, aadhaarMasking);
         
-        // Draw a filled black rectangle
-        page.drawRectangle({
-          x,
-          y: pdfY,
-          width,
-          height: bboxHeight,
-          color: rgb(0, 0, 0), // Pure black
-          opacity: 1,
-        });
+        if (renderDoc) {
+          await this.rasterizePage(pdfDoc, renderDoc, pageIndex, regions, geometry, style, signal);
+        } else {
+          this.drawOverlayRectangles(page, regions, geometry, style, { maskFont, labelFont });
+        }
+        
+        tracker.complete(pageNumber);
+      }
+    } finally {
+      if (renderDoc) {
+        await renderDoc.destroy();
       }
     }
+
+    if (renderDoc) {
+      this.isolatePageResources(pdfDoc);
+    }
     
-    // Save the modified PDF
-    const pdfBytes = await pdfDoc.save();
+    // Strip what the pages' redactions do not reach
+    throwIfCancelled(signal);
+    const sanitization = sanitizePdf(
+      pdfDoc,
+      options.sanitization ?? DEFAULT_SANITIZATION_POLICY,
+      detections.detections.map(detection => detection.value)
+    );
+
+    // Save the modified PDF. Field appearances are left to viewers: pdf-lib
+    // would redraw them from a form the sanitiser may have removed.
+    const pdfBytes = await pdfDoc.save({ updateFieldAppearances: false });
     
     // Create a blob from the PDF bytes
     // Convert to a standard Uint8Array to ensure compatibility
@@ -187,7 +309,224 @@ export class RedactionEngine {
       blob,
       mimeType: 'application/pdf',
       previewUrl,
+      sanitization,
+    };
+  }
+
+  /**
+   * Geometry for a page that has no OCR data: boxes are taken as points
+   * from the top-left of the visible (rotated) page
+   */
+  private getUnscaledGeometry(page: PDFPage): PageGeometry {
+    const cropBox = page.getCropBox();
+    return {
+      scale: 1,
+      rotation: page.getRotation().angle,
+      viewBox: [cropBox.x, cropBox.y, cropBox.x + cropBox.width, cropBox.y + cropBox.height],
+    };
+  }
+
+  /**
+   * Draw filled rectangles on top of the existing page content
+   * Labelled regions (masked Aadhaar digits) are whited out and the mask
+   * token printed over them; in the label style every other region gets
+   * the style's label.
+   */
+  private drawOverlayRectangles(
+    page: PDFPage,
+    regions: RedactionRegion[],
+    geometry: PageGeometry,
+    style: RedactionStyle,
+    fonts: { maskFont: PDFFont | null; labelFont: PDFFont | null }
+  ): void {
+    const fillColor = rgb(...parseHexColor(style.fillColor));
+    const labelColor = rgb(...parseHexColor(style.labelColor));
+
+    for (const region of regions) {
+      // Map from top-left pixel space into PDF user space, accounting for
+      // render scale, page rotation and the page box origin
+      const { x, y, width, height } = pixelRectToPdfRect(region.bbox, geometry);
+      const maskToken = fonts.maskFont ? region.label : undefined;
+      
+      // Draw a filled rectangle
+      page.drawRectangle({
+        x,
+        y,
+        width,
+        height,
+        color: maskToken ? rgb(1, 1, 1) : fillColor,
+        opacity: 1,
+      });
+      
+      if (maskToken && fonts.maskFont) {
+        this.drawLabel(page, region.bbox, maskToken, geometry, fonts.maskFont, rgb(0, 0, 0));
+      } else if (fonts.labelFont) {
+        const label = getStyleLabel(region.type, style);
+        this.drawLabel(page, region.bbox, label, geometry, fonts.labelFont, labelColor);
+      }
+    }
+  }
+
+  /**
+   * Print a label over a region so it reads upright on the displayed page
+   */
+  private drawLabel(
+    page: PDFPage,
+    bbox: BoundingBox,
+    label: string,
+    geometry: PageGeometry,
+    font: PDFFont,
+    color: RGB
+  ): void {
+    const { fontSize, baseline } = getLabelLayout(bbox, label, (size) => font.widthOfTextAtSize(label, size));
+    const [x, y] = pixelToPdfPoint([bbox.x, baseline], geometry);
+    
+    page.drawText(label, {
+      x,
+      y,
+      size: fontSize / geometry.scale,
+      font,
+      color,
+      rotate: degrees(normalizeRotation(geometry.rotation)),
+    });
+  }
+
+  /**
+   * Remove everything a page draws or shows: its content streams (deleted
+   * from the file unless another page uses them), resources, annotations
+   * and thumbnail. pdf-lib writes every object it holds, referenced or not.
+   */
+  private clearPage(pdfDoc: PDFDocument, page: PDFPage): void {
+    const { context } = pdfDoc;
+    const contentRefs = (target: PDFPage): PDFRef[] => {
+      const contents = target.node.get(PDFName.of('Contents'));
+      const entries = contents instanceof PDFArray ? contents.asArray() : [contents];
+      return entries.filter((entry): entry is PDFRef => entry instanceof PDFRef);
+    };
+
+    const oldContents = contentRefs(page);
+    const pageParts = [
+      'Contents', 'Annots', 'Thumb', 'PieceInfo', 'Metadata', 'Group', 'BleedBox', 'TrimBox', 'ArtBox',
+    ];
+    for (const key of pageParts) {
+      page.node.delete(PDFName.of(key));
+    }
+    page.node.set(PDFName.of('Resources'), context.obj({}));
+
+    const usedElsewhere = new Set(
+      pdfDoc.getPages().filter(other => other !== page).flatMap(contentRefs).map(ref => ref.toString())
+    );
+    for (const ref of oldContents) {
+      if (!usedElsewhere.has(ref.toString())) {
+        context.delete(ref);
+      }
+    }
+  }
+
+  /**
+   * Give every page its own resources, holding only what its content
+   * streams use, and drop resources inherited from the page tree
+   * Resources shared with a rasterized page, or inherited by it, would
+   * otherwise keep the original page's images and fonts in the file. Pages
+   * whose content cannot be read keep all of their resources.
+   */
+  private isolatePageResources(pdfDoc: PDFDocument): void {
+    const { context } = pdfDoc;
+
+    for (const page of pdfDoc.getPages()) {
+      const resources = page.node.Resources();
+      const names = getContentNames(page);
+      const own = context.obj({});
+
+      resources?.entries().forEach(([key, value]) => {
+        const entries = context.lookupMaybe(value, PDFDict);
+        if (!names || !entries || !NAMED_RESOURCES.includes(key.decodeText())) {
+          own.set(key, value);
+          return;
+        }
+
+        const used = context.obj({});
+        entries.entries().forEach(([name, entry]) => {
+          if (names.has(name.asString())) {
+            used.set(name, entry);
+          }
+        });
+        own.set(key, used);
+      });
+      page.node.set(PDFName.of('Resources'), own);
+    }
+
+    for (const page of pdfDoc.getPages()) {
+      page.node.Parent()?.ascend(node => node.delete(PDFName.of('Resources')));
+    }
+  }
+
+  /**
+   * Replace a page with a redacted raster image of itself
+   * The page keeps no text layer, annotations or form fields.
+   */
+  private async rasterizePage(
+    pdfDoc: PDFDocument,
+    renderDoc: PDFDocumentProxy,
+    pageIndex: number,
+    regions: RedactionRegion[],
+    geometry: PageGeometry,
+    style: RedactionStyle,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const renderPage = await renderDoc.getPage(pageIndex + 1);
+    const rasterGeometry: PageGeometry = {
+      scale: RASTER_SCALE,
+      rotation: renderPage.rotate,
+      viewBox: renderPage.view as PageGeometry['viewBox'],
     };
+    const viewport = renderPage.getViewport({ scale: RASTER_SCALE });
+    const pageSize = getRenderedSize({ ...rasterGeometry, scale: 1 });
+    
+    const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+    
+    try {
+      const ctx = getContext2d(canvas);
+      
+      // Flatten the page onto a white background
+      ctx.fillStyle = 'rgb(255, 255, 255)';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      const renderTask = renderPdfPage(renderPage, ctx, viewport);
+      await raceWithSignal(renderTask.promise, signal, () => renderTask.cancel());
+      
+      // Burn the redactions into the pixels
+      paintRegions(
+        ctx,
+        regions.map(region => ({
+          ...region,
+          bbox: convertPixelRect(region.bbox, geometry, rasterGeometry),
+        })),
+        style
+      );
+      
+      const blob = await canvasToBlob(canvas, 'image/png');
+      
+      const image = await pdfDoc.embedPng(await blob.arrayBuffer());
+      
+      // Replace the page's content with the flattened image. The page object
+      // itself is kept, so bookmarks, links and the structure tree that point
+      // at it do not keep the original content alive.
+      const page = pdfDoc.getPage(pageIndex);
+      this.clearPage(pdfDoc, page);
+      page.setMediaBox(0, 0, pageSize.width, pageSize.height);
+      page.setCropBox(0, 0, pageSize.width, pageSize.height);
+      page.setRotation(degrees(0));
+      page.drawImage(image, {
+        x: 0,
+        y: 0,
+        width: pageSize.width,
+        height: pageSize.height,
+      });
+    } finally {
+      // Release the canvas backing store
+      releaseCanvas(canvas);
+      renderPage.cleanup();
+    }
   }
 }
 
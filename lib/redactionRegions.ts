@@ -0,0 +1,35 @@
+import { AadhaarMaskingOptions, BoundingBox, Detection, DetectionType } from '@/types';
+import { getAadhaarMaskRegion } from '@/lib/aadhaarMasking';
+
+/**
+ * An area to paint over, in page pixel space
+ * Regions with a mask token are whited out with the token printed over them,
+ * whatever the redaction style.
+ */
+export interface RedactionRegion {
+  bbox: BoundingBox;
+  type: DetectionType; // Type of the detection the region covers, for labels
+  label?: string; // Mask token
+}
+
+/**
+ * Turn detections into the regions to paint
+ * Detections with tight regions (e.g. one per address line) are covered by
+ * those instead of their bounding box. With Aadhaar masking on, Aadhaar
+ * detections with character boxes are reduced to their leading digits.
+ */
+export function getRedactionRegions(
+  detections: Detection[],
+  aadhaarMasking?: AadhaarMaskingOptions
+): RedactionRegion[] {
+  return detections.flatMap(detection => {
+    const maskRegion =
+      aadhaarMasking && detection.type === 'AADHAAR' ? getAadhaarMaskRegion(detection) : null;
+
+    if (maskRegion) {
+      return [aadhaarMasking?.printMaskToken ? maskRegion : { bbox: maskRegion.bbox, type: maskRegion.type }];
+    }
+
+    return (detection.regions ?? [detection.bbox]).map(bbox => ({ bbox, type: detection.type }));
+  });
+}
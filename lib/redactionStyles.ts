@@ -0,0 +1,192 @@
+import { BoundingBox, DetectionType, RedactionFont, RedactionStyle, RedactionStyleType } from '@/types';
+import { PageCanvasContext, createCanvas, getContext2d, releaseCanvas } from '@/lib/canvas';
+import type { RedactionRegion } from '@/lib/redactionRegions';
+
+/**
+ * Solid black boxes
+ */
+export const DEFAULT_REDACTION_STYLE: RedactionStyle = {
+  type: 'solid',
+  fillColor: '#000000',
+  labelColor: '#ffffff',
+  labelText: '[{type} REDACTED]',
+  font: 'sans-serif',
+  strength: 6,
+};
+
+/**
+ * Styles offered in the review step, in display order
+ */
+export const REDACTION_STYLES: { type: RedactionStyleType; label: string }[] = [
+  { type: 'solid', label: 'Solid' },
+  { type: 'label', label: 'Labelled' },
+  { type: 'blur', label: 'Blur' },
+  { type: 'pixelate', label: 'Pixelate' },
+];
+
+export const REDACTION_FONTS: { font: RedactionFont; label: string }[] = [
+  { font: 'sans-serif', label: 'Sans-serif' },
+  { font: 'serif', label: 'Serif' },
+  { font: 'monospace', label: 'Monospace' },
+];
+
+/**
+ * Blur and pixelation strengths. Every region covers an identifier, so even
+ * the weakest strength reduces its text to at most two blocks per line:
+ * finer blocks leave digits readable, or recoverable by trying each one.
+ */
+export const MIN_REDACTION_STRENGTH = 5;
+export const MAX_REDACTION_STRENGTH = 10;
+
+/**
+ * Whether PDF pages must be rasterized to apply the style. Blur and
+ * pixelation work on the page pixels, and the standard PDF fonts used for
+ * overlay labels only cover Latin-1.
+ */
+export function requiresRasterizing(style: RedactionStyle): boolean {
+  if (style.type === 'blur' || style.type === 'pixelate') {
+    return true;
+  }
+  return style.type === 'label' && /[^\x20-\x7e\xa0-\xff]/.test(style.labelText);
+}
+
+/**
+ * The label printed over a region of the given detection type
+ */
+export function getStyleLabel(type: DetectionType, style: RedactionStyle): string {
+  return style.labelText.replace(/\{type\}/g, type.replace(/_/g, ' '));
+}
+
+/**
+ * Colour as red, green and blue channels from 0 to 1
+ * Anything but #rrggbb is read as black, so a bad value never leaves a
+ * region uncovered.
+ */
+export function parseHexColor(color: string): [number, number, number] {
+  const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color.trim());
+  if (!match) {
+    return [0, 0, 0];
+  }
+  return [match[1], match[2], match[3]].map(channel => parseInt(channel, 16) / 255) as [
+    number,
+    number,
+    number,
+  ];
+}
+
+/**
+ * Size of the blocks a region is reduced to when blurred or pixelated, in
+ * the pixels it is painted in. Strength 10 reduces it to a single row.
+ */
+export function getObscureBlockSize(height: number, strength: number): number {
+  const clamped = Math.min(MAX_REDACTION_STRENGTH, Math.max(MIN_REDACTION_STRENGTH, strength));
+  return Math.max(2, (height * clamped) / MAX_REDACTION_STRENGTH);
+}
+
+/**
+ * Font size and baseline that fit a label inside a box (in pixels)
+ */
+export function getLabelLayout(
+  bbox: BoundingBox,
+  label: string,
+  measureWidth: (fontSize: number) => number
+): { fontSize: number; baseline: number } {
+  const fontSize = Math.min(bbox.height * 0.8, bbox.width / Math.max(1e-6, measureWidth(1)));
+  return { fontSize, baseline: bbox.y + (bbox.height + fontSize * 0.7) / 2 };
+}
+
+/**
+ * Paint regions onto a canvas in the given style
+ * Mask tokens are always printed in black on white.
+ */
+export function paintRegions(
+  ctx: PageCanvasContext,
+  regions: RedactionRegion[],
+  style: RedactionStyle = DEFAULT_REDACTION_STYLE
+): void {
+  for (const region of regions) {
+    const { bbox } = region;
+
+    if (region.label) {
+      fillBox(ctx, bbox, '#ffffff');
+      printLabel(ctx, bbox, region.label, '#000000', 'sans-serif');
+      continue;
+    }
+
+    switch (style.type) {
+      case 'blur':
+      case 'pixelate':
+        obscureBox(ctx, bbox, style);
+        break;
+      case 'label':
+        fillBox(ctx, bbox, style.fillColor);
+        printLabel(ctx, bbox, getStyleLabel(region.type, style), style.labelColor, style.font);
+        break;
+      default:
+        fillBox(ctx, bbox, style.fillColor);
+    }
+  }
+}
+
+function toCssColor(color: string): string {
+  const [r, g, b] = parseHexColor(color).map(channel => Math.round(channel * 255));
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+function fillBox(ctx: PageCanvasContext, bbox: BoundingBox, color: string): void {
+  ctx.fillStyle = toCssColor(color);
+  ctx.fillRect(bbox.x, bbox.y, bbox.width, bbox.height);
+}
+
+function printLabel(
+  ctx: PageCanvasContext,
+  bbox: BoundingBox,
+  label: string,
+  color: string,
+  font: RedactionFont
+): void {
+  ctx.font = `bold 1px ${font}`;
+  const unitWidth = ctx.measureText(label).width;
+  const { fontSize, baseline } = getLabelLayout(bbox, label, (size) => unitWidth * size);
+
+  ctx.fillStyle = toCssColor(color);
+  ctx.font = `bold ${fontSize}px ${font}`;
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillText(label, bbox.x, baseline);
+}
+
+/**
+ * Blur or pixelate a box by shrinking its pixels to a few blocks and
+ * scaling them back up, smoothly for blur and as squares for pixelation
+ */
+function obscureBox(ctx: PageCanvasContext, bbox: BoundingBox, style: RedactionStyle): void {
+  const { canvas } = ctx;
+  const x = Math.max(0, Math.floor(bbox.x));
+  const y = Math.max(0, Math.floor(bbox.y));
+  const width = Math.min(canvas.width, Math.ceil(bbox.x + bbox.width)) - x;
+  const height = Math.min(canvas.height, Math.ceil(bbox.y + bbox.height)) - y;
+  if (width <= 0 || height <= 0) {
+    return;
+  }
+
+  const blockSize = getObscureBlockSize(height, style.strength);
+  const reduced = createCanvas(
+    Math.max(1, Math.round(width / blockSize)),
+    Math.max(1, Math.round(height / blockSize))
+  );
+
+  try {
+    const reducedCtx = getContext2d(reduced);
+    reducedCtx.imageSmoothingEnabled = true;
+    reducedCtx.imageSmoothingQuality = 'high';
+    reducedCtx.drawImage(canvas, x, y, width, height, 0, 0, reduced.width, reduced.height);
+
+    ctx.save();
+    ctx.imageSmoothingEnabled = style.type === 'blur';
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(reduced, 0, 0, reduced.width, reduced.height, x, y, width, height);
+    ctx.restore();
+  } finally {
+    releaseCanvas(reduced);
+  }
+}
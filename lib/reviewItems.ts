@@ -0,0 +1,83 @@
+import { BoundingBox, Detection, DetectionResult, ReviewItem } from '@/types';
+
+/**
+ * Smallest box (in page pixels) kept when drawing or resizing
+ */
+export const MIN_REVIEW_BOX_SIZE = 4;
+
+/**
+ * Detections less certain than this, such as 12-digit numbers that fail the
+ * Aadhaar checksum, are not redacted unless ticked in review
+ */
+export const MIN_DEFAULT_CONFIDENCE = 0.6;
+
+/**
+ * Whether a detection is redacted without being ticked in review
+ */
+export function isRedactedByDefault(detection: Detection): boolean {
+  return detection.confidence >= MIN_DEFAULT_CONFIDENCE;
+}
+
+/**
+ * Wrap every detection in a review item; low-confidence ones start disabled
+ */
+export function createReviewItems(detections: DetectionResult): ReviewItem[] {
+  return detections.detections.map((detection, index) => ({
+    id: `detection-${index + 1}`,
+    detection,
+    enabled: isRedactedByDefault(detection),
+    source: detection.type === 'MANUAL' ? 'manual' : 'detected',
+  }));
+}
+
+/**
+ * Create a review item for a box drawn by the user
+ */
+export function createManualReviewItem(
+  items: ReviewItem[],
+  pageNumber: number,
+  bbox: BoundingBox
+): ReviewItem {
+  // Ids must stay unique after removals, so continue from the highest one in use
+  const lastId = items
+    .filter(item => item.source === 'manual')
+    .reduce((max, item) => Math.max(max, Number(item.id.replace(/\D/g, '')) || 0), 0);
+
+  return {
+    id: `manual-${lastId + 1}`,
+    detection: {
+      type: 'MANUAL',
+      value: '',
+      confidence: 1,
+      bbox: normalizeBoundingBox(bbox),
+      pageNumber,
+    },
+    enabled: true,
+    source: 'manual',
+  };
+}
+
+/**
+ * Build the detection result to redact from the enabled review items
+ */
+export function buildDetectionResult(items: ReviewItem[]): DetectionResult {
+  return {
+    detections: items.filter(item => item.enabled).map(item => item.detection),
+  };
+}
+
+/**
+ * Ensure a box has a positive width and height (boxes dragged up or left
+ * start with negative dimensions) and is not smaller than the minimum size
+ */
+export function normalizeBoundingBox(bbox: BoundingBox): BoundingBox {
+  const x = bbox.width < 0 ? bbox.x + bbox.width : bbox.x;
+  const y = bbox.height < 0 ? bbox.y + bbox.height : bbox.y;
+
+  return {
+    x,
+    y,
+    width: Math.max(Math.abs(bbox.width), MIN_REVIEW_BOX_SIZE),
+    height: Math.max(Math.abs(bbox.height), MIN_REVIEW_BOX_SIZE),
+  };
+}
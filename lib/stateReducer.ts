@@ -1,4 +1,12 @@
-import { ProcessingState, RedactedDocument, DetectionResult } from '@/types';
+import {
+  ProcessingState,
+  RedactedDocument,
+  DetectionResult,
+  OCRResult,
+  BoundingBox,
+  VerificationResult,
+} from '@/types';
+import { createManualReviewItem, createReviewItems, normalizeBoundingBox } from '@/lib/reviewItems';
 
 /**
  * Actions for the processing state reducer
@@ -7,23 +15,43 @@ export type ProcessingAction =
   | { type: 'START_UPLOAD' }
   | { type: 'UPDATE_UPLOAD_PROGRESS'; progress: number }
   | { type: 'START_EXTRACTING'; totalPages?: number }
-  | { type: 'UPDATE_EXTRACTING_PROGRESS'; currentPage: number; totalPages: number }
+  | { type: 'UPDATE_EXTRACTING_PROGRESS'; currentPage: number; totalPages: number; progress?: number }
   | { type: 'START_DETECTING' }
+  | { type: 'START_REVIEW'; ocrResult: OCRResult; detections: DetectionResult }
+  | { type: 'TOGGLE_REVIEW_ITEM'; id: string }
+  | { type: 'UPDATE_REVIEW_ITEM_BBOX'; id: string; bbox: BoundingBox }
+  | { type: 'ADD_MANUAL_REDACTION'; pageNumber: number; bbox: BoundingBox }
+  | { type: 'REMOVE_REVIEW_ITEM'; id: string }
   | { type: 'START_REDACTING'; totalPages?: number }
-  | { type: 'UPDATE_REDACTING_PROGRESS'; currentPage: number; totalPages: number }
-  | { type: 'COMPLETE'; result: RedactedDocument; detections: DetectionResult }
+  | { type: 'UPDATE_REDACTING_PROGRESS'; currentPage: number; totalPages: number; progress?: number }
+  | { type: 'START_VERIFYING'; totalPages?: number }
+  | { type: 'UPDATE_VERIFYING_PROGRESS'; currentPage: number; totalPages: number; progress?: number }
+  | {
+      type: 'COMPLETE';
+      result: RedactedDocument;
+      detections: DetectionResult;
+      verification?: VerificationResult;
+    }
   | { type: 'ERROR'; error: string }
+  | { type: 'CANCEL' }
   | { type: 'RESET' };
 
 /**
  * Processing state reducer
- * Manages state transitions: idle → uploading → extracting → detecting → redacting → complete
- * Also handles error states and reset
+ * Manages state transitions: idle → uploading → extracting → detecting → reviewing → redacting
+ * → (verifying →) complete
+ * Also handles error states, cancellation and reset
  */
 export function processingReducer(
   state: ProcessingState,
   action: ProcessingAction
 ): ProcessingState {
+  // A cancelled run can still report stages it reached before noticing;
+  // only a new upload or a reset leaves the cancelled state
+  if (state.status === 'cancelled' && action.type !== 'START_UPLOAD' && action.type !== 'RESET') {
+    return state;
+  }
+
   switch (action.type) {
     case 'START_UPLOAD':
       return { status: 'uploading', progress: 0 };
@@ -47,6 +75,7 @@ export function processingReducer(
           status: 'extracting',
           currentPage: action.currentPage,
           totalPages: action.totalPages,
+          progress: action.progress,
         };
       }
       return state;
@@ -54,6 +83,70 @@ export function processingReducer(
     case 'START_DETECTING':
       return { status: 'detecting' };
 
+    case 'START_REVIEW':
+      return {
+        status: 'reviewing',
+        ocrResult: action.ocrResult,
+        items: createReviewItems(action.detections),
+      };
+
+    case 'TOGGLE_REVIEW_ITEM':
+      if (state.status === 'reviewing') {
+        return {
+          ...state,
+          items: state.items.map(item =>
+            item.id === action.id ? { ...item, enabled: !item.enabled } : item
+          ),
+        };
+      }
+      return state;
+
+    case 'UPDATE_REVIEW_ITEM_BBOX':
+      if (state.status === 'reviewing') {
+        return {
+          ...state,
+          items: state.items.map(item =>
+            item.id === action.id
+              ? {
+                  ...item,
+                  // Character boxes and regions no longer line up with a resized box
+                  detection: {
+                    ...item.detection,
+                    bbox: normalizeBoundingBox(action.bbox),
+                    charBoxes: undefined,
+                    regions: undefined,
+                  },
+                }
+              : item
+          ),
+        };
+      }
+      return state;
+
+    case 'ADD_MANUAL_REDACTION':
+      if (state.status === 'reviewing') {
+        return {
+          ...state,
+          items: [
+            ...state.items,
+            createManualReviewItem(state.items, action.pageNumber, action.bbox),
+          ],
+        };
+      }
+      return state;
+
+    case 'REMOVE_REVIEW_ITEM':
+      if (state.status === 'reviewing') {
+        // Only manual boxes can be removed; detections are toggled off instead
+        return {
+          ...state,
+          items: state.items.filter(
+            item => item.id !== action.id || item.source !== 'manual'
+          ),
+        };
+      }
+      return state;
+
     case 'START_REDACTING':
       return {
         status: 'redacting',
@@ -67,6 +160,25 @@ export function processingReducer(
           status: 'redacting',
           currentPage: action.currentPage,
           totalPages: action.totalPages,
+          progress: action.progress,
+        };
+      }
+      return state;
+
+    case 'START_VERIFYING':
+      return {
+        status: 'verifying',
+        currentPage: action.totalPages ? 1 : undefined,
+        totalPages: action.totalPages,
+      };
+
+    case 'UPDATE_VERIFYING_PROGRESS':
+      if (state.status === 'verifying') {
+        return {
+          status: 'verifying',
+          currentPage: action.currentPage,
+          totalPages: action.totalPages,
+          progress: action.progress,
         };
       }
       return state;
@@ -76,11 +188,25 @@ export function processingReducer(
         status: 'complete',
         result: action.result,
         detections: action.detections,
+        verification: action.verification,
       };
 
     case 'ERROR':
       return { status: 'error', error: action.error };
 
+    case 'CANCEL':
+      // Only work in progress can be cancelled
+      if (
+        state.status === 'uploading' ||
+        state.status === 'extracting' ||
+        state.status === 'detecting' ||
+        state.status === 'redacting' ||
+        state.status === 'verifying'
+      ) {
+        return { status: 'cancelled' };
+      }
+      return state;
+
     case 'RESET':
       return { status: 'idle' };
 
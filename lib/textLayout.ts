@@ -0,0 +1,157 @@
+import { BoundingBox, TextBlock } from '@/types';
+
+/**
+ * Widest horizontal gap between words of the same line, relative to the
+ * line height. Wider gaps separate columns (e.g. the two sides of an ID card).
+ */
+const MAX_WORD_GAP_RATIO = 2.5;
+
+/**
+ * Widest vertical gap between consecutive lines of one text block, relative
+ * to the line height
+ */
+const MAX_LINE_GAP_RATIO = 1.2;
+
+/**
+ * Largest height ratio between consecutive lines of one text block; headings
+ * and fine print are set in a different size
+ */
+const MAX_LINE_HEIGHT_RATIO = 1.6;
+
+/**
+ * A line of words, in reading order
+ */
+export interface TextLine {
+  blocks: TextBlock[];
+  text: string;
+  bbox: BoundingBox;
+  paragraphId?: number;
+}
+
+/**
+ * Smallest box that contains every box
+ */
+export function unionBoxes(boxes: BoundingBox[]): BoundingBox {
+  if (boxes.length === 0) {
+    return { x: 0, y: 0, width: 0, height: 0 };
+  }
+
+  const minX = Math.min(...boxes.map(b => b.x));
+  const minY = Math.min(...boxes.map(b => b.y));
+  const maxX = Math.max(...boxes.map(b => b.x + b.width));
+  const maxY = Math.max(...boxes.map(b => b.y + b.height));
+
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Build a line from its words
+ */
+export function createTextLine(blocks: TextBlock[]): TextLine {
+  const sorted = [...blocks].sort((a, b) => a.bbox.x - b.bbox.x);
+
+  return {
+    blocks: sorted,
+    text: sorted.map(block => block.text).join(' '),
+    bbox: unionBoxes(sorted.map(block => block.bbox)),
+    paragraphId: sorted.find(block => block.paragraphId !== undefined)?.paragraphId,
+  };
+}
+
+/**
+ * Group words into lines, sorted top to bottom
+ * Words carrying an OCR line id are grouped by it. Others (e.g. from a PDF
+ * text layer) are grouped by geometry: words that overlap vertically and sit
+ * close together horizontally share a line.
+ */
+export function groupIntoLines(blocks: TextBlock[]): TextLine[] {
+  const byLineId = new Map<number, TextBlock[]>();
+  const unassigned: TextBlock[] = [];
+
+  for (const block of blocks) {
+    if (block.lineId === undefined) {
+      unassigned.push(block);
+    } else {
+      byLineId.set(block.lineId, [...(byLineId.get(block.lineId) ?? []), block]);
+    }
+  }
+
+  const geometricLines: TextBlock[][] = [];
+  const sortedByX = [...unassigned].sort((a, b) => a.bbox.x - b.bbox.x);
+
+  for (const block of sortedByX) {
+    const line = geometricLines.find(candidate => {
+      const last = candidate[candidate.length - 1].bbox;
+      const gap = block.bbox.x - (last.x + last.width);
+      const height = Math.min(last.height, block.bbox.height);
+
+      return (
+        verticalOverlap(last, block.bbox) >= height * 0.5 &&
+        gap <= Math.max(last.height, block.bbox.height) * MAX_WORD_GAP_RATIO
+      );
+    });
+
+    if (line) {
+      line.push(block);
+    } else {
+      geometricLines.push([block]);
+    }
+  }
+
+  return [...Array.from(byLineId.values()), ...geometricLines]
+    .map(createTextLine)
+    .sort((a, b) => a.bbox.y - b.bbox.y || a.bbox.x - b.bbox.x);
+}
+
+/**
+ * Whether next continues the same text block directly below previous
+ * Lines must be close vertically, share a column and a text size, and
+ * (when the OCR engine reports paragraphs) belong to the same paragraph.
+ */
+export function continuesBlock(previous: TextLine, next: TextLine): boolean {
+  if (
+    previous.paragraphId !== undefined &&
+    next.paragraphId !== undefined &&
+    previous.paragraphId !== next.paragraphId
+  ) {
+    return false;
+  }
+
+  const lineHeight = Math.max(previous.bbox.height, next.bbox.height);
+  const gap = next.bbox.y - (previous.bbox.y + previous.bbox.height);
+  if (gap < -lineHeight * 0.5 || gap > lineHeight * MAX_LINE_GAP_RATIO) {
+    return false;
+  }
+
+  const heightRatio = lineHeight / Math.max(1, Math.min(previous.bbox.height, next.bbox.height));
+  if (heightRatio > MAX_LINE_HEIGHT_RATIO) {
+    return false;
+  }
+
+  // Same column: left-aligned, or overlapping horizontally
+  const leftAligned = Math.abs(previous.bbox.x - next.bbox.x) <= lineHeight * MAX_WORD_GAP_RATIO;
+  return leftAligned || horizontalOverlap(previous.bbox, next.bbox) > 0;
+}
+
+/**
+ * The first line that continues the block below the given line
+ */
+export function findNextLine(lines: TextLine[], line: TextLine): TextLine | null {
+  return lines.find(candidate => candidate !== line && continuesBlock(line, candidate)) ?? null;
+}
+
+/**
+ * The last line that the given line continues from, above it
+ */
+export function findPreviousLine(lines: TextLine[], line: TextLine): TextLine | null {
+  const above = lines.filter(candidate => candidate !== line && continuesBlock(candidate, line));
+  return above.length > 0 ? above[above.length - 1] : null;
+}
+
+function verticalOverlap(a: BoundingBox, b: BoundingBox): number {
+  return Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+}
+
+function horizontalOverlap(a: BoundingBox, b: BoundingBox): number {
+  return Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+}
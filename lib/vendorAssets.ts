@@ -0,0 +1,20 @@
+/**
+ * Version of the vendored files, set by next.config.js from
+ * scripts/copy-assets.mjs; it changes whenever their packages are upgraded
+ */
+export const VENDOR_VERSION = process.env.VENDOR_VERSION;
+
+/**
+ * Where third-party workers, WASM cores and data files are served from
+ * They are copied from node_modules into public/vendor/<version> by
+ * scripts/copy-assets.mjs, so nothing is fetched from a CDN at runtime.
+ */
+export const VENDOR_PATH = `/vendor/${VENDOR_VERSION}`;
+
+export const PDFJS_WORKER_PATH = `${VENDOR_PATH}/pdfjs/pdf.worker.min.js`;
+export const PDFJS_CMAP_PATH = `${VENDOR_PATH}/pdfjs/cmaps/`;
+export const PDFJS_STANDARD_FONT_PATH = `${VENDOR_PATH}/pdfjs/standard_fonts/`;
+
+export const TESSERACT_WORKER_PATH = `${VENDOR_PATH}/tesseract/worker.min.js`;
+export const TESSERACT_CORE_PATH = `${VENDOR_PATH}/tesseract-core`;
+export const TESSDATA_PATH = `${VENDOR_PATH}/tessdata`;
@@ -0,0 +1,125 @@
+import {
+  AadhaarMaskingOptions,
+  BoundingBox,
+  Detection,
+  DetectionResult,
+  RedactionStyle,
+} from '@/types';
+import { getAadhaarMaskRegion } from '@/lib/aadhaarMasking';
+import { getStyleLabel } from '@/lib/redactionStyles';
+
+/**
+ * Boxes grow by this share of their height on every side when expanded
+ */
+const EXPANSION_RATIO = 0.2;
+
+/**
+ * Boxes grow by at least this many pixels on every side when expanded
+ */
+const MIN_EXPANSION = 2;
+
+/**
+ * Letters and digits of a value, for comparing values read by different
+ * OCR passes
+ */
+function normalizeValue(value: string): string {
+  return value.toUpperCase().replace(/[^0-9A-Z\u0900-\u0DFF]/g, '');
+}
+
+function intersects(a: BoundingBox, b: BoundingBox): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+/**
+ * Text the redaction itself prints over regions: labels such as
+ * "[PAN REDACTED]" and Aadhaar mask tokens
+ */
+export function getPrintedTexts(
+  detections: DetectionResult,
+  style?: RedactionStyle,
+  aadhaarMasking?: AadhaarMaskingOptions
+): string[] {
+  const texts = new Set<string>();
+
+  for (const detection of detections.detections) {
+    if (style?.type === 'label') {
+      texts.add(getStyleLabel(detection.type, style));
+    }
+    if (aadhaarMasking?.printMaskToken && detection.type === 'AADHAAR') {
+      const label = getAadhaarMaskRegion(detection)?.label;
+      if (label) texts.add(label);
+    }
+  }
+
+  return Array.from(texts);
+}
+
+/**
+ * Find the redacted PII that can still be read in a redacted document
+ * A detection in the output is a leak when it has the value of a redacted
+ * detection, or has the type of one and overlaps it. Detections made of
+ * text printed by the redaction are ignored.
+ *
+ * @param redacted - The detections that were redacted
+ * @param found - The detections made in the redacted document
+ * @param printedTexts - Text printed over regions, see getPrintedTexts
+ */
+export function findLeaks(
+  redacted: DetectionResult,
+  found: DetectionResult,
+  printedTexts: string[] = []
+): Detection[] {
+  const printed = printedTexts.map(normalizeValue);
+  const redactedValues = new Set(
+    redacted.detections.map(detection => normalizeValue(detection.value)).filter(Boolean)
+  );
+
+  return found.detections.filter(detection => {
+    const value = normalizeValue(detection.value);
+    if (value && printed.some(text => text.includes(value))) {
+      return false;
+    }
+    if (value && redactedValues.has(value)) {
+      return true;
+    }
+
+    return redacted.detections.some(
+      candidate =>
+        candidate.pageNumber === detection.pageNumber &&
+        candidate.type === detection.type &&
+        [candidate.bbox, ...(candidate.regions ?? [])].some(box => intersects(box, detection.bbox))
+    );
+  });
+}
+
+function expandBox(box: BoundingBox, margin: number, horizontal = true): BoundingBox {
+  const x = horizontal ? Math.max(0, box.x - margin) : box.x;
+  const y = Math.max(0, box.y - margin);
+  return {
+    x,
+    y,
+    width: horizontal ? box.x + box.width + margin - x : box.width,
+    height: box.y + box.height + margin - y,
+  };
+}
+
+function expandDetection(detection: Detection): Detection {
+  const margin = Math.max(MIN_EXPANSION, detection.bbox.height * EXPANSION_RATIO);
+  return {
+    ...detection,
+    bbox: expandBox(detection.bbox, margin),
+    regions: detection.regions?.map(region => expandBox(region, margin)),
+    // Only taller, so masked Aadhaar numbers keep their last four digits visible
+    charBoxes: detection.charBoxes?.map(box => expandBox(box, margin, false)),
+  };
+}
+
+/**
+ * Grow every redacted box, and add the leaks found by verification, so that
+ * redacting again covers what the first pass missed
+ */
+export function expandRedactions(detections: DetectionResult, leaks: Detection[]): DetectionResult {
+  return {
+    detections: [...detections.detections, ...leaks].map(expandDetection),
+  };
+}
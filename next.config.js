@@ -1,4 +1,48 @@
+/**
+ * Only the app's own origin may be contacted: documents are processed in
+ * the browser and every worker, WASM core and data file is served locally.
+ * Workers load from blob: URLs, and the Tesseract core needs WASM compilation.
+ */
+const contentSecurityPolicy = [
+  "default-src 'self'",
+  `script-src 'self' 'unsafe-inline' 'wasm-unsafe-eval'${process.env.NODE_ENV === 'development' ? " 'unsafe-eval'" : ''}`,
+  "worker-src 'self' blob:",
+  "connect-src 'self' blob: data:",
+  "img-src 'self' blob: data:",
+  "style-src 'self' 'unsafe-inline'",
+  "font-src 'self' data:",
+  "frame-src 'self' blob:",
+  "object-src 'none'",
+  "base-uri 'self'",
+  "form-action 'self'",
+].join('; ');
+
+/**
+ * Version of the vendored assets, written by scripts/copy-assets.mjs (which
+ * runs before `next dev` and `next build`). It names their directory and the
+ * service worker's cache.
+ */
+function readVendorVersion() {
+  try {
+    return require('./public/vendor/precache.json').version;
+  } catch {
+    return undefined;
+  }
+}
+
 /** @type {import('next').NextConfig} */
-const nextConfig = {}
+const nextConfig = {
+  env: {
+    VENDOR_VERSION: readVendorVersion(),
+  },
+  async headers() {
+    return [
+      {
+        source: '/:path*',
+        headers: [{ key: 'Content-Security-Policy', value: contentSecurityPolicy }],
+      },
+    ];
+  },
+}
 
 module.exports = nextConfig
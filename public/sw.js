@@ -0,0 +1,74 @@
+// Service worker caching the app and its vendored assets, so the tool keeps
+// working offline once it has been opened. Only same-origin requests are
+// handled; documents never pass through here (they are read from blob URLs).
+// The worker is registered with the version of the vendored assets, so an
+// upgrade installs it again with a new cache and the old one is deleted.
+const VERSION = new URL(self.location.href).searchParams.get('version');
+const CACHE_NAME = `redaction-tool-${VERSION}`;
+
+// precache.json lists the vendored assets and, in production builds, the
+// app's own JS and CSS chunks (see scripts/precache-build.mjs)
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(CACHE_NAME);
+      const response = await fetch('/vendor/precache.json', { cache: 'no-cache' });
+      const { urls } = response.ok ? await response.json() : { urls: [] };
+      await cache.addAll(['/', ...urls]);
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(names.filter((name) => name !== CACHE_NAME).map((name) => caches.delete(name)));
+      await self.clients.claim();
+    })()
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (event.request.method !== 'GET' || url.origin !== self.location.origin) {
+    return;
+  }
+
+  // Pages: network first, so updates show up, falling back to the cache offline
+  if (event.request.mode === 'navigate') {
+    event.respondWith(
+      fetch(event.request)
+        .then((response) => {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put(event.request, copy));
+          return response;
+        })
+        .catch(() => caches.match(event.request).then((cached) => cached || caches.match('/')))
+    );
+    return;
+  }
+
+  // Vendored assets (under their version) and build output (under content
+  // hashes) never change under the same URL: cache first. The precache list
+  // does change, and is always fetched.
+  const isVersioned =
+    (url.pathname.startsWith('/vendor/') && url.pathname !== '/vendor/precache.json') ||
+    url.pathname.startsWith('/_next/static/');
+  if (isVersioned) {
+    event.respondWith(
+      caches.match(event.request).then(
+        (cached) =>
+          cached ||
+          fetch(event.request).then((response) => {
+            if (response.ok) {
+              const copy = response.clone();
+              caches.open(CACHE_NAME).then((cache) => cache.put(event.request, copy));
+            }
+            return response;
+          })
+      )
+    );
+  }
+});
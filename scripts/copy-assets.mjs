@@ -0,0 +1,69 @@
+// Copy the workers, WASM cores and data files the app loads at runtime from
+// node_modules into public/vendor, so they are served from the app's own
+// origin and nothing is fetched from a CDN. Also writes the list of files the
+// service worker caches up front.
+//
+// Files go under a directory named by the versions of the packages they come
+// from (public/vendor/<version>/...), so an upgrade changes their URLs and
+// the service worker's cache name instead of serving stale workers.
+import { createHash } from 'node:crypto';
+import { cpSync, existsSync, mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const modules = join(root, 'node_modules');
+const vendor = join(root, 'public', 'vendor');
+
+// The LSTM models tesseract.js loads by default
+const TESSDATA_MODEL_DIRECTORY = '4.0.0_best_int';
+
+// Languages read when the document language is left on automatic
+const DEFAULT_LANGUAGES = ['eng', 'hin'];
+
+const languages = readdirSync(join(modules, '@tesseract.js-data'));
+const packages = [
+  'pdfjs-dist',
+  'tesseract.js',
+  'tesseract.js-core',
+  ...languages.map((language) => `@tesseract.js-data/${language}`),
+];
+const packageVersions = packages
+  .map((name) => `${name}@${JSON.parse(readFileSync(join(modules, name, 'package.json'), 'utf8')).version}`)
+  .join('\n');
+const version = createHash('sha256').update(packageVersions).digest('hex').slice(0, 12);
+const target = join(vendor, version);
+
+const precache = [];
+
+function copy(source, destination, { cache = true } = {}) {
+  mkdirSync(dirname(join(target, destination)), { recursive: true });
+  cpSync(join(modules, source), join(target, destination), { recursive: true });
+  if (cache) precache.push(`/vendor/${version}/${destination}`);
+}
+
+rmSync(vendor, { recursive: true, force: true });
+
+// PDF.js worker, character maps and standard fonts
+copy('pdfjs-dist/build/pdf.worker.min.js', 'pdfjs/pdf.worker.min.js');
+copy('pdfjs-dist/cmaps', 'pdfjs/cmaps', { cache: false });
+copy('pdfjs-dist/standard_fonts', 'pdfjs/standard_fonts', { cache: false });
+
+// Tesseract worker and LSTM cores (with and without SIMD)
+copy('tesseract.js/dist/worker.min.js', 'tesseract/worker.min.js');
+for (const core of ['tesseract-core-lstm.wasm.js', 'tesseract-core-simd-lstm.wasm.js']) {
+  copy(`tesseract.js-core/${core}`, `tesseract-core/${core}`);
+}
+
+// Language data
+for (const language of languages) {
+  const file = `${language}.traineddata.gz`;
+  const source = `@tesseract.js-data/${language}/${TESSDATA_MODEL_DIRECTORY}/${file}`;
+
+  if (existsSync(join(modules, source))) {
+    copy(source, `tessdata/${file}`, { cache: DEFAULT_LANGUAGES.includes(language) });
+  }
+}
+
+// next.config.js reads the version from here for the app and service worker
+writeFileSync(join(vendor, 'precache.json'), JSON.stringify({ version, urls: precache }, null, 2));
@@ -0,0 +1,30 @@
+// Add the build's static files (JS chunks, CSS, fonts, the pipeline worker)
+// to the list of files the service worker caches up front. Run after
+// `next build`: the page loads its chunks before the service worker is
+// installed, so they would otherwise only be cached on a later visit.
+import { existsSync, readFileSync, readdirSync, writeFileSync } from 'node:fs';
+import { dirname, join, relative, sep } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const staticDirectory = join(root, '.next', 'static');
+const precacheFile = join(root, 'public', 'vendor', 'precache.json');
+
+function listFiles(directory) {
+  return readdirSync(directory, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(directory, entry.name);
+    return entry.isDirectory() ? listFiles(path) : [path];
+  });
+}
+
+if (!existsSync(staticDirectory) || !existsSync(precacheFile)) {
+  throw new Error('Run `npm run build` first: the build output or vendor assets are missing');
+}
+
+const buildFiles = listFiles(staticDirectory)
+  .filter((path) => !path.endsWith('.map'))
+  .map((path) => `/_next/static/${relative(staticDirectory, path).split(sep).join('/')}`);
+
+const { version, urls } = JSON.parse(readFileSync(precacheFile, 'utf8'));
+const vendorFiles = urls.filter((url) => !url.startsWith('/_next/'));
+writeFileSync(precacheFile, JSON.stringify({ version, urls: [...vendorFiles, ...buildFiles] }, null, 2));
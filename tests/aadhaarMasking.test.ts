@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { getAadhaarMaskRegion } from '@/lib/aadhaarMasking';
+import { Detection } from '@/types';
+
+/**
+ * A detection whose characters are laid out 10 pixels apart
+ */
+function createDetection(type: Detection['type'], value: string): Detection {
+  return {
+    type,
+    value,
+    confidence: 0.95,
+    bbox: { x: 100, y: 50, width: value.length * 10, height: 20 },
+    pageNumber: 1,
+    charBoxes: Array.from(value, (_, i) => ({ x: 100 + i * 10, y: 50, width: 10, height: 20 })),
+  };
+}
+
+describe('getAadhaarMaskRegion', () => {
+  it('should cover every digit except the last four', () => {
+    const region = getAadhaarMaskRegion(createDetection('AADHAAR', '2345 6789 0124'));
+
+    // "2345 6789" is the first nine characters
+    expect(region).toEqual({
+      bbox: { x: 100, y: 50, width: 90, height: 20 },
+      type: 'AADHAAR',
+      label: 'XXXX XXXX',
+    });
+  });
+
+  it('should keep the grouping of unspaced numbers and VIDs', () => {
+    expect(getAadhaarMaskRegion(createDetection('AADHAAR', '234567890124'))?.label).toBe('XXXXXXXX');
+    expect(getAadhaarMaskRegion(createDetection('AADHAAR', '2345 6789 0123 4565'))?.label)
+      .toBe('XXXX XXXX XXXX');
+  });
+
+  it('should return null without usable character boxes', () => {
+    const detection = createDetection('AADHAAR', '2345 6789 0124');
+
+    expect(getAadhaarMaskRegion({ ...detection, charBoxes: undefined })).toBeNull();
+    expect(getAadhaarMaskRegion({ ...detection, charBoxes: detection.charBoxes!.slice(1) })).toBeNull();
+  });
+});
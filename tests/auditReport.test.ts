@@ -0,0 +1,105 @@
+// @vitest-environment node
+// Node's Blob implements arrayBuffer(), which jsdom's lacks
+import { describe, it, expect } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import {
+  DETECTOR_VERSION,
+  buildAuditReport,
+  createAuditReportPdf,
+  maskValue,
+  sha256Hex,
+} from '@/lib/auditReport';
+import { getPatternDetector } from '@/lib/patternDetector';
+import { Detection } from '@/types';
+
+function createDetection(overrides: Partial<Detection>): Detection {
+  return {
+    type: 'PAN',
+    value: 'ABCDE1234F',
+    confidence: 0.9,
+    bbox: { x: 10, y: 10, width: 100, height: 20 },
+    pageNumber: 1,
+    ...overrides,
+  };
+}
+
+describe('maskValue', () => {
+  it('should keep the last four digits of Aadhaar, account and phone numbers', () => {
+    expect(maskValue('2345 6789 0124', 'AADHAAR')).toBe('XXXX XXXX 0124');
+    expect(maskValue('98765-43210', 'PHONE')).toBe('XXXXX-X3210');
+    expect(maskValue('1234567', 'BANK_ACCOUNT')).toBe('XXXXXXX');
+  });
+
+  it('should mask every character of other values', () => {
+    expect(maskValue('ABCDE1234F', 'PAN')).toBe('XXXXXXXXXX');
+    expect(maskValue('Ravi Kumar', 'NAME')).toBe('XXXX XXXXX');
+    expect(maskValue('रवि कुमार', 'NAME')).toBe('XXX XXXXX');
+    expect(maskValue('01/02/1990', 'DOB')).toBe('XX/XX/XXXX');
+    expect(maskValue('', 'PHOTO')).toBe('');
+  });
+
+  it('should cut long values short', () => {
+    expect(maskValue('a'.repeat(100), 'ADDRESS')).toBe(`${'X'.repeat(64)}...`);
+  });
+});
+
+describe('buildAuditReport', () => {
+  getPatternDetector();
+
+  it('should hash both files and list redactions in reading order', async () => {
+    const inputFile = new File(['abc'], 'pan.png', { type: 'image/png' });
+    const output = new Blob(['redacted'], { type: 'image/png' });
+
+    const report = await buildAuditReport({
+      inputFile,
+      output,
+      outputFilename: 'pan_redacted.png',
+      detections: {
+        detections: [
+          createDetection({ type: 'NAME', value: 'Ravi', pageNumber: 2 }),
+          createDetection({ bbox: { x: 10, y: 60, width: 100, height: 20 } }),
+          createDetection({ type: 'AADHAAR', value: '2345 6789 0124' }),
+        ],
+      },
+      generatedAt: new Date('2024-01-02T03:04:05Z'),
+    });
+
+    expect(report).toMatchObject({
+      generatedAt: '2024-01-02T03:04:05.000Z',
+      detectorVersion: DETECTOR_VERSION,
+      input: {
+        filename: 'pan.png',
+        mimeType: 'image/png',
+        size: 3,
+        sha256: 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+      },
+      output: { filename: 'pan_redacted.png', size: 8 },
+    });
+    expect(report.output.sha256).toBe(await sha256Hex(output));
+    expect(report.redactions.map(entry => [entry.pageNumber, entry.type, entry.maskedValue])).toEqual([
+      [1, 'AADHAAR', 'XXXX XXXX 0124'],
+      [1, 'PAN', 'XXXXXXXXXX'],
+      [2, 'NAME', 'XXXX'],
+    ]);
+    expect(report.redactions[0].label).toBe('Aadhaar Numbers');
+    expect(JSON.stringify(report)).not.toContain('ABCDE1234F');
+  });
+
+  it('should lay out long reports over several PDF pages', async () => {
+    const report = await buildAuditReport({
+      inputFile: new File(['abc'], 'scan.pdf', { type: 'application/pdf' }),
+      output: new Blob(['redacted'], { type: 'application/pdf' }),
+      outputFilename: 'scan_redacted.pdf',
+      detections: {
+        detections: Array.from({ length: 80 }, (_, index) =>
+          createDetection({ value: 'पैन ABCDE1234F', pageNumber: index + 1 })
+        ),
+      },
+    });
+
+    const pdf = await PDFDocument.load(await createAuditReportPdf(report));
+
+    expect(pdf.getPageCount()).toBe(2);
+    expect(pdf.getTitle()).toBe('Redaction audit report: scan.pdf');
+  });
+});
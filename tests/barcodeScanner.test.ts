@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { BarcodeScanner, findCodeRegions } from '@/lib/barcodeScanner';
+import { PatternDetector } from '@/lib/patternDetector';
+import { DetectorRegistry } from '@/lib/detectorRegistry';
+import { BoundingBox, PageImage } from '@/types';
+
+/**
+ * Build a white page, letting isDark choose the dark pixels
+ */
+function createImage(width: number, height: number, isDark: (x: number, y: number) => boolean): PageImage {
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = isDark(x, y) ? 0 : 255;
+      const offset = (y * width + x) * 4;
+      data[offset] = value;
+      data[offset + 1] = value;
+      data[offset + 2] = value;
+      data[offset + 3] = 255;
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Deterministic pseudo-random bits, so the synthetic codes are stable
+ */
+function createBits(count: number, seed: number): boolean[] {
+  const bits: boolean[] = [];
+  let state = seed;
+  for (let i = 0; i < count; i++) {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    bits.push(((state >> 16) & 1) === 1);
+  }
+  return bits;
+}
+
+const inside = (region: BoundingBox) =>
+  (x: number, y: number) =>
+    x >= region.x && x < region.x + region.width && y >= region.y && y < region.y + region.height;
+
+const coversMostOf = (box: BoundingBox, region: BoundingBox) => {
+  const overlapWidth = Math.min(box.x + box.width, region.x + region.width) - Math.max(box.x, region.x);
+  const overlapHeight = Math.min(box.y + box.height, region.y + region.height) - Math.max(box.y, region.y);
+  return overlapWidth > region.width * 0.8 && overlapHeight > region.height * 0.8;
+};
+
+describe('findCodeRegions', () => {
+  const barcodeRegion = { x: 300, y: 280, width: 240, height: 80 };
+  const qrRegion = { x: 60, y: 60, width: 150, height: 150 };
+
+  // Bars 2-6 pixels wide
+  const barWidths = createBits(120, 7).map((bit, i) => 2 + (bit ? 2 : 0) + (i % 3));
+  const barEdges = barWidths.reduce<number[]>(
+    (edges, width) => [...edges, edges[edges.length - 1] + width],
+    [0]
+  );
+  const isBar = (x: number) => {
+    const index = barEdges.findIndex(edge => edge > x - barcodeRegion.x) - 1;
+    return index % 2 === 0;
+  };
+
+  // 5-pixel modules
+  const modules = createBits(30 * 30, 42);
+  const isModule = (x: number, y: number) =>
+    modules[Math.floor((y - qrRegion.y) / 5) * 30 + Math.floor((x - qrRegion.x) / 5)];
+
+  const page = createImage(600, 400, (x, y) =>
+    (inside(barcodeRegion)(x, y) && isBar(x)) ||
+    (inside(qrRegion)(x, y) && isModule(x, y))
+  );
+
+  it('should locate 1D barcodes and QR codes by their texture', () => {
+    const regions = findCodeRegions(page, []);
+    const barcodes = regions.filter(region => region.type === 'BARCODE');
+    const qrCodes = regions.filter(region => region.type === 'QR_CODE');
+
+    expect(barcodes).toHaveLength(1);
+    expect(coversMostOf(barcodes[0].bbox, barcodeRegion)).toBe(true);
+    expect(qrCodes).toHaveLength(1);
+    expect(coversMostOf(qrCodes[0].bbox, qrRegion)).toBe(true);
+    expect(regions.every(region => region.rawValue === null)).toBe(true);
+  });
+
+  it('should ignore regions covered by recognised text', () => {
+    const regions = findCodeRegions(page, [barcodeRegion, qrRegion]);
+
+    expect(regions).toHaveLength(0);
+  });
+
+  it('should return nothing for a blank page', () => {
+    expect(findCodeRegions(createImage(300, 300, () => false), [])).toHaveLength(0);
+  });
+});
+
+describe('BarcodeScanner.containsPII', () => {
+  const scanner = new BarcodeScanner(new PatternDetector({ registry: new DetectorRegistry() }));
+
+  it('should recognise the Aadhaar Secure QR and XML QR formats', () => {
+    expect(scanner.containsPII('7'.repeat(1200))).toBe(true);
+    expect(scanner.containsPII('<PrintLetterBarcodeData name="A" gender="F"/>')).toBe(true);
+  });
+
+  it('should find PII in decoded text', () => {
+    expect(scanner.containsPII('uid="234567890124" name="Test"')).toBe(true);
+    expect(scanner.containsPII('PAN ABCDE1234F')).toBe(true);
+  });
+
+  it('should not flag content without PII', () => {
+    expect(scanner.containsPII('https://example.com/verify')).toBe(false);
+  });
+});
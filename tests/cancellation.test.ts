@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CancelledError, isCancelledError, raceWithSignal, throwIfCancelled } from '@/lib/cancellation';
+import { PhotoDetector } from '@/lib/photoDetector';
+import { BarcodeScanner } from '@/lib/barcodeScanner';
+import { OCRResult } from '@/types';
+
+describe('cancellation', () => {
+  it('should only throw once the signal is aborted', () => {
+    const controller = new AbortController();
+
+    expect(() => throwIfCancelled(controller.signal)).not.toThrow();
+    expect(() => throwIfCancelled(undefined)).not.toThrow();
+
+    controller.abort();
+    expect(() => throwIfCancelled(controller.signal)).toThrow(CancelledError);
+  });
+
+  it('should reject a running operation when aborted and stop its work', async () => {
+    const controller = new AbortController();
+    const stop = vi.fn();
+    const operation = raceWithSignal(new Promise(() => undefined), controller.signal, stop);
+
+    controller.abort();
+
+    await expect(operation).rejects.toBeInstanceOf(CancelledError);
+    expect(stop).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass results and errors through when not aborted', async () => {
+    const controller = new AbortController();
+    const stop = vi.fn();
+
+    await expect(raceWithSignal(Promise.resolve(1), controller.signal, stop)).resolves.toBe(1);
+    await expect(raceWithSignal(Promise.reject(new Error('OCR failed')), controller.signal)).rejects.toThrow(
+      'OCR failed'
+    );
+    expect(stop).not.toHaveBeenCalled();
+  });
+
+  it('should stop photo and code detection before rendering pages', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const file = new File(['%PDF-1.7'], 'card.pdf', { type: 'application/pdf' });
+    const ocrResult: OCRResult = {
+      pages: [{ pageNumber: 1, width: 800, height: 600, textBlocks: [] }],
+      success: true,
+    };
+    const { signal } = controller;
+
+    await expect(new PhotoDetector().detectPhotos(file, ocrResult, { signal })).rejects.toBeInstanceOf(
+      CancelledError
+    );
+    await expect(new BarcodeScanner().scanDocument(file, ocrResult, { signal })).rejects.toBeInstanceOf(
+      CancelledError
+    );
+  });
+
+  it('should tell cancellations apart from failures', () => {
+    expect(isCancelledError(new CancelledError())).toBe(true);
+    expect(isCancelledError(new Error('Processing was cancelled'))).toBe(false);
+  });
+});
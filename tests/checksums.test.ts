@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import {
+  generateGSTINCheckCharacter,
+  generateVerhoeffDigit,
+  isValidAadhaarNumber,
+  isValidGSTINChecksum,
+  isValidVerhoeff,
+  isValidVirtualId,
+} from '@/lib/checksums';
+
+const digitString = (minLength: number, maxLength: number) =>
+  fc.array(fc.integer({ min: 0, max: 9 }), { minLength, maxLength }).map(digits => digits.join(''));
+
+const withCheckDigit = (digits: string) => digits + generateVerhoeffDigit(digits);
+
+describe('checksums', () => {
+  describe('Verhoeff', () => {
+    it('should accept known valid numbers', () => {
+      expect(isValidVerhoeff('2363')).toBe(true);
+      expect(isValidAadhaarNumber('234567890124')).toBe(true);
+      expect(isValidVirtualId('2345678901234565')).toBe(true);
+    });
+
+    it('should reject a transposition in the fifth position from the right', () => {
+      expect(isValidVerhoeff('28001')).toBe(true);
+      expect(isValidVerhoeff('82001')).toBe(false);
+    });
+
+    it('should accept any number followed by its generated check digit', () => {
+      fc.assert(
+        fc.property(digitString(1, 20), (digits) => {
+          expect(isValidVerhoeff(withCheckDigit(digits))).toBe(true);
+        })
+      );
+    });
+
+    it('should detect every single-digit substitution', () => {
+      fc.assert(
+        fc.property(
+          digitString(1, 15),
+          fc.nat(),
+          fc.integer({ min: 1, max: 9 }),
+          (digits, position, delta) => {
+            const valid = withCheckDigit(digits);
+            const index = position % valid.length;
+            const replaced = String((Number(valid[index]) + delta) % 10);
+            const corrupted = valid.slice(0, index) + replaced + valid.slice(index + 1);
+
+            expect(isValidVerhoeff(corrupted)).toBe(false);
+          }
+        )
+      );
+    });
+
+    it('should detect every adjacent transposition', () => {
+      fc.assert(
+        fc.property(digitString(1, 15), fc.nat(), (digits, position) => {
+          const valid = withCheckDigit(digits);
+          const index = position % (valid.length - 1);
+          fc.pre(valid[index] !== valid[index + 1]);
+
+          const swapped =
+            valid.slice(0, index) + valid[index + 1] + valid[index] + valid.slice(index + 2);
+
+          expect(isValidVerhoeff(swapped)).toBe(false);
+        })
+      );
+    });
+  });
+
+  describe('isValidAadhaarNumber', () => {
+    it('should reject numbers starting with 0 or 1 even with a valid check digit', () => {
+      fc.assert(
+        fc.property(fc.constantFrom('0', '1'), digitString(10, 10), (first, rest) => {
+          expect(isValidAadhaarNumber(withCheckDigit(first + rest))).toBe(false);
+        })
+      );
+    });
+
+    it('should reject numbers of the wrong length', () => {
+      expect(isValidAadhaarNumber(withCheckDigit('2345678901'))).toBe(false);
+      expect(isValidAadhaarNumber('2345 6789 0124')).toBe(false);
+    });
+  });
+
+  describe('GSTIN check character', () => {
+    const gstinBody = fc
+      .array(fc.constantFrom(...'0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('')), {
+        minLength: 14,
+        maxLength: 14,
+      })
+      .map(chars => chars.join(''));
+
+    it('should accept known valid GSTINs', () => {
+      expect(isValidGSTINChecksum('27AAPFU0939F1ZV')).toBe(true);
+      expect(isValidGSTINChecksum('27AAPFU0939F1ZX')).toBe(false);
+    });
+
+    it('should accept any body followed by its generated check character', () => {
+      fc.assert(
+        fc.property(gstinBody, (body) => {
+          expect(isValidGSTINChecksum(body + generateGSTINCheckCharacter(body))).toBe(true);
+        })
+      );
+    });
+
+    it('should detect every single-character substitution in a digit position', () => {
+      fc.assert(
+        fc.property(gstinBody, fc.nat(13), fc.integer({ min: 1, max: 9 }), (body, index, delta) => {
+          fc.pre(/\d/.test(body[index]));
+
+          const valid = body + generateGSTINCheckCharacter(body);
+          const replaced = String((Number(valid[index]) + delta) % 10);
+          const corrupted = valid.slice(0, index) + replaced + valid.slice(index + 1);
+
+          expect(isValidGSTINChecksum(corrupted)).toBe(false);
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { mapConcurrent } from '@/lib/concurrency';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('mapConcurrent', () => {
+  it('should keep the order of the items when calls finish out of order', async () => {
+    const results = await mapConcurrent([30, 5, 15, 1], 4, async (ms, index) => {
+      await delay(ms);
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should never run more than limit calls at once', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    await mapConcurrent(Array.from({ length: 10 }, (_, i) => i), 3, async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await delay(2);
+      running--;
+    });
+
+    expect(maxRunning).toBe(3);
+  });
+
+  it('should stop starting calls after a failure and throw the first error', async () => {
+    const started: number[] = [];
+
+    const result = mapConcurrent([1, 2, 3, 4, 5, 6], 2, async (item) => {
+      started.push(item);
+      await delay(item === 2 ? 1 : 10);
+      if (item === 2) throw new Error('page 2 failed');
+      return item;
+    });
+
+    await expect(result).rejects.toThrow('page 2 failed');
+    expect(started).toEqual([1, 2]);
+  });
+
+  it('should handle an empty list', async () => {
+    expect(await mapConcurrent([], 4, async () => 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import {
+  applyHomography,
+  convertPixelRect,
+  getPerspectiveTransform,
+  invertHomography,
+  getRenderedSize,
+  pdfPointToPixel,
+  pdfRectToPixelRect,
+  pixelRectToPdfRect,
+  pixelToPdfPoint,
+} from '@/lib/coordinateTransform';
+import { PageGeometry } from '@/types';
+
+const letter: PageGeometry = { scale: 2, rotation: 0, viewBox: [0, 0, 612, 792] };
+
+describe('coordinateTransform', () => {
+  describe('pixelRectToPdfRect', () => {
+    it('should undo the render scale and flip the y-axis', () => {
+      const rect = pixelRectToPdfRect({ x: 100, y: 100, width: 50, height: 20 }, letter);
+
+      expect(rect.x).toBeCloseTo(50);
+      expect(rect.y).toBeCloseTo(732);
+      expect(rect.width).toBeCloseTo(25);
+      expect(rect.height).toBeCloseTo(10);
+    });
+
+    it('should account for a non-zero page box origin', () => {
+      const geometry: PageGeometry = { scale: 1, rotation: 0, viewBox: [10, 20, 622, 812] };
+      const [x, y] = pixelToPdfPoint([0, 0], geometry);
+
+      expect(x).toBeCloseTo(10);
+      expect(y).toBeCloseTo(812);
+    });
+
+    it('should account for page rotation', () => {
+      const geometry: PageGeometry = { scale: 1, rotation: 90, viewBox: [0, 0, 612, 792] };
+
+      // Rotated 90° clockwise, the bottom-left corner of the page is drawn at the top-left
+      expect(pixelToPdfPoint([0, 0], geometry)).toEqual([0, 0]);
+      expect(pixelToPdfPoint([792, 612], geometry)).toEqual([612, 792]);
+    });
+  });
+
+  describe('getRenderedSize', () => {
+    it('should swap width and height for quarter-turn rotations', () => {
+      expect(getRenderedSize(letter)).toEqual({ width: 1224, height: 1584 });
+      expect(getRenderedSize({ ...letter, rotation: 270 })).toEqual({ width: 1584, height: 1224 });
+    });
+  });
+
+  describe('getPerspectiveTransform', () => {
+    it('should map four corners onto a rectangle and back', () => {
+      const from: [number, number][] = [[30, 40], [410, 20], [440, 300], [10, 270]];
+      const to: [number, number][] = [[0, 0], [400, 0], [400, 250], [0, 250]];
+      const transform = getPerspectiveTransform(from, to);
+      const inverse = invertHomography(transform);
+
+      from.forEach((point, index) => {
+        const mapped = applyHomography(point, transform);
+        expect(mapped[0]).toBeCloseTo(to[index][0]);
+        expect(mapped[1]).toBeCloseTo(to[index][1]);
+
+        const back = applyHomography(mapped, inverse);
+        expect(back[0]).toBeCloseTo(point[0]);
+        expect(back[1]).toBeCloseTo(point[1]);
+      });
+    });
+
+    it('should reject corners on one line', () => {
+      expect(() =>
+        getPerspectiveTransform([[0, 0], [1, 1], [2, 2], [3, 3]], [[0, 0], [1, 0], [1, 1], [0, 1]])
+      ).toThrow();
+    });
+  });
+
+  describe('Property-based tests', () => {
+    const geometryArb = fc.record({
+      scale: fc.double({ min: 0.5, max: 4, noNaN: true }),
+      rotation: fc.constantFrom(0, 90, 180, 270, -90, 360),
+      viewBox: fc
+        .tuple(
+          fc.integer({ min: -500, max: 500 }),
+          fc.integer({ min: -500, max: 500 }),
+          fc.integer({ min: 50, max: 2000 }),
+          fc.integer({ min: 50, max: 2000 })
+        )
+        .map(([x, y, w, h]) => [x, y, x + w, y + h] as PageGeometry['viewBox']),
+    });
+
+    it('should round-trip points between PDF and pixel space', () => {
+      fc.assert(
+        fc.property(
+          geometryArb,
+          fc.double({ min: -1000, max: 1000, noNaN: true }),
+          fc.double({ min: -1000, max: 1000, noNaN: true }),
+          (geometry, x, y) => {
+            const [px, py] = pdfPointToPixel([x, y], geometry);
+            const [rx, ry] = pixelToPdfPoint([px, py], geometry);
+
+            expect(rx).toBeCloseTo(x, 6);
+            expect(ry).toBeCloseTo(y, 6);
+          }
+        )
+      );
+    });
+
+    it('should map the visible page box onto the full rendered canvas', () => {
+      fc.assert(
+        fc.property(geometryArb, (geometry) => {
+          const [x1, y1, x2, y2] = geometry.viewBox;
+          const rect = pdfRectToPixelRect(
+            { x: x1, y: y1, width: x2 - x1, height: y2 - y1 },
+            geometry
+          );
+          const size = getRenderedSize(geometry);
+
+          expect(rect.x).toBeCloseTo(0, 6);
+          expect(rect.y).toBeCloseTo(0, 6);
+          expect(rect.width).toBeCloseTo(size.width, 6);
+          expect(rect.height).toBeCloseTo(size.height, 6);
+        })
+      );
+    });
+
+    it('should preserve boxes when converting between render scales', () => {
+      fc.assert(
+        fc.property(
+          geometryArb,
+          fc.double({ min: 0.5, max: 4, noNaN: true }),
+          (geometry, targetScale) => {
+            const bbox = { x: 12, y: 34, width: 56, height: 78 };
+            const target = { ...geometry, scale: targetScale };
+            const converted = convertPixelRect(bbox, geometry, target);
+            const ratio = targetScale / geometry.scale;
+
+            expect(converted.x).toBeCloseTo(bbox.x * ratio, 6);
+            expect(converted.y).toBeCloseTo(bbox.y * ratio, 6);
+            expect(converted.width).toBeCloseTo(bbox.width * ratio, 6);
+            expect(converted.height).toBeCloseTo(bbox.height * ratio, 6);
+          }
+        )
+      );
+    });
+  });
+});
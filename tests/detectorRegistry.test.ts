@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DetectorRegistry, getDetectorRegistry } from '@/lib/detectorRegistry';
+import { PatternDetector, getPatternDetector } from '@/lib/patternDetector';
+import { countDetectionsByType, getDetectionsByType } from '@/lib/detectionResults';
+import { Detection, DetectorDefinition, OCRResult } from '@/types';
+
+vi.mock('@/lib/customDetectors', () => ({
+  CUSTOM_DETECTORS: [
+    { type: 'POLICY_NUMBER', label: 'Policy Numbers', color: '#fb7185', detect: () => [] },
+  ],
+}));
+
+describe('DetectorRegistry', () => {
+  const ocrResult: OCRResult = {
+    pages: [{
+      pageNumber: 1,
+      width: 800,
+      height: 600,
+      textBlocks: [
+        {
+          text: 'Employee ID: EMP-004217',
+          confidence: 0.95,
+          bbox: { x: 10, y: 10, width: 240, height: 20 }
+        }
+      ]
+    }],
+    success: true
+  };
+
+  const employeeIdDetector: DetectorDefinition = {
+    type: 'EMPLOYEE_ID',
+    label: 'Employee IDs',
+    color: '#facc15',
+    detect: (result) =>
+      result.pages.flatMap(page =>
+        page.textBlocks
+          .filter(block => /EMP-\d{6}/.test(block.text))
+          .map((block): Detection => ({
+            type: 'EMPLOYEE_ID',
+            value: block.text.match(/EMP-\d{6}/)![0],
+            confidence: 1,
+            bbox: block.bbox,
+            pageNumber: page.pageNumber,
+          }))
+      ),
+  };
+
+  it('should register the built-in detectors in order', () => {
+    const registry = new DetectorRegistry();
+    new PatternDetector({ registry });
+
+    expect(registry.getAll().map(d => d.type)).toEqual([
+      'AADHAAR',
+      'PAN',
+      'PHONE',
+      'ADDRESS',
+      'PASSPORT',
+      'VOTER_ID',
+      'DRIVING_LICENCE',
+      'GSTIN',
+      'IFSC',
+      'BANK_ACCOUNT',
+      'DOB',
+      'NAME',
+    ]);
+  });
+
+  it('should run custom detectors alongside the built-in ones', () => {
+    const registry = new DetectorRegistry();
+    const detector = new PatternDetector({ registry });
+    detector.registerDetector(employeeIdDetector);
+
+    const result = detector.detectPII(ocrResult);
+
+    expect(getDetectionsByType(result, 'EMPLOYEE_ID')).toHaveLength(1);
+    expect(getDetectionsByType(result, 'EMPLOYEE_ID')[0].value).toBe('EMP-004217');
+    expect(countDetectionsByType(result, registry).get('AADHAAR')).toBe(0);
+    expect(countDetectionsByType(result, registry).get('EMPLOYEE_ID')).toBe(1);
+  });
+
+  it('should reject duplicate detector types', () => {
+    const registry = new DetectorRegistry();
+    registry.register(employeeIdDetector);
+
+    expect(() => registry.register(employeeIdDetector)).toThrow();
+  });
+
+  it('should stop running unregistered detectors', () => {
+    const registry = new DetectorRegistry();
+    const detector = new PatternDetector({ registry });
+    detector.registerDetector(employeeIdDetector);
+    registry.unregister('EMPLOYEE_ID');
+
+    expect(getDetectionsByType(detector.detectPII(ocrResult), 'EMPLOYEE_ID')).toHaveLength(0);
+  });
+
+  it('should describe registered, manual and unknown types', () => {
+    const registry = new DetectorRegistry();
+    registry.register(employeeIdDetector);
+
+    expect(registry.describe('EMPLOYEE_ID')).toEqual({ label: 'Employee IDs', color: '#facc15' });
+    expect(registry.describe('MANUAL').label).toBe('Drawn Manually');
+    expect(registry.describe('POLICY_NUMBER').label).toBe('POLICY_NUMBER');
+  });
+
+  it('should describe and count detectors registered elsewhere', () => {
+    const registry = new DetectorRegistry();
+    registry.describeDetectors([
+      { type: 'AADHAAR', label: 'Aadhaar Numbers', color: '#60a5fa' },
+      { type: 'EMPLOYEE_ID', label: 'Employee IDs', color: '#facc15' },
+    ]);
+
+    expect(registry.getAll()).toEqual([]);
+    expect(registry.describe('EMPLOYEE_ID')).toEqual({ label: 'Employee IDs', color: '#facc15' });
+    expect(Array.from(countDetectionsByType({ detections: [] }, registry).keys())).toEqual([
+      'AADHAAR',
+      'EMPLOYEE_ID',
+    ]);
+  });
+
+  it('should register the custom detectors in the shared detector', () => {
+    getPatternDetector();
+
+    const types = getDetectorRegistry().getDetectorInfo().map(d => d.type);
+    expect(types[0]).toBe('AADHAAR');
+    expect(types[types.length - 1]).toBe('POLICY_NUMBER');
+    expect(getDetectorRegistry().describe('POLICY_NUMBER').label).toBe('Policy Numbers');
+  });
+});
@@ -0,0 +1,62 @@
+// @vitest-environment node
+// Node's Blob implements arrayBuffer(), which jsdom's lacks
+import { describe, it, expect } from 'vitest';
+import { unzipSync } from 'fflate';
+import { DownloadHandler } from '@/utils/downloadHandler';
+import { AuditReport, RedactedDocument } from '@/types';
+
+function createDocument(content: string, mimeType: string): RedactedDocument {
+  return { blob: new Blob([content], { type: mimeType }), mimeType, previewUrl: '' };
+}
+
+describe('DownloadHandler.createArchive', () => {
+  const handler = new DownloadHandler();
+
+  it('should store each document under its redacted filename', async () => {
+    const archive = await handler.createArchive([
+      { document: createDocument('pdf', 'application/pdf'), originalFilename: 'aadhaar.pdf' },
+      { document: createDocument('png', 'image/png'), originalFilename: 'scans/pan.png' },
+    ]);
+
+    const files = unzipSync(new Uint8Array(await archive.arrayBuffer()));
+
+    expect(archive.type).toBe('application/zip');
+    expect(Object.keys(files).sort()).toEqual(['aadhaar_redacted.pdf', 'scans/pan_redacted.png']);
+    expect(new TextDecoder().decode(files['aadhaar_redacted.pdf'])).toBe('pdf');
+  });
+
+  it('should keep documents with the same name apart', async () => {
+    const archive = await handler.createArchive([
+      { document: createDocument('first', 'image/png'), originalFilename: 'scan.png' },
+      { document: createDocument('second', 'image/png'), originalFilename: 'scan.png' },
+    ]);
+
+    const files = unzipSync(new Uint8Array(await archive.arrayBuffer()));
+
+    expect(Object.keys(files).sort()).toEqual(['scan_redacted (2).png', 'scan_redacted.png']);
+    expect(new TextDecoder().decode(files['scan_redacted (2).png'])).toBe('second');
+  });
+
+  it('should store audit reports as JSON next to their documents', async () => {
+    const auditReport = { detectorVersion: '0.1.0', redactions: [] } as unknown as AuditReport;
+    const archive = await handler.createArchive([
+      { document: createDocument('first', 'image/png'), originalFilename: 'scan.png', auditReport },
+      { document: createDocument('second', 'image/png'), originalFilename: 'scan.png', auditReport },
+    ]);
+
+    const files = unzipSync(new Uint8Array(await archive.arrayBuffer()));
+
+    expect(Object.keys(files).sort()).toEqual([
+      'scan_redacted (2).png',
+      'scan_redacted (2)_audit.json',
+      'scan_redacted.png',
+      'scan_redacted_audit.json',
+    ]);
+    expect(JSON.parse(new TextDecoder().decode(files['scan_redacted_audit.json']))).toEqual(auditReport);
+  });
+
+  it('should name audit reports after the redacted file', () => {
+    expect(handler.generateAuditFilename('aadhaar.pdf', 'pdf')).toBe('aadhaar_redacted_audit.pdf');
+    expect(handler.generateAuditFilename('scan', 'json')).toBe('scan_redacted_audit.json');
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ExifOrientation,
+  applyOrientation,
+  getOrientedSize,
+  readExifOrientation,
+  removeImageMetadata,
+} from '@/lib/imageMetadata';
+
+const bytesOf = (text: string) => Array.from(text).map(character => character.charCodeAt(0));
+
+const uint16 = (value: number, littleEndian: boolean) =>
+  littleEndian ? [value & 0xff, value >> 8] : [value >> 8, value & 0xff];
+
+const uint32 = (value: number) => [value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+
+/**
+ * TIFF data with an orientation tag and a GPS IFD pointer in its first IFD
+ */
+function tiff(orientation: number, littleEndian: boolean): number[] {
+  const u16 = (value: number) => uint16(value, littleEndian);
+  const u32 = (value: number) =>
+    littleEndian ? uint32(value).reverse() : uint32(value);
+
+  return [
+    ...bytesOf(littleEndian ? 'II' : 'MM'),
+    ...u16(42),
+    ...u32(8),
+    ...u16(2),
+    // GPS IFD pointer, then orientation
+    ...u16(0x8825), ...u16(4), ...u32(1), ...u32(0),
+    ...u16(0x0112), ...u16(3), ...u32(1), ...u16(orientation), 0, 0,
+    ...u32(0),
+  ];
+}
+
+function jpegSegment(marker: number, data: number[]): number[] {
+  return [0xff, marker, ...uint16(data.length + 2, false), ...data];
+}
+
+function jpeg(...segments: number[][]): Uint8Array {
+  // SOI, header segments, start of scan, then "image data" and EOI
+  return new Uint8Array([
+    0xff, 0xd8,
+    ...segments.flat(),
+    ...jpegSegment(0xda, [1, 2, 3]),
+    0x12, 0x34, 0xff, 0xd9,
+  ]);
+}
+
+function pngChunk(type: string, data: number[]): number[] {
+  return [...uint32(data.length), ...bytesOf(type), ...data, 0, 0, 0, 0];
+}
+
+function png(...chunks: number[][]): Uint8Array {
+  return new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, ...chunks.flat()]);
+}
+
+const jfif = jpegSegment(0xe0, bytesOf('JFIF\0'));
+const exif = (orientation: number, littleEndian = true) =>
+  jpegSegment(0xe1, [...bytesOf('Exif\0\0'), ...tiff(orientation, littleEndian)]);
+
+describe('image metadata', () => {
+  it('should read the EXIF orientation of JPEG and PNG files in either byte order', () => {
+    expect(readExifOrientation(jpeg(jfif, exif(6)))).toBe(6);
+    expect(readExifOrientation(jpeg(jfif, exif(8, false)))).toBe(8);
+    expect(readExifOrientation(png(pngChunk('IHDR', [0]), pngChunk('eXIf', tiff(3, false))))).toBe(3);
+  });
+
+  it('should treat files without a valid orientation as upright', () => {
+    expect(readExifOrientation(jpeg(jfif))).toBe(1);
+    expect(readExifOrientation(jpeg(exif(9)))).toBe(1);
+    expect(readExifOrientation(png(pngChunk('IHDR', [0]), pngChunk('IDAT', [0])))).toBe(1);
+    expect(readExifOrientation(new Uint8Array(bytesOf('GIF89a')))).toBe(1);
+  });
+
+  it('should map every corner of the stored image into the oriented canvas', () => {
+    const width = 4;
+    const height = 2;
+
+    for (let orientation = 1; orientation <= 8; orientation++) {
+      let matrix = [1, 0, 0, 1, 0, 0];
+      applyOrientation(
+        { transform: (...values: number[]) => (matrix = values) },
+        orientation as ExifOrientation,
+        width,
+        height
+      );
+      const [a, b, c, d, e, f] = matrix;
+      const size = getOrientedSize(width, height, orientation as ExifOrientation);
+
+      for (const [x, y] of [[0, 0], [width, 0], [0, height], [width, height]]) {
+        const mapped = [a * x + c * y + e, b * x + d * y + f];
+        expect([0, size.width]).toContain(mapped[0]);
+        expect([0, size.height]).toContain(mapped[1]);
+      }
+    }
+
+    // Orientation 6 is a quarter turn clockwise: the top left ends up top right
+    let rotated: number[] = [];
+    applyOrientation({ transform: (...values: number[]) => (rotated = values) }, 6, width, height);
+    expect([rotated[4], rotated[5]]).toEqual([height, 0]);
+    expect(getOrientedSize(width, height, 6)).toEqual({ width: height, height: width });
+  });
+
+  it('should remove EXIF, XMP, IPTC and comments from JPEG files and keep the image data', () => {
+    const icc = jpegSegment(0xe2, bytesOf('ICC_PROFILE\0'));
+    const xmp = jpegSegment(0xe1, bytesOf('http://ns.adobe.com/xap/1.0/\0'));
+    const iptc = jpegSegment(0xed, bytesOf('Photoshop 3.0\0'));
+    const comment = jpegSegment(0xfe, bytesOf('Taken on a phone'));
+
+    const stripped = removeImageMetadata(jpeg(jfif, exif(6), xmp, icc, iptc, comment));
+
+    expect(Array.from(stripped)).toEqual(Array.from(jpeg(jfif, icc)));
+    expect(readExifOrientation(stripped)).toBe(1);
+  });
+
+  it('should remove text, EXIF and time chunks from PNG files', () => {
+    const header = pngChunk('IHDR', [0, 1, 2]);
+    const data = pngChunk('IDAT', [3, 4]);
+    const end = pngChunk('IEND', []);
+
+    const stripped = removeImageMetadata(
+      png(
+        header,
+        pngChunk('eXIf', tiff(6, true)),
+        pngChunk('tEXt', bytesOf('Author\0Someone')),
+        pngChunk('tIME', [7, 234, 1, 1, 0, 0, 0]),
+        data,
+        pngChunk('iTXt', bytesOf('GPS')),
+        end
+      )
+    );
+
+    expect(Array.from(stripped)).toEqual(Array.from(png(header, data, end)));
+  });
+
+  it('should leave other formats unchanged', () => {
+    const gif = new Uint8Array(bytesOf('GIF89a'));
+    expect(removeImageMetadata(gif)).toBe(gif);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  estimateSkewAngle,
+  findCardCorners,
+  isOnCard,
+  mapBoxToOriginal,
+  preprocessImage,
+  toGrayscale,
+} from '@/lib/imagePreprocessing';
+import { PageImage } from '@/types';
+
+type Point = [number, number];
+
+/**
+ * RGBA image with the grey level of each pixel given by shade
+ */
+function createImage(width: number, height: number, shade: (x: number, y: number) => number): PageImage {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = shade(x + 0.5, y + 0.5);
+      data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+}
+
+function isInside([x, y]: Point, polygon: Point[]): boolean {
+  return polygon.every(([x1, y1], index) => {
+    const [x2, y2] = polygon[(index + 1) % polygon.length];
+    return (x2 - x1) * (y - y1) - (y2 - y1) * (x - x1) >= 0;
+  });
+}
+
+// A light card, a little turned and in perspective, on a dark table
+const card: Point[] = [[60, 50], [330, 70], [320, 250], [50, 230]];
+const marker = { x: 150, y: 120, width: 40, height: 30 };
+const cardPhoto = createImage(400, 300, (x, y) => {
+  if (!isInside([x, y], card)) return 40;
+  const onMarker =
+    x >= marker.x && x < marker.x + marker.width && y >= marker.y && y < marker.y + marker.height;
+  return onMarker ? 20 : 230;
+});
+
+describe('image preprocessing', () => {
+  it('should find the corners of a card on a table', () => {
+    const corners = findCardCorners(toGrayscale(cardPhoto));
+
+    expect(corners).not.toBeNull();
+    corners?.forEach(([x, y], index) => {
+      expect(Math.abs(x - card[index][0])).toBeLessThanOrEqual(2);
+      expect(Math.abs(y - card[index][1])).toBeLessThanOrEqual(2);
+    });
+  });
+
+  it('should not find a card in a photo it fills, or in a blank one', () => {
+    const document = createImage(200, 100, (x, y) => (y > 40 && y < 50 && x > 20 && x < 180 ? 0 : 255));
+    expect(findCardCorners(toGrayscale(document))).toBeNull();
+    expect(findCardCorners(toGrayscale(createImage(50, 50, () => 255)))).toBeNull();
+  });
+
+  it('should estimate the skew of lines of text', () => {
+    const angle = 6;
+    const slope = Math.tan((angle * Math.PI) / 180);
+    // Dashed lines, like words, every 30 pixels
+    const page = createImage(400, 300, (x, y) => {
+      const offset = y - x * slope;
+      return Math.abs(offset - Math.round(offset / 30) * 30) < 3 && x % 40 < 30 ? 0 : 255;
+    });
+
+    expect(estimateSkewAngle(toGrayscale(page))).toBeCloseTo(angle, 0);
+    expect(estimateSkewAngle(toGrayscale(createImage(100, 100, () => 255)))).toBe(0);
+  });
+
+  it('should flatten and enlarge a card, and map its boxes back to the photo', () => {
+    const [{ image, transform }] = preprocessImage(cardPhoto);
+
+    // The card fills the prepared image, scaled up for OCR
+    expect(Math.max(image.width, image.height)).toBeGreaterThanOrEqual(800);
+    expect(image.width / image.height).toBeCloseTo(280 / 190, 0);
+
+    // Find the marker, the only ink away from the card's edges
+    let left = Infinity;
+    let top = Infinity;
+    let right = -Infinity;
+    let bottom = -Infinity;
+    const margin = image.width * 0.05;
+    for (let y = margin; y < image.height - margin; y++) {
+      for (let x = margin; x < image.width - margin; x++) {
+        const index = (Math.floor(y) * image.width + Math.floor(x)) * 4;
+        if (image.data[index] === 0) {
+          left = Math.min(left, x);
+          top = Math.min(top, y);
+          right = Math.max(right, x + 1);
+          bottom = Math.max(bottom, y + 1);
+        }
+      }
+    }
+
+    const mapped = mapBoxToOriginal(
+      { x: left, y: top, width: right - left, height: bottom - top },
+      transform,
+      cardPhoto.width,
+      cardPhoto.height
+    );
+    expect(Math.abs(mapped.x - marker.x)).toBeLessThan(4);
+    expect(Math.abs(mapped.y - marker.y)).toBeLessThan(4);
+    expect(Math.abs(mapped.x + mapped.width - (marker.x + marker.width))).toBeLessThan(4);
+    expect(Math.abs(mapped.y + mapped.height - (marker.y + marker.height))).toBeLessThan(4);
+  });
+
+  it('should also prepare the whole photo, to read the text around a card', () => {
+    const [card, frame] = preprocessImage(cardPhoto);
+
+    expect(card.card).toHaveLength(4);
+    expect(frame.card).toBeUndefined();
+    expect(frame.image.width / frame.image.height).toBeCloseTo(400 / 300, 0);
+
+    // Words on the card come from the card's view; the rest from the whole photo
+    expect(isOnCard({ ...marker }, card.card!)).toBe(true);
+    expect(isOnCard({ x: 340, y: 260, width: 40, height: 20 }, card.card!)).toBe(false);
+    expect(isOnCard({ x: 0, y: 10, width: 40, height: 20 }, card.card!)).toBe(false);
+  });
+
+  it('should clip mapped boxes to the original image', () => {
+    const views = preprocessImage(createImage(100, 50, () => 255));
+    expect(views).toHaveLength(1);
+    const [{ transform }] = views;
+
+    expect(mapBoxToOriginal({ x: -30, y: 0, width: 600, height: 60 }, transform, 100, 50)).toEqual({
+      x: 0,
+      y: 0,
+      width: 100,
+      height: 20,
+    });
+  });
+});
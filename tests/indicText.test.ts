@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { normalizeIndicDigits } from '@/lib/indicText';
+
+describe('normalizeIndicDigits', () => {
+  it('should read Devanagari and other Indic digits as ASCII digits', () => {
+    expect(normalizeIndicDigits('२३४५ ६७८९ ०१२४')).toBe('2345 6789 0124');
+    expect(normalizeIndicDigits('পিন ৭০০০০১')).toBe('পিন 700001'); // Bengali
+    expect(normalizeIndicDigits('௫௬௦')).toBe('560'); // Tamil
+  });
+
+  it('should leave other text alone and keep its length', () => {
+    fc.assert(
+      fc.property(fc.string(), text => {
+        const normalized = normalizeIndicDigits(text);
+        expect(normalized).toHaveLength(text.length);
+        if (!/[\u0900-\u0DFF]/.test(text)) {
+          expect(normalized).toBe(text);
+        }
+      })
+    );
+  });
+});
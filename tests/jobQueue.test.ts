@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { JobQueue } from '@/lib/jobQueue';
+import { Job } from '@/types';
+
+const createFile = (name: string) => new File(['content'], name, { type: 'image/png' });
+
+/**
+ * Resolve once every job has finished
+ */
+function whenIdle<T>(queue: JobQueue<T>): Promise<Job<T>[]> {
+  return new Promise(resolve => {
+    if (queue.isIdle()) {
+      resolve(queue.getJobs());
+      return;
+    }
+
+    const unsubscribe = queue.subscribe(jobs => {
+      if (queue.isIdle()) {
+        unsubscribe();
+        resolve(jobs);
+      }
+    });
+  });
+}
+
+describe('JobQueue', () => {
+  it('should process files one at a time, in order', async () => {
+    const order: string[] = [];
+    let running = 0;
+    let maxRunning = 0;
+
+    const queue = new JobQueue(async (file: File) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      order.push(file.name);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return file.name.toUpperCase();
+    });
+
+    queue.add([createFile('a.png'), createFile('b.png'), createFile('c.png')]);
+    const jobs = await whenIdle(queue);
+
+    expect(order).toEqual(['a.png', 'b.png', 'c.png']);
+    expect(maxRunning).toBe(1);
+    expect(jobs.map(job => job.status)).toEqual(['done', 'done', 'done']);
+    expect(jobs.map(job => job.result)).toEqual(['A.PNG', 'B.PNG', 'C.PNG']);
+  });
+
+  it('should run up to the given number of jobs at once', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    const queue = new JobQueue(async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+    }, 2);
+
+    queue.add([createFile('a.png'), createFile('b.png'), createFile('c.png')]);
+    await whenIdle(queue);
+
+    expect(maxRunning).toBe(2);
+  });
+
+  it('should keep going after a failure and let the failed job be retried', async () => {
+    let failNext = true;
+    const queue = new JobQueue(async (file: File) => {
+      if (file.name === 'bad.png' && failNext) {
+        failNext = false;
+        throw new Error('OCR extraction failed');
+      }
+      return file.name;
+    });
+
+    const [bad] = queue.add([createFile('bad.png'), createFile('good.png')]);
+    let jobs = await whenIdle(queue);
+
+    expect(jobs.map(job => job.status)).toEqual(['failed', 'done']);
+    expect(jobs[0].error).toBe('OCR extraction failed');
+
+    queue.retry(bad.id);
+    jobs = await whenIdle(queue);
+
+    expect(jobs[0]).toMatchObject({ status: 'done', result: 'bad.png', attempts: 2 });
+    expect(jobs[0].error).toBeUndefined();
+  });
+
+  it('should only retry failed jobs', async () => {
+    const queue = new JobQueue(async (file: File) => file.name);
+    const [job] = queue.add([createFile('a.png')]);
+    await whenIdle(queue);
+
+    queue.retry(job.id);
+
+    expect(queue.getJobs()[0]).toMatchObject({ status: 'done', attempts: 1 });
+  });
+
+  it('should replace jobs on every change and notify listeners', async () => {
+    const snapshots: Job<string>[][] = [];
+    const queue = new JobQueue(async (file: File) => file.name);
+    queue.subscribe(jobs => snapshots.push(jobs));
+
+    queue.add([createFile('a.png')]);
+    await whenIdle(queue);
+
+    expect(snapshots.map(jobs => jobs[0].status)).toEqual(['queued', 'processing', 'done']);
+    expect(new Set(snapshots).size).toBe(snapshots.length);
+  });
+
+  it('should discard results of jobs cleared while processing', async () => {
+    const queue = new JobQueue(async (file: File) => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      return file.name;
+    });
+
+    queue.add([createFile('a.png'), createFile('b.png')]);
+    queue.clear();
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(queue.getJobs()).toEqual([]);
+    expect(queue.isIdle()).toBe(true);
+  });
+
+  it('should abort jobs cleared while processing', async () => {
+    const signals: AbortSignal[] = [];
+    const queue = new JobQueue((_file: File, signal: AbortSignal) => {
+      signals.push(signal);
+      return new Promise<void>((_resolve, reject) => {
+        signal.addEventListener('abort', () => reject(new Error('Processing cancelled')));
+      });
+    });
+
+    queue.add([createFile('a.png'), createFile('b.png')]);
+    queue.clear();
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    expect(signals).toHaveLength(1);
+    expect(signals[0].aborted).toBe(true);
+    expect(queue.getJobs()).toEqual([]);
+  });
+});
@@ -1,5 +1,30 @@
-import { describe, it, expect } from 'vitest';
-import { OCRError } from '@/lib/ocrService';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createWorker } from 'tesseract.js';
+import { MAX_OCR_WORKERS, OCRError, OCRService, getDefaultPoolSize } from '@/lib/ocrService';
+import { getTesseractLanguages, isLatinOnly } from '@/lib/ocrLanguages';
+import { CancelledError } from '@/lib/cancellation';
+
+vi.mock('tesseract.js', () => ({
+  createWorker: vi.fn(async () => ({
+    reinitialize: vi.fn(async () => undefined),
+    setParameters: vi.fn(async () => undefined),
+    recognize: vi.fn(() => new Promise(() => undefined)),
+    terminate: vi.fn(async () => undefined),
+  })),
+}));
+
+const getCreatedWorkers = () =>
+  Promise.all(vi.mocked(createWorker).mock.results.map(result => result.value));
+
+/**
+ * Recognise an image on the service's pool, as its page readers do
+ */
+const recognizeWords = (service: OCRService, signal?: AbortSignal) =>
+  (
+    service as unknown as {
+      recognizeWords(imageUrl: string, options: { signal?: AbortSignal }): Promise<unknown>;
+    }
+  ).recognizeWords('blob:page', { signal });
 
 describe('OCRService', () => {
   // Note: Full OCR service tests require a browser environment with DOM APIs
@@ -48,6 +73,96 @@ describe('OCRService', () => {
     });
   });
 
+  describe('Language selection', () => {
+    it('should read English and Hindi automatically and always include English', () => {
+      expect(getTesseractLanguages('auto')).toBe('eng+hin');
+      expect(getTesseractLanguages('eng')).toBe('eng');
+      expect(getTesseractLanguages('tam')).toBe('eng+tam');
+    });
+
+    it('should only restrict characters for Latin-script languages', () => {
+      expect(isLatinOnly('eng')).toBe(true);
+      expect(isLatinOnly('eng+hin')).toBe(false);
+    });
+  });
+
+  describe('Worker pool', () => {
+    beforeEach(() => {
+      vi.mocked(createWorker).mockClear();
+    });
+
+    it('should size the pool to the cores, leaving one for the page', () => {
+      expect(getDefaultPoolSize(undefined)).toBe(1);
+      expect(getDefaultPoolSize(1)).toBe(1);
+      expect(getDefaultPoolSize(4)).toBe(3);
+      expect(getDefaultPoolSize(32)).toBe(MAX_OCR_WORKERS);
+    });
+
+    it('should start workers on demand, up to the pool size', async () => {
+      const service = new OCRService({ poolSize: 3 });
+
+      await service.initialize('auto');
+      expect(createWorker).toHaveBeenCalledTimes(1);
+
+      await service.initialize('auto', 10);
+      expect(createWorker).toHaveBeenCalledTimes(3);
+    });
+
+    it('should reload the language of every worker', async () => {
+      const service = new OCRService({ poolSize: 2 });
+      await service.initialize('auto', 2);
+
+      await service.initialize('tam', 2);
+
+      for (const worker of await getCreatedWorkers()) {
+        expect(worker.reinitialize).toHaveBeenCalledWith('eng+tam');
+      }
+      expect(createWorker).toHaveBeenCalledTimes(2);
+    });
+
+    it('should shut the pool down and start a new one afterwards', async () => {
+      const service = new OCRService({ poolSize: 2 });
+      await service.initialize('auto', 2);
+
+      await service.terminate();
+      for (const worker of await getCreatedWorkers()) {
+        expect(worker.terminate).toHaveBeenCalledTimes(1);
+      }
+
+      await service.initialize('auto');
+      expect(createWorker).toHaveBeenCalledTimes(3);
+    });
+
+    it('should stop pages waiting for a worker when cancelled or shut down', async () => {
+      const service = new OCRService({ poolSize: 1 });
+      await service.initialize('auto');
+      const controller = new AbortController();
+
+      // The only worker never finishes its page, so the others wait
+      recognizeWords(service);
+      const cancelled = recognizeWords(service, controller.signal);
+      const stopped = recognizeWords(service);
+
+      controller.abort();
+      await expect(cancelled).rejects.toBeInstanceOf(CancelledError);
+
+      await service.terminate();
+      await expect(stopped).rejects.toBeInstanceOf(OCRError);
+    });
+
+    it('should not start reading a cancelled document', async () => {
+      const service = new OCRService({ poolSize: 2 });
+      const controller = new AbortController();
+      controller.abort();
+
+      const file = new File(['content'], 'card.png', { type: 'image/png' });
+      await expect(service.extractText(file, { signal: controller.signal })).rejects.toBeInstanceOf(
+        CancelledError
+      );
+      expect(createWorker).not.toHaveBeenCalled();
+    });
+  });
+
   describe('OCR Result Structure', () => {
     it('should have correct structure for successful results', () => {
       const successResult = {
@@ -1,10 +1,30 @@
 import { describe, it, expect } from 'vitest';
 import { PatternDetector } from '@/lib/patternDetector';
+import { DetectorRegistry } from '@/lib/detectorRegistry';
+import { getDetectionsByType } from '@/lib/detectionResults';
 import { OCRResult } from '@/types';
 
 describe('PatternDetector', () => {
   const detector = new PatternDetector();
 
+  // One text block per word, as Tesseract reports them
+  const pageWithWords = (...lines: [number, number, string][]): OCRResult => ({
+    pages: [{
+      pageNumber: 1,
+      width: 800,
+      height: 600,
+      textBlocks: lines.flatMap(([x, y, text]) => {
+        let offset = x;
+        return text.split(' ').map(wordText => {
+          const bbox = { x: offset, y, width: wordText.length * 10, height: 20 };
+          offset += bbox.width + 10;
+          return { text: wordText, confidence: 0.95, bbox };
+        });
+      })
+    }],
+    success: true
+  });
+
   describe('detectPII', () => {
     it('should detect Aadhaar numbers in plain format', () => {
       const ocrResult: OCRResult = {
@@ -25,9 +45,9 @@ describe('PatternDetector', () => {
 
       const result = detector.detectPII(ocrResult);
       
-      expect(result.aadhaarNumbers).toHaveLength(1);
-      expect(result.aadhaarNumbers[0].value).toBe('123456789012');
-      expect(result.aadhaarNumbers[0].type).toBe('AADHAAR');
+      expect(getDetectionsByType(result, 'AADHAAR')).toHaveLength(1);
+      expect(getDetectionsByType(result, 'AADHAAR')[0].value).toBe('123456789012');
+      expect(getDetectionsByType(result, 'AADHAAR')[0].type).toBe('AADHAAR');
     });
 
     it('should detect Aadhaar numbers with spaces', () => {
@@ -49,8 +69,8 @@ describe('PatternDetector', () => {
 
       const result = detector.detectPII(ocrResult);
       
-      expect(result.aadhaarNumbers).toHaveLength(1);
-      expect(result.aadhaarNumbers[0].value).toBe('1234 5678 9012');
+      expect(getDetectionsByType(result, 'AADHAAR')).toHaveLength(1);
+      expect(getDetectionsByType(result, 'AADHAAR')[0].value).toBe('1234 5678 9012');
     });
 
     it('should detect PAN numbers', () => {
@@ -72,9 +92,9 @@ describe('PatternDetector', () => {
 
       const result = detector.detectPII(ocrResult);
       
-      expect(result.panNumbers).toHaveLength(1);
-      expect(result.panNumbers[0].value).toBe('ABCDE1234F');
-      expect(result.panNumbers[0].type).toBe('PAN');
+      expect(getDetectionsByType(result, 'PAN')).toHaveLength(1);
+      expect(getDetectionsByType(result, 'PAN')[0].value).toBe('ABCDE1234F');
+      expect(getDetectionsByType(result, 'PAN')[0].type).toBe('PAN');
     });
 
     it('should detect phone numbers', () => {
@@ -96,9 +116,9 @@ describe('PatternDetector', () => {
 
       const result = detector.detectPII(ocrResult);
       
-      expect(result.phoneNumbers).toHaveLength(1);
-      expect(result.phoneNumbers[0].value).toBe('9876543210');
-      expect(result.phoneNumbers[0].type).toBe('PHONE');
+      expect(getDetectionsByType(result, 'PHONE')).toHaveLength(1);
+      expect(getDetectionsByType(result, 'PHONE')[0].value).toBe('9876543210');
+      expect(getDetectionsByType(result, 'PHONE')[0].type).toBe('PHONE');
     });
 
     it('should detect addresses with PIN codes', () => {
@@ -130,9 +150,9 @@ describe('PatternDetector', () => {
 
       const result = detector.detectPII(ocrResult);
       
-      expect(result.addresses.length).toBeGreaterThan(0);
-      expect(result.addresses[0].type).toBe('ADDRESS');
-      expect(result.addresses[0].value).toContain('560001');
+      expect(getDetectionsByType(result, 'ADDRESS').length).toBeGreaterThan(0);
+      expect(getDetectionsByType(result, 'ADDRESS')[0].type).toBe('ADDRESS');
+      expect(getDetectionsByType(result, 'ADDRESS')[0].value).toContain('560001');
     });
 
     it('should return empty arrays when no PII is detected', () => {
@@ -154,10 +174,329 @@ describe('PatternDetector', () => {
 
       const result = detector.detectPII(ocrResult);
       
-      expect(result.aadhaarNumbers).toHaveLength(0);
-      expect(result.panNumbers).toHaveLength(0);
-      expect(result.phoneNumbers).toHaveLength(0);
-      expect(result.addresses).toHaveLength(0);
+      expect(getDetectionsByType(result, 'AADHAAR')).toHaveLength(0);
+      expect(getDetectionsByType(result, 'PAN')).toHaveLength(0);
+      expect(getDetectionsByType(result, 'PHONE')).toHaveLength(0);
+      expect(getDetectionsByType(result, 'ADDRESS')).toHaveLength(0);
+    });
+  });
+
+  describe('Aadhaar checksum validation', () => {
+    const ocrResult: OCRResult = {
+      pages: [{
+        pageNumber: 1,
+        width: 800,
+        height: 600,
+        textBlocks: [
+          {
+            text: 'Aadhaar: 2345 6789 0124',
+            confidence: 0.95,
+            bbox: { x: 10, y: 10, width: 200, height: 20 }
+          },
+          {
+            text: 'Ref: 2345 6789 0123',
+            confidence: 0.95,
+            bbox: { x: 10, y: 40, width: 200, height: 20 }
+          },
+          {
+            text: 'VID: 2345 6789 0123 4565',
+            confidence: 0.95,
+            bbox: { x: 10, y: 70, width: 260, height: 20 }
+          }
+        ]
+      }],
+      success: true
+    };
+
+    const confidenceOf = (detector: PatternDetector, value: string) =>
+      getDetectionsByType(detector.detectPII(ocrResult), 'AADHAAR')
+        .find(detection => detection.value === value)?.confidence;
+
+    it('should raise confidence for checksum-valid Aadhaar numbers and VIDs', () => {
+      expect(confidenceOf(detector, '2345 6789 0124')).toBeGreaterThan(0.95);
+      expect(confidenceOf(detector, '2345 6789 0123 4565')).toBeGreaterThan(0.95);
+    });
+
+    it('should downgrade invalid numbers in lenient mode', () => {
+      expect(confidenceOf(detector, '2345 6789 0123')).toBeLessThan(0.9);
+    });
+
+    it('should drop invalid numbers in strict mode', () => {
+      const strict = new PatternDetector({ registry: new DetectorRegistry(), aadhaarStrictness: 'strict' });
+      const values = getDetectionsByType(strict.detectPII(ocrResult), 'AADHAAR').map(d => d.value);
+
+      expect(values).toEqual(['2345 6789 0124', '2345 6789 0123 4565']);
+    });
+
+    it('should apply a strictness given for a single run', () => {
+      const strict = detector.detectPII(ocrResult, { aadhaarStrictness: 'strict' });
+      const unvalidated = detector.detectPII(ocrResult, { aadhaarStrictness: 'off' });
+
+      expect(getDetectionsByType(strict, 'AADHAAR').map(d => d.value)).toEqual([
+        '2345 6789 0124',
+        '2345 6789 0123 4565',
+      ]);
+      expect(getDetectionsByType(unvalidated, 'AADHAAR').map(d => d.confidence)).toEqual([0.9, 0.9, 0.9]);
+      expect(confidenceOf(detector, '2345 6789 0123')).toBeLessThan(0.9);
+    });
+
+    it('should refuse a strictness for a registry that already has an Aadhaar detector', () => {
+      const registry = new DetectorRegistry();
+      new PatternDetector({ registry });
+
+      expect(() => new PatternDetector({ registry, aadhaarStrictness: 'strict' })).toThrow(/separate registry/);
+    });
+
+    it('should treat every match the same when validation is off', () => {
+      const unvalidated = new PatternDetector({ registry: new DetectorRegistry(), aadhaarStrictness: 'off' });
+
+      expect(confidenceOf(unvalidated, '2345 6789 0123')).toBe(0.9);
+      expect(confidenceOf(unvalidated, '2345 6789 0124')).toBe(0.9);
+    });
+
+    it('should give every character of the number its own box', () => {
+      const [aadhaar] = getDetectionsByType(detector.detectPII(ocrResult), 'AADHAAR');
+      const charBoxes = aadhaar.charBoxes!;
+
+      expect(charBoxes).toHaveLength(aadhaar.value.length);
+      // Boxes run left to right inside the detection, skipping the label
+      for (let i = 1; i < charBoxes.length; i++) {
+        expect(charBoxes[i].x).toBeGreaterThanOrEqual(charBoxes[i - 1].x);
+      }
+      expect(charBoxes[0].x).toBeGreaterThan(aadhaar.bbox.x);
+      const last = charBoxes[charBoxes.length - 1];
+      expect(last.x + last.width).toBeCloseTo(aadhaar.bbox.x + aadhaar.bbox.width);
+    });
+  });
+
+  describe('address detection', () => {
+    const addressesIn = (ocrResult: OCRResult) =>
+      getDetectionsByType(detector.detectPII(ocrResult), 'ADDRESS');
+
+    it('should follow a labelled address to its PIN with one region per line', () => {
+      const [address, ...others] = addressesIn(pageWithWords(
+        [300, 20, 'GOVERNMENT OF INDIA'],
+        [300, 100, 'Address: S/O Ramesh Kumar,'],
+        [300, 125, '12 MG Road, Indiranagar,'],
+        [300, 150, 'Bengaluru, Karnataka - 560038'],
+        [300, 175, '1234 5678 9012'],
+      ));
+
+      expect(others).toHaveLength(0);
+      expect(address.value).toBe('S/O Ramesh Kumar, 12 MG Road, Indiranagar, Bengaluru, Karnataka - 560038');
+      expect(address.confidence).toBe(0.9);
+      expect(address.regions).toHaveLength(3);
+      // The label is left visible and nothing outside the address is covered
+      expect(address.regions![0].x).toBe(390);
+      expect(address.bbox.y).toBe(100);
+      expect(address.bbox.y + address.bbox.height).toBe(170);
+    });
+
+    it('should start at a relation prefix and find addresses without a PIN', () => {
+      const [address] = addressesIn(pageWithWords(
+        [300, 60, 'Suresh Kumar'],
+        [300, 100, 'C/O Ramesh Kumar'],
+        [300, 125, 'House 4, Gandhi Nagar'],
+        [300, 150, 'Jaipur'],
+        [300, 175, 'DOB: 01/01/1990'],
+      ));
+
+      expect(address.value).toBe('C/O Ramesh Kumar House 4, Gandhi Nagar Jaipur');
+      expect(address.confidence).toBe(0.8);
+      expect(address.regions).toHaveLength(3);
+    });
+
+    it('should stop at layout boundaries', () => {
+      const [address] = addressesIn(pageWithWords(
+        [300, 100, 'Address:'],
+        [300, 125, '12 MG Road'],
+        [300, 150, 'Bengaluru 560038'],
+        [20, 125, 'Father: Ramesh Kumar'],
+        [300, 250, 'Signature'],
+      ));
+
+      expect(address.value).toBe('12 MG Road Bengaluru 560038');
+      expect(address.regions).toHaveLength(2);
+    });
+
+    it('should ignore six-digit numbers that are not part of an address', () => {
+      expect(addressesIn(pageWithWords([10, 10, 'Invoice 123456 total 4500']))).toHaveLength(0);
+    });
+  });
+
+  describe('name and date of birth detection', () => {
+    const valuesOf = (ocrResult: OCRResult, type: string) =>
+      getDetectionsByType(detector.detectPII(ocrResult), type).map(d => d.value);
+
+    it('should read the name above the date of birth on an Aadhaar card', () => {
+      const ocrResult = pageWithWords(
+        [300, 20, 'GOVERNMENT OF INDIA'],
+        [300, 60, 'Rahul Kumar'],
+        [300, 85, 'DOB: 15/08/1990'],
+        [300, 110, 'Male'],
+        [300, 200, '2345 6789 0124'],
+      );
+      const [dob] = getDetectionsByType(detector.detectPII(ocrResult), 'DOB');
+
+      expect(dob.value).toBe('15/08/1990');
+      expect(dob.confidence).toBe(0.9);
+      // The label stays visible
+      expect(dob.bbox.x).toBe(350);
+      expect(valuesOf(ocrResult, 'NAME')).toEqual(['Rahul Kumar']);
+    });
+
+    it('should read the holder and father names above the date on a PAN card', () => {
+      const ocrResult = pageWithWords(
+        [20, 20, 'INCOME TAX DEPARTMENT'],
+        [20, 60, 'RAHUL KUMAR'],
+        [20, 85, 'SURESH KUMAR'],
+        [20, 110, '01/01/1990'],
+        [20, 150, 'Permanent Account Number'],
+        [20, 175, 'ABCDE1234F'],
+      );
+
+      expect(valuesOf(ocrResult, 'DOB')).toEqual(['01/01/1990']);
+      expect(valuesOf(ocrResult, 'NAME')).toEqual(['SURESH KUMAR', 'RAHUL KUMAR']);
+    });
+
+    it('should read values after labels on the same or the next line', () => {
+      const ocrResult = pageWithWords(
+        [20, 20, 'Name'],
+        [20, 45, 'RAHUL KUMAR'],
+        [20, 90, "Father's Name: SURESH KUMAR"],
+        [20, 135, 'Date of Birth'],
+        [20, 160, '01-JAN-1990'],
+      );
+
+      expect(valuesOf(ocrResult, 'NAME')).toEqual(['RAHUL KUMAR', 'SURESH KUMAR']);
+      expect(valuesOf(ocrResult, 'DOB')).toEqual(['01-JAN-1990']);
+    });
+
+    it('should handle bilingual labels and years of birth', () => {
+      const ocrResult = pageWithWords(
+        [20, 20, 'नाम / Name: Rahul Kumar'],
+        [20, 65, 'जन्म वर्ष / Year of Birth : 1990'],
+      );
+
+      expect(valuesOf(ocrResult, 'NAME')).toEqual(['Rahul Kumar']);
+      expect(valuesOf(ocrResult, 'DOB')).toEqual(['1990']);
+    });
+
+    it('should not treat unlabelled text as names or dates away from ID numbers', () => {
+      const ocrResult = pageWithWords(
+        [20, 20, 'Rahul Kumar'],
+        [20, 45, '01/01/1990'],
+        [20, 90, 'Invoice date 01/02/2020'],
+      );
+
+      expect(valuesOf(ocrResult, 'NAME')).toHaveLength(0);
+      expect(valuesOf(ocrResult, 'DOB')).toHaveLength(0);
+    });
+  });
+
+  describe('regional scripts', () => {
+    it('should detect numbers written in Devanagari digits', () => {
+      const result = detector.detectPII(pageWithWords([20, 20, 'आधार संख्या: २३४५ ६७८९ ०१२४']));
+
+      expect(getDetectionsByType(result, 'AADHAAR').map(d => d.value)).toEqual(['2345 6789 0124']);
+    });
+
+    it('should redact the Hindi name and address lines of a bilingual card', () => {
+      const result = detector.detectPII(pageWithWords(
+        [20, 20, 'नाम: राहुल कुमार'],
+        [20, 80, 'पता: आत्मज: सुरेश कुमार,'],
+        [20, 105, 'गांधी नगर, जयपुर,'],
+        [20, 130, 'राजस्थान - ३०२०१५'],
+        [20, 200, 'Address: S/O Suresh Kumar,'],
+        [20, 225, 'Gandhi Nagar, Jaipur,'],
+        [20, 250, 'Rajasthan - 302015'],
+      ));
+
+      expect(getDetectionsByType(result, 'NAME').map(d => d.value)).toEqual(['राहुल कुमार']);
+      expect(getDetectionsByType(result, 'ADDRESS').map(d => d.value)).toEqual([
+        'आत्मज: सुरेश कुमार, गांधी नगर, जयपुर, राजस्थान - 302015',
+        'S/O Suresh Kumar, Gandhi Nagar, Jaipur, Rajasthan - 302015',
+      ]);
+    });
+  });
+
+  describe('identity document detectors', () => {
+    const pageWith = (...lines: string[]): OCRResult => ({
+      pages: [{
+        pageNumber: 1,
+        width: 800,
+        height: 600,
+        textBlocks: lines.map((text, index) => ({
+          text,
+          confidence: 0.95,
+          bbox: { x: 10, y: 10 + index * 30, width: 300, height: 20 }
+        }))
+      }],
+      success: true
+    });
+
+    const valuesOf = (ocrResult: OCRResult, type: string) =>
+      getDetectionsByType(detector.detectPII(ocrResult), type).map(d => d.value);
+
+    it('should detect passport numbers', () => {
+      expect(valuesOf(pageWith('Passport No. J8369854'), 'PASSPORT')).toEqual(['J8369854']);
+    });
+
+    it('should give passport-shaped numbers without a passport keyword low confidence', () => {
+      const result = detector.detectPII(pageWith('Invoice A1234567 dated B7654321 ref C1234567'));
+
+      expect(getDetectionsByType(result, 'PASSPORT').map(d => d.confidence)).toEqual([0.5, 0.5, 0.5]);
+      const [passport] = getDetectionsByType(detector.detectPII(pageWith('Passport No. J8369854')), 'PASSPORT');
+      expect(passport.confidence).toBe(0.9);
+    });
+
+    it('should detect every occurrence of a value printed twice on a page', () => {
+      const lines = ['Passport No. J8369854', 'IFSC: SBIN0001234', 'A/c No: 31234567890'];
+      const result = detector.detectPII(pageWith(...lines, ...lines));
+
+      for (const type of ['PASSPORT', 'IFSC', 'BANK_ACCOUNT']) {
+        const found = getDetectionsByType(result, type);
+        expect(found).toHaveLength(2);
+        expect(found[1].bbox.y - found[0].bbox.y).toBe(90);
+      }
+    });
+
+    it('should detect voter ID numbers and fix misread digits', () => {
+      expect(valuesOf(pageWith('EPIC No: ABC1234567'), 'VOTER_ID')).toEqual(['ABC1234567']);
+      expect(valuesOf(pageWith('EPIC No: ABC12345O7'), 'VOTER_ID')).toEqual(['ABC1234507']);
+    });
+
+    it('should detect driving licence numbers with separators', () => {
+      expect(valuesOf(pageWith('DL No: MH14 20110062821'), 'DRIVING_LICENCE'))
+        .toEqual(['MH1420110062821']);
+      expect(valuesOf(pageWith('DL No: DL-0420110149646'), 'DRIVING_LICENCE'))
+        .toEqual(['DL0420110149646']);
+    });
+
+    it('should reject driving licence numbers with unknown state codes', () => {
+      expect(valuesOf(pageWith('Ref: QQ14 20110062821'), 'DRIVING_LICENCE')).toHaveLength(0);
+    });
+
+    it('should detect GSTINs and use the check character for confidence', () => {
+      const result = detector.detectPII(pageWith('GSTIN: 27AAPFU0939F1ZV', 'GSTIN: 27AAPFU0939F1ZX'));
+      const gstins = getDetectionsByType(result, 'GSTIN');
+
+      expect(gstins.map(d => d.value)).toEqual(['27AAPFU0939F1ZV', '27AAPFU0939F1ZX']);
+      expect(gstins[0].confidence).toBeGreaterThan(gstins[1].confidence);
+    });
+
+    it('should restore the Z in GSTINs misread as 2', () => {
+      expect(valuesOf(pageWith('GSTIN: 27AAPFU0939F12V'), 'GSTIN')).toEqual(['27AAPFU0939F1ZV']);
+    });
+
+    it('should detect IFSC codes', () => {
+      expect(valuesOf(pageWith('IFSC: SBIN0001234'), 'IFSC')).toEqual(['SBIN0001234']);
+      expect(valuesOf(pageWith('IFSC: SBINO001234'), 'IFSC')).toEqual(['SBIN0001234']);
+    });
+
+    it('should only detect bank account numbers near banking keywords', () => {
+      expect(valuesOf(pageWith('Savings A/c No: 31234567890'), 'BANK_ACCOUNT')).toEqual(['31234567890']);
+      expect(valuesOf(pageWith('Invoice 31234567890'), 'BANK_ACCOUNT')).toHaveLength(0);
     });
   });
 });
@@ -0,0 +1,139 @@
+// @vitest-environment node
+// pdf-lib rejects jsdom's Uint8Array, which comes from another realm
+import { describe, it, expect } from 'vitest';
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFString } from 'pdf-lib';
+import { DEFAULT_SANITIZATION_POLICY, ValueMatcher, sanitizePdf } from '@/lib/pdfSanitizer';
+import { PDFSanitizationPolicy } from '@/types';
+
+const AADHAAR = '2345 6789 0124';
+
+/**
+ * A one-page PDF with every part the sanitiser handles, each mentioning
+ * the Aadhaar number
+ */
+async function createDocument(): Promise<PDFDocument> {
+  const pdfDoc = await PDFDocument.create({ updateMetadata: false });
+  const page = pdfDoc.addPage([200, 200]);
+  const { context } = pdfDoc;
+
+  pdfDoc.setTitle(`Aadhaar ${AADHAAR}`);
+  pdfDoc.setAuthor('Ravi Kumar');
+  pdfDoc.catalog.set(PDFName.of('Metadata'), context.register(context.stream('<x:xmpmeta/>')));
+
+  const form = pdfDoc.getForm();
+  form.createTextField('aadhaar').setText('2345-6789-0124');
+  form.getTextField('aadhaar').addToPage(page, { x: 10, y: 10, width: 150, height: 20 });
+  form.createTextField('city').setText('Pune');
+  form.getTextField('city').addToPage(page, { x: 10, y: 40, width: 150, height: 20 });
+
+  const comment = (contents: string) =>
+    context.register(
+      context.obj({ Type: 'Annot', Subtype: 'Text', Rect: [0, 0, 10, 10], Contents: PDFString.of(contents) })
+    );
+  page.node.addAnnot(comment(`Check ${AADHAAR}`));
+  page.node.addAnnot(comment('Looks fine'));
+
+  await pdfDoc.attach(new TextEncoder().encode(AADHAAR), 'notes.txt');
+  pdfDoc.addJavaScript('greeting', 'app.alert("hi")');
+
+  const outlines = context.obj({ Type: 'Outlines' });
+  const bookmark = context.obj({ Title: PDFHexString.fromText(`Aadhaar ${AADHAAR}`), Parent: outlines });
+  outlines.set(PDFName.of('First'), context.register(bookmark));
+  pdfDoc.catalog.set(PDFName.of('Outlines'), context.register(outlines));
+
+  // Flush the attachment and script into the document
+  await pdfDoc.flush();
+  return pdfDoc;
+}
+
+function getAnnotationSubtypes(pdfDoc: PDFDocument): string[] {
+  const annots = pdfDoc.getPage(0).node.Annots()?.asArray() ?? [];
+  return annots.map(ref => String(pdfDoc.context.lookup(ref, PDFDict).get(PDFName.of('Subtype'))));
+}
+
+describe('ValueMatcher', () => {
+  it('should find values however they are spaced', () => {
+    const matcher = new ValueMatcher([AADHAAR, 'AB']);
+
+    expect(matcher.matches('No. 2345-6789-0124')).toBe(true);
+    expect(matcher.matches('AB')).toBe(false);
+    expect(matcher.scrub('No. 2345-6789-0124.')).toBe('No. XXXX-XXXX-XXXX.');
+  });
+});
+
+describe('sanitizePdf', () => {
+  it('should remove every part by default and list what was removed', async () => {
+    const pdfDoc = await createDocument();
+
+    const records = sanitizePdf(pdfDoc, DEFAULT_SANITIZATION_POLICY, [AADHAAR]);
+    const saved = await PDFDocument.load(await pdfDoc.save({ updateFieldAppearances: false }), {
+      updateMetadata: false,
+    });
+
+    expect(records).toEqual(
+      expect.arrayContaining([
+        { part: 'formFields', action: 'removed', description: 'Field "aadhaar"' },
+        { part: 'annotations', action: 'removed', description: 'Text annotation on page 1' },
+        { part: 'metadata', action: 'removed', description: 'Title' },
+        { part: 'metadata', action: 'removed', description: 'Author' },
+        { part: 'metadata', action: 'removed', description: 'XMP metadata' },
+        { part: 'attachments', action: 'removed', description: 'Attachment "notes.txt"' },
+        { part: 'javascript', action: 'removed', description: 'Document scripts' },
+        { part: 'bookmarks', action: 'removed', description: 'Bookmarks' },
+      ])
+    );
+    expect(saved.getTitle()).toBeUndefined();
+    expect(saved.getAuthor()).toBeUndefined();
+    expect(getAnnotationSubtypes(saved)).toEqual([]);
+    for (const key of ['AcroForm', 'Metadata', 'Outlines']) {
+      expect(saved.catalog.get(PDFName.of(key))).toBeUndefined();
+    }
+    const names = saved.catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+    expect(names?.get(PDFName.of('EmbeddedFiles'))).toBeUndefined();
+    expect(names?.get(PDFName.of('JavaScript'))).toBeUndefined();
+  });
+
+  it('should hide redacted values and keep everything else when scrubbing', async () => {
+    const pdfDoc = await createDocument();
+    const policy: PDFSanitizationPolicy = {
+      ...DEFAULT_SANITIZATION_POLICY,
+      metadata: 'scrub',
+      annotations: 'scrub',
+      formFields: 'scrub',
+      bookmarks: 'scrub',
+      attachments: 'keep',
+      javascript: 'keep',
+    };
+
+    const records = sanitizePdf(pdfDoc, policy, [AADHAAR]);
+
+    expect(records).toEqual([
+      { part: 'formFields', action: 'scrubbed', description: 'Field "aadhaar"' },
+      { part: 'annotations', action: 'removed', description: 'Text annotation on page 1' },
+      { part: 'metadata', action: 'scrubbed', description: 'Title' },
+      { part: 'metadata', action: 'removed', description: 'XMP metadata' },
+      { part: 'bookmarks', action: 'scrubbed', description: 'Bookmark title' },
+    ]);
+    expect(pdfDoc.getTitle()).toBe('Aadhaar XXXX XXXX XXXX');
+    expect(pdfDoc.getAuthor()).toBe('Ravi Kumar');
+    expect(pdfDoc.getForm().getTextField('aadhaar').getText()).toBe('XXXX-XXXX-XXXX');
+    expect(pdfDoc.getForm().getTextField('city').getText()).toBe('Pune');
+    expect(getAnnotationSubtypes(pdfDoc)).toEqual(['/Widget', '/Widget', '/Text']);
+  });
+
+  it('should drop objects nothing refers to', async () => {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage().drawText('2345 6789 0124');
+    const contents = pdfDoc.getPage(0).node.lookup(PDFName.of('Contents'), PDFArray).asArray();
+    pdfDoc.removePage(0);
+    pdfDoc.addPage();
+
+    sanitizePdf(pdfDoc, DEFAULT_SANITIZATION_POLICY, []);
+
+    expect(contents.length).toBeGreaterThan(0);
+    for (const ref of contents) {
+      expect(pdfDoc.context.lookup(ref)).toBeUndefined();
+    }
+    expect(pdfDoc.getPageCount()).toBe(1);
+  });
+});
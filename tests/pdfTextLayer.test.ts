@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countTextLayerCharacters,
+  findImageRegions,
+  overlapsExistingText,
+  textItemsToTextBlocks,
+} from '@/lib/pdfTextLayer';
+import { PageGeometry } from '@/types';
+
+const geometry: PageGeometry = { scale: 2, rotation: 0, viewBox: [0, 0, 600, 800] };
+
+const ops = {
+  save: 10,
+  restore: 11,
+  transform: 12,
+  paintFormXObjectBegin: 74,
+  paintFormXObjectEnd: 75,
+  paintImageOps: [85],
+};
+
+describe('pdfTextLayer', () => {
+  describe('textItemsToTextBlocks', () => {
+    it('should split text items into word blocks in pixel space', () => {
+      const blocks = textItemsToTextBlocks(
+        [{ str: 'PAN ABCDE1234F', transform: [10, 0, 0, 10, 100, 700], width: 140, height: 10 }],
+        geometry
+      );
+
+      expect(blocks.map(b => b.text)).toEqual(['PAN', 'ABCDE1234F']);
+      expect(blocks[0].confidence).toBe(1);
+
+      // 10pt glyphs at 2x scale, 10pt per character
+      expect(blocks[0].bbox.x).toBeCloseTo(200);
+      expect(blocks[0].bbox.width).toBeCloseTo(60);
+      expect(blocks[1].bbox.x).toBeCloseTo(280);
+      expect(blocks[1].bbox.width).toBeCloseTo(200);
+
+      // Baseline at y=700pt is 200px from the top; glyphs rise 10pt above it
+      expect(blocks[1].bbox.y).toBeCloseTo(180);
+      expect(blocks[1].bbox.y + blocks[1].bbox.height).toBeCloseTo(205);
+    });
+
+    it('should skip whitespace-only items', () => {
+      const blocks = textItemsToTextBlocks(
+        [{ str: '   ', transform: [10, 0, 0, 10, 0, 0], width: 30, height: 10 }],
+        geometry
+      );
+
+      expect(blocks).toHaveLength(0);
+    });
+  });
+
+  describe('countTextLayerCharacters', () => {
+    it('should ignore whitespace', () => {
+      expect(
+        countTextLayerCharacters([
+          { str: ' a b ', transform: [], width: 0, height: 0 },
+          { str: 'cd', transform: [], width: 0, height: 0 },
+        ])
+      ).toBe(4);
+    });
+  });
+
+  describe('findImageRegions', () => {
+    it('should locate images painted under the current transform', () => {
+      const regions = findImageRegions(
+        {
+          fnArray: [10, 12, 85, 11, 85],
+          argsArray: [[], [200, 0, 0, 100, 50, 600], ['img_1'], [], ['img_2']],
+        },
+        ops,
+        geometry
+      );
+
+      // The second image is painted into a 1x1pt square and is too small to OCR
+      expect(regions).toHaveLength(1);
+      expect(regions[0]).toEqual({ x: 100, y: 200, width: 400, height: 200 });
+    });
+
+    it('should apply form XObject matrices', () => {
+      const regions = findImageRegions(
+        {
+          fnArray: [74, 12, 85, 75],
+          argsArray: [[[1, 0, 0, 1, 100, 100], null], [100, 0, 0, 100, 0, 0], ['img_1'], []],
+        },
+        ops,
+        geometry
+      );
+
+      expect(regions[0]).toEqual({ x: 200, y: 1200, width: 200, height: 200 });
+    });
+  });
+
+  describe('overlapsExistingText', () => {
+    it('should detect words already covered by the text layer', () => {
+      const existing = [{ text: 'Name', confidence: 1, bbox: { x: 0, y: 0, width: 100, height: 20 } }];
+
+      expect(overlapsExistingText({ x: 10, y: 2, width: 50, height: 16 }, existing)).toBe(true);
+      expect(overlapsExistingText({ x: 200, y: 2, width: 50, height: 16 }, existing)).toBe(false);
+    });
+  });
+});
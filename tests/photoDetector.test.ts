@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { findPhotoRegions } from '@/lib/photoDetector';
+import { BoundingBox, PageImage } from '@/types';
+
+type Colour = [number, number, number];
+
+const CARD: Colour = [245, 235, 215];
+const SKIN: Colour = [224, 172, 140];
+const EYE: Colour = [40, 30, 30];
+
+/**
+ * Build a card image, letting paint choose the colour of each pixel
+ */
+function createImage(
+  width: number,
+  height: number,
+  paint: (x: number, y: number) => Colour | null
+): PageImage {
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [r, g, b] = paint(x, y) ?? CARD;
+      const offset = (y * width + x) * 4;
+      data[offset] = r;
+      data[offset + 1] = g;
+      data[offset + 2] = b;
+      data[offset + 3] = 255;
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * An oval face centred at (cx, cy) with two dark eyes
+ */
+const face = (cx: number, cy: number, rx: number, ry: number) =>
+  (x: number, y: number): Colour | null => {
+    const inEye = Math.abs(y - (cy - ry * 0.2)) < ry * 0.08 &&
+      Math.abs(Math.abs(x - cx) - rx * 0.4) < rx * 0.15;
+    if (inEye) return EYE;
+
+    const inFace = ((x - cx) / rx) ** 2 + ((y - cy) / ry) ** 2 <= 1;
+    return inFace ? SKIN : null;
+  };
+
+const contains = (outer: BoundingBox, inner: BoundingBox) =>
+  outer.x <= inner.x &&
+  outer.y <= inner.y &&
+  outer.x + outer.width >= inner.x + inner.width &&
+  outer.y + outer.height >= inner.y + inner.height;
+
+describe('findPhotoRegions', () => {
+  it('should find the portrait around a face and include the whole face', () => {
+    const image = createImage(400, 250, face(320, 110, 30, 40));
+
+    const regions = findPhotoRegions(image, []);
+
+    expect(regions).toHaveLength(1);
+    expect(contains(regions[0], { x: 290, y: 70, width: 60, height: 80 })).toBe(true);
+    // The portrait covers the head and shoulders, not the whole card
+    expect(regions[0].width * regions[0].height).toBeLessThan(400 * 250 * 0.3);
+  });
+
+  it('should ignore flat skin-toned areas without facial texture', () => {
+    const image = createImage(400, 250, (x, y) =>
+      x >= 290 && x < 350 && y >= 70 && y < 150 ? SKIN : null
+    );
+
+    expect(findPhotoRegions(image, [])).toHaveLength(0);
+  });
+
+  it('should ignore skin-toned areas covered by recognised text', () => {
+    const image = createImage(400, 250, face(320, 110, 30, 40));
+    const textBoxes = [{ x: 280, y: 60, width: 80, height: 100 }];
+
+    expect(findPhotoRegions(image, textBoxes)).toHaveLength(0);
+  });
+
+  it('should return nothing for a blank page', () => {
+    expect(findPhotoRegions(createImage(200, 200, () => null), [])).toHaveLength(0);
+  });
+});
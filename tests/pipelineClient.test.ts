@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PipelineClient } from '@/lib/pipelineClient';
+import { CancelledError } from '@/lib/cancellation';
+import { getDetectorRegistry } from '@/lib/detectorRegistry';
+import type { PipelineRequest, PipelineResponse } from '@/lib/pipelineMessages';
+import { OCRResult } from '@/types';
+
+/**
+ * Stands in for the pipeline worker: records requests and lets the test
+ * send responses
+ */
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+
+  requests: PipelineRequest[] = [];
+  private listeners: ((event: MessageEvent<PipelineResponse>) => void)[] = [];
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: (event: MessageEvent<PipelineResponse>) => void) {
+    if (type === 'message') {
+      this.listeners.push(listener);
+    }
+  }
+
+  postMessage(request: PipelineRequest) {
+    this.requests.push(request);
+  }
+
+  respond(response: PipelineResponse) {
+    for (const listener of this.listeners) {
+      listener({ data: response } as MessageEvent<PipelineResponse>);
+    }
+  }
+
+  terminate() {}
+}
+
+const ocrResult: OCRResult = {
+  pages: [{ pageNumber: 1, width: 800, height: 600, textBlocks: [] }],
+  success: true,
+};
+
+const file = new File(['content'], 'card.png', { type: 'image/png' });
+
+describe('PipelineClient', () => {
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.stubGlobal('OffscreenCanvas', class {});
+    URL.createObjectURL = vi.fn(() => 'blob:redacted');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should pass stage and progress messages to the callbacks', async () => {
+    const client = new PipelineClient();
+    const onStage = vi.fn();
+    const onProgress = vi.fn();
+
+    const detecting = client.detectDocument(file, { language: 'tam', onStage, onProgress });
+    const [worker] = FakeWorker.instances;
+    const [request] = worker.requests;
+
+    expect(request).toMatchObject({ type: 'detect', file, language: 'tam' });
+
+    const progress = { completedPages: 0, totalPages: 1, progress: 0.5 };
+    worker.respond({ type: 'stage', id: request.id, stage: 'extracting' });
+    worker.respond({ type: 'progress', id: request.id, stage: 'extracting', progress });
+    worker.respond({
+      type: 'detected',
+      id: request.id,
+      result: { ocrResult, detections: { detections: [] } },
+    });
+
+    await expect(detecting).resolves.toEqual({ ocrResult, detections: { detections: [] } });
+    expect(onStage).toHaveBeenCalledWith('extracting');
+    expect(onProgress).toHaveBeenCalledWith('extracting', progress);
+  });
+
+  it('should rebuild the redacted document from its bytes', async () => {
+    const client = new PipelineClient();
+
+    const redacting = client.redactDocument(file, { detections: [] }, { pages: ocrResult.pages });
+    const [worker] = FakeWorker.instances;
+    const [request] = worker.requests;
+
+    expect(request).toMatchObject({ type: 'redact', settings: { pages: ocrResult.pages } });
+
+    const bytes = new TextEncoder().encode('redacted').buffer as ArrayBuffer;
+    worker.respond({ type: 'redacted', id: request.id, document: { bytes, mimeType: 'image/png' } });
+
+    const document = await redacting;
+    expect(document.mimeType).toBe('image/png');
+    expect(document.blob.type).toBe('image/png');
+    expect(document.blob.size).toBe(8);
+    expect(document.previewUrl).toBe('blob:redacted');
+  });
+
+  it('should send the Aadhaar strictness and return what a batch left unredacted', async () => {
+    const client = new PipelineClient();
+    const unredacted = [
+      {
+        type: 'AADHAAR' as const,
+        value: '2345 6789 0123',
+        confidence: 0.5,
+        bbox: { x: 10, y: 10, width: 120, height: 20 },
+        pageNumber: 1,
+      },
+    ];
+
+    const processing = client.processDocument(file, { aadhaarStrictness: 'strict' });
+    const [worker] = FakeWorker.instances;
+    const [request] = worker.requests;
+
+    expect(request).toMatchObject({ type: 'process', aadhaarStrictness: 'strict' });
+
+    const bytes = new TextEncoder().encode('redacted').buffer as ArrayBuffer;
+    worker.respond({
+      type: 'processed',
+      id: request.id,
+      result: { ocrResult, detections: { detections: [] }, unredacted },
+      document: { bytes, mimeType: 'image/png' },
+    });
+
+    await expect(processing).resolves.toMatchObject({ unredacted });
+  });
+
+  it('should label detections with the detectors the worker describes', async () => {
+    const client = new PipelineClient();
+
+    const detecting = client.detectDocument(file);
+    const [worker] = FakeWorker.instances;
+    worker.respond({
+      type: 'detectors',
+      detectors: [{ type: 'EMPLOYEE_ID', label: 'Employee IDs', color: '#facc15' }],
+    });
+    worker.respond({
+      type: 'detected',
+      id: worker.requests[0].id,
+      result: { ocrResult, detections: { detections: [] } },
+    });
+
+    await detecting;
+    expect(getDetectorRegistry().getAll()).toEqual([]);
+    expect(getDetectorRegistry().describe('EMPLOYEE_ID')).toEqual({
+      label: 'Employee IDs',
+      color: '#facc15',
+    });
+  });
+
+  it('should report worker failures as errors', async () => {
+    const client = new PipelineClient();
+
+    const detecting = client.detectDocument(file);
+    const [worker] = FakeWorker.instances;
+    worker.respond({
+      type: 'failed',
+      id: worker.requests[0].id,
+      error: 'OCR extraction failed',
+      cancelled: false,
+    });
+
+    await expect(detecting).rejects.toThrow('OCR extraction failed');
+  });
+
+  it('should cancel the request in the worker when aborted', async () => {
+    const client = new PipelineClient();
+    const controller = new AbortController();
+    const onStage = vi.fn();
+
+    const processing = client.processDocument(file, { signal: controller.signal, onStage });
+    const [worker] = FakeWorker.instances;
+    const [request] = worker.requests;
+
+    controller.abort();
+
+    await expect(processing).rejects.toBeInstanceOf(CancelledError);
+    expect(worker.requests[1]).toEqual({ type: 'cancel', id: request.id });
+
+    // Messages sent before the worker saw the cancellation are dropped
+    worker.respond({ type: 'stage', id: request.id, stage: 'redacting' });
+    expect(onStage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { ProgressTracker } from '@/lib/progressTracker';
+import { PageProgress } from '@/types';
+
+describe('ProgressTracker', () => {
+  it('should combine the progress of pages processed in parallel', () => {
+    const reports: PageProgress[] = [];
+    const tracker = new ProgressTracker(4, progress => reports.push(progress));
+
+    tracker.update(1, 0.5);
+    tracker.update(2, 0.5);
+    tracker.complete(3);
+
+    expect(reports.map(report => report.progress)).toEqual([0.125, 0.25, 0.5]);
+    expect(reports[2]).toMatchObject({ completedPages: 1, totalPages: 4 });
+  });
+
+  it('should only report when the whole percentage changes', () => {
+    const reports: PageProgress[] = [];
+    const tracker = new ProgressTracker(1, progress => reports.push(progress));
+
+    tracker.update(1, 0.101);
+    tracker.update(1, 0.102);
+    tracker.update(1, 0.109);
+    tracker.update(1, 0.11);
+
+    expect(reports).toHaveLength(2);
+  });
+
+  it('should always report completed pages', () => {
+    const reports: PageProgress[] = [];
+    const tracker = new ProgressTracker(2, progress => reports.push(progress));
+
+    tracker.update(1, 1);
+    tracker.complete(1);
+
+    expect(reports).toHaveLength(2);
+    expect(reports[1]).toEqual({ completedPages: 1, totalPages: 2, progress: 0.5 });
+  });
+});
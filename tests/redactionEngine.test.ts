@@ -0,0 +1,252 @@
+// @vitest-environment node
+// pdf-lib rejects jsdom's Uint8Array, which comes from another realm
+import { describe, it, expect, vi } from 'vitest';
+import {
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFRawStream,
+  StandardFonts,
+  decodePDFRawStream,
+} from 'pdf-lib';
+import { DEFAULT_SANITIZATION_POLICY } from '@/lib/pdfSanitizer';
+import { RedactionEngine } from '@/lib/redactionEngine';
+import { DetectionResult, RedactionOptions } from '@/types';
+
+// A 1×1 white PNG stands in for every rendered page
+const PNG_BYTES = Uint8Array.from(
+  atob('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg=='),
+  character => character.charCodeAt(0)
+);
+
+// Pages are rendered by pdf.js onto a canvas, neither of which exist here
+vi.mock('@/lib/pdfjs', () => ({
+  loadPdfDocument: vi.fn(async () => ({
+    getPage: async () => ({
+      rotate: 0,
+      view: [0, 0, 300, 200],
+      getViewport: ({ scale }: { scale: number }) => ({ width: 300 * scale, height: 200 * scale }),
+      cleanup: () => undefined,
+    }),
+    destroy: async () => undefined,
+  })),
+  renderPdfPage: () => ({ promise: Promise.resolve(), cancel: () => undefined }),
+}));
+
+vi.mock('@/lib/canvas', () => ({
+  createCanvas: (width: number, height: number) => ({ width, height }),
+  getContext2d: () => ({ fillStyle: '', fillRect: () => undefined }),
+  canvasToBlob: async () => new Blob([PNG_BYTES], { type: 'image/png' }),
+  releaseCanvas: () => undefined,
+  loadImageBitmap: vi.fn(),
+}));
+
+const AADHAAR = '2345 6789 0124';
+
+/**
+ * Every string a PDF holds: its bytes, and the decoded content of its streams
+ */
+async function readAllText(bytes: Uint8Array): Promise<string> {
+  const pdfDoc = await PDFDocument.load(bytes, { updateMetadata: false });
+  const decoder = new TextDecoder('latin1');
+  const texts = [decoder.decode(bytes)];
+
+  for (const [, object] of pdfDoc.context.enumerateIndirectObjects()) {
+    if (object instanceof PDFRawStream) {
+      texts.push(decoder.decode(decodePDFRawStream(object).decode()));
+    }
+  }
+  return texts.join('\n');
+}
+
+/**
+ * Whether text appears in a PDF as a literal or hex string
+ */
+function containsText(haystack: string, text: string): boolean {
+  const hex = Array.from(text, character => character.charCodeAt(0).toString(16).padStart(2, '0')).join('');
+  return haystack.includes(text) || haystack.toLowerCase().includes(hex);
+}
+
+/**
+ * Two pages: the first shows the Aadhaar number, the second links to it
+ */
+async function createDocument(): Promise<PDFDocument> {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  for (const text of [`Aadhaar ${AADHAAR}`, 'Nothing to hide']) {
+    pdfDoc.addPage([300, 200]).drawText(text, { x: 20, y: 100, size: 12, font });
+  }
+
+  const { context } = pdfDoc;
+  const link = context.obj({
+    Type: 'Annot',
+    Subtype: 'Link',
+    Rect: [0, 0, 50, 20],
+    Dest: [pdfDoc.getPage(0).ref, PDFName.of('Fit')],
+  });
+  pdfDoc.getPage(1).node.addAnnot(context.register(link));
+  return pdfDoc;
+}
+
+/**
+ * Objects outside the page tree that point at the first page: a tagged
+ * PDF's structure element, a bookmark and a form field's widget
+ */
+function addPageReferences(pdfDoc: PDFDocument): void {
+  const { context, catalog } = pdfDoc;
+  const page = pdfDoc.getPage(0).ref;
+
+  const structElem = context.register(context.obj({ Type: 'StructElem', S: 'P', Pg: page, K: 0 }));
+  catalog.set(
+    PDFName.of('StructTreeRoot'),
+    context.register(context.obj({ Type: 'StructTreeRoot', K: [structElem] }))
+  );
+  catalog.set(PDFName.of('MarkInfo'), context.obj({ Marked: true }));
+
+  const outlines = context.nextRef();
+  const bookmark = context.register(
+    context.obj({
+      Title: PDFHexString.fromText('Card'),
+      Parent: outlines,
+      Dest: [page, PDFName.of('Fit')],
+    })
+  );
+  context.assign(outlines, context.obj({ Type: 'Outlines', First: bookmark, Last: bookmark, Count: 1 }));
+  catalog.set(PDFName.of('Outlines'), outlines);
+
+  const widget = context.register(
+    context.obj({
+      Type: 'Annot',
+      Subtype: 'Widget',
+      FT: 'Tx',
+      T: PDFHexString.fromText('Note'),
+      Rect: [0, 0, 50, 20],
+      P: page,
+    })
+  );
+  catalog.set(PDFName.of('AcroForm'), context.obj({ Fields: [widget] }));
+}
+
+const SCAN = 'Scanned card pixels';
+
+/**
+ * Put a scanned image under the first page's text, with the resources of
+ * both pages in one dictionary that they share or inherit from the page tree
+ */
+function addScan(pdfDoc: PDFDocument, resourcesFrom: 'shared' | 'inherited'): void {
+  const { context } = pdfDoc;
+  const scan = context.register(
+    context.stream(SCAN, {
+      Type: 'XObject',
+      Subtype: 'Image',
+      Width: 1,
+      Height: 1,
+      ColorSpace: 'DeviceGray',
+      BitsPerComponent: 8,
+    })
+  );
+  const drawScan = context.stream('q 300 0 0 200 0 0 cm /Scan Do Q');
+  pdfDoc.getPage(0).node.addContentStream(context.register(drawScan));
+
+  const fonts = context.obj({});
+  for (const page of pdfDoc.getPages()) {
+    const pageFonts = page.node.Resources()?.lookup(PDFName.of('Font'), PDFDict);
+    pageFonts?.entries().forEach(([name, font]) => fonts.set(name, font));
+    page.node.delete(PDFName.of('Resources'));
+  }
+  const resources = context.obj({ Font: fonts, XObject: { Scan: scan } });
+
+  if (resourcesFrom === 'shared') {
+    const ref = context.register(resources);
+    pdfDoc.getPages().forEach(page => page.node.set(PDFName.of('Resources'), ref));
+  } else {
+    pdfDoc.catalog.Pages().set(PDFName.of('Resources'), resources);
+  }
+}
+
+const detections: DetectionResult = {
+  detections: [
+    {
+      type: 'AADHAAR',
+      value: AADHAAR,
+      confidence: 0.95,
+      bbox: { x: 70, y: 88, width: 90, height: 14 },
+      pageNumber: 1,
+    },
+  ],
+};
+
+async function redact(pdfDoc: PDFDocument, options: RedactionOptions = {}): Promise<Uint8Array> {
+  const file = new File([new Uint8Array(await pdfDoc.save())], 'card.pdf', { type: 'application/pdf' });
+  const redacted = await new RedactionEngine().applyRedactions(file, detections, options);
+  URL.revokeObjectURL(redacted.previewUrl);
+  return new Uint8Array(await redacted.blob.arrayBuffer());
+}
+
+describe('RedactionEngine', () => {
+  it('should leave none of the text of rasterized pages in the file', async () => {
+    const pdfDoc = await createDocument();
+    expect(containsText(await readAllText(await pdfDoc.save()), AADHAAR)).toBe(true);
+
+    // Links to the page are kept, so its old content cannot hang off them
+    const text = await readAllText(
+      await redact(pdfDoc, { sanitization: { ...DEFAULT_SANITIZATION_POLICY, annotations: 'keep' } })
+    );
+
+    expect(containsText(text, AADHAAR)).toBe(false);
+    expect(containsText(text, 'Aadhaar')).toBe(false);
+    // Pages without detections are left as they were
+    expect(containsText(text, 'Nothing to hide')).toBe(true);
+  });
+
+  it.each(['keep', 'scrub'] as const)(
+    'should leave no text behind structure, bookmarks and widgets that %s',
+    async action => {
+      const pdfDoc = await createDocument();
+      addPageReferences(pdfDoc);
+
+      const redacted = await redact(pdfDoc, {
+        sanitization: { ...DEFAULT_SANITIZATION_POLICY, bookmarks: action, formFields: action },
+      });
+      const saved = await PDFDocument.load(redacted);
+
+      // The references survive, and lead to the rasterized page
+      expect(saved.catalog.get(PDFName.of('StructTreeRoot'))).toBeDefined();
+      expect(saved.catalog.get(PDFName.of('Outlines'))).toBeDefined();
+      expect(saved.catalog.get(PDFName.of('AcroForm'))).toBeDefined();
+      expect(containsText(await readAllText(redacted), AADHAAR)).toBe(false);
+    }
+  );
+
+  it.each(['shared', 'inherited'] as const)(
+    'should leave no image of rasterized pages in %s resources',
+    async resourcesFrom => {
+      const pdfDoc = await createDocument();
+      addScan(pdfDoc, resourcesFrom);
+      expect(await readAllText(await pdfDoc.save())).toContain(SCAN);
+
+      const redacted = await redact(pdfDoc);
+      const text = await readAllText(redacted);
+
+      expect(text).not.toContain(SCAN);
+      expect(containsText(text, AADHAAR)).toBe(false);
+
+      // The other page keeps the font it uses, and nothing else
+      const saved = await PDFDocument.load(redacted);
+      const resources = saved.getPage(1).node.Resources();
+      expect(resources?.lookup(PDFName.of('Font'), PDFDict).keys()).toHaveLength(1);
+      expect(resources?.lookup(PDFName.of('XObject'), PDFDict).keys()).toHaveLength(0);
+      expect(saved.catalog.Pages().get(PDFName.of('Resources'))).toBeUndefined();
+      expect(containsText(text, 'Nothing to hide')).toBe(true);
+    }
+  );
+
+  it('should keep the rasterized page in place, at its size', async () => {
+    const saved = await PDFDocument.load(await redact(await createDocument()));
+
+    expect(saved.getPageCount()).toBe(2);
+    expect(saved.getPage(0).getSize()).toEqual({ width: 300, height: 200 });
+    expect(saved.getPage(0).node.Resources()?.toString()).toContain('/XObject');
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { getRedactionRegions } from '@/lib/redactionRegions';
+import { Detection } from '@/types';
+
+/**
+ * A detection whose characters are laid out 10 pixels apart
+ */
+function createDetection(type: Detection['type'], value: string): Detection {
+  return {
+    type,
+    value,
+    confidence: 0.95,
+    bbox: { x: 100, y: 50, width: value.length * 10, height: 20 },
+    pageNumber: 1,
+    charBoxes: Array.from(value, (_, i) => ({ x: 100 + i * 10, y: 50, width: 10, height: 20 })),
+  };
+}
+
+describe('getRedactionRegions', () => {
+  const aadhaar = createDetection('AADHAAR', '2345 6789 0124');
+  const pan = createDetection('PAN', 'ABCDE1234F');
+
+  it('should cover every detection in full when masking is off', () => {
+    expect(getRedactionRegions([aadhaar, pan])).toEqual([
+      { bbox: aadhaar.bbox, type: 'AADHAAR' },
+      { bbox: pan.bbox, type: 'PAN' },
+    ]);
+  });
+
+  it('should only mask Aadhaar detections', () => {
+    const regions = getRedactionRegions([aadhaar, pan], { printMaskToken: false });
+
+    expect(regions[0]).toEqual({ bbox: { x: 100, y: 50, width: 90, height: 20 }, type: 'AADHAAR' });
+    expect(regions[1]).toEqual({ bbox: pan.bbox, type: 'PAN' });
+  });
+
+  it('should carry the mask token only when asked to print it', () => {
+    const [region] = getRedactionRegions([aadhaar], { printMaskToken: true });
+
+    expect(region.label).toBe('XXXX XXXX');
+  });
+
+  it('should cover detections with regions region by region', () => {
+    const regions = [
+      { x: 100, y: 100, width: 300, height: 20 },
+      { x: 100, y: 125, width: 180, height: 20 },
+    ];
+    const address: Detection = { ...pan, type: 'ADDRESS', bbox: { x: 100, y: 100, width: 300, height: 45 }, regions };
+
+    expect(getRedactionRegions([address])).toEqual(regions.map(bbox => ({ bbox, type: 'ADDRESS' })));
+  });
+
+  it('should cover resized detections in full', () => {
+    const resized = { ...aadhaar, charBoxes: undefined };
+
+    expect(getRedactionRegions([resized], { printMaskToken: true })).toEqual([{ bbox: resized.bbox, type: 'AADHAAR' }]);
+  });
+});
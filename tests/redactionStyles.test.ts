@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_REDACTION_STYLE,
+  MIN_REDACTION_STRENGTH,
+  getObscureBlockSize,
+  getStyleLabel,
+  paintRegions,
+  parseHexColor,
+  requiresRasterizing,
+} from '@/lib/redactionStyles';
+import type { PageCanvasContext } from '@/lib/canvas';
+import { RedactionStyle } from '@/types';
+
+/**
+ * A 2D context that records the boxes filled and the text printed
+ */
+function createRecordingContext() {
+  const fills: { color: string; rect: number[] }[] = [];
+  const texts: { color: string; text: string; font: string }[] = [];
+
+  const ctx = {
+    fillStyle: '',
+    font: '',
+    textBaseline: '',
+    fillRect(...rect: number[]) {
+      fills.push({ color: ctx.fillStyle, rect });
+    },
+    fillText(text: string) {
+      texts.push({ color: ctx.fillStyle, text, font: ctx.font });
+    },
+    measureText(text: string) {
+      return { width: text.length * 0.6 };
+    },
+  };
+
+  return { ctx: ctx as unknown as PageCanvasContext, fills, texts };
+}
+
+const labelStyle: RedactionStyle = {
+  ...DEFAULT_REDACTION_STYLE,
+  type: 'label',
+  fillColor: '#1e3a8a',
+  labelColor: '#ffffff',
+  font: 'serif',
+};
+
+describe('redaction styles', () => {
+  it('should rasterize PDF pages for blur, pixelation and non-Latin labels', () => {
+    expect(requiresRasterizing(DEFAULT_REDACTION_STYLE)).toBe(false);
+    expect(requiresRasterizing(labelStyle)).toBe(false);
+    expect(requiresRasterizing({ ...labelStyle, labelText: '[{type} हटाया गया]' })).toBe(true);
+    expect(requiresRasterizing({ ...DEFAULT_REDACTION_STYLE, type: 'blur' })).toBe(true);
+    expect(requiresRasterizing({ ...DEFAULT_REDACTION_STYLE, type: 'pixelate' })).toBe(true);
+  });
+
+  it('should fill the detection type into labels', () => {
+    expect(getStyleLabel('AADHAAR', labelStyle)).toBe('[AADHAAR REDACTED]');
+    expect(getStyleLabel('QR_CODE', { ...labelStyle, labelText: '{type} removed' })).toBe('QR CODE removed');
+  });
+
+  it('should read bad colours as black', () => {
+    expect(parseHexColor('#ff8000')).toEqual([1, 128 / 255, 0]);
+    expect(parseHexColor('red')).toEqual([0, 0, 0]);
+    expect(parseHexColor('#ff800080')).toEqual([0, 0, 0]);
+  });
+
+  it('should scale blocks with the region height and strength', () => {
+    expect(getObscureBlockSize(40, 5)).toBe(20);
+    expect(getObscureBlockSize(40, 10)).toBe(40);
+    expect(getObscureBlockSize(40, 50)).toBe(40);
+    expect(getObscureBlockSize(3, 5)).toBe(2);
+  });
+
+  it('should leave at most two blocks per character height at the smallest strength', () => {
+    for (const height of [12, 20, 40, 100]) {
+      expect(height / getObscureBlockSize(height, MIN_REDACTION_STRENGTH)).toBeLessThanOrEqual(2);
+      expect(height / getObscureBlockSize(height, 1)).toBeLessThanOrEqual(2);
+    }
+  });
+
+  it('should paint solid boxes in the fill colour', () => {
+    const { ctx, fills, texts } = createRecordingContext();
+
+    paintRegions(ctx, [{ bbox: { x: 10, y: 20, width: 100, height: 20 }, type: 'PAN' }], {
+      ...DEFAULT_REDACTION_STYLE,
+      fillColor: '#ff0000',
+    });
+
+    expect(fills).toEqual([{ color: 'rgb(255, 0, 0)', rect: [10, 20, 100, 20] }]);
+    expect(texts).toEqual([]);
+  });
+
+  it('should print labels, keeping mask tokens black on white', () => {
+    const { ctx, fills, texts } = createRecordingContext();
+
+    paintRegions(
+      ctx,
+      [
+        { bbox: { x: 10, y: 20, width: 100, height: 20 }, type: 'PAN' },
+        { bbox: { x: 10, y: 60, width: 90, height: 20 }, type: 'AADHAAR', label: 'XXXX XXXX' },
+      ],
+      labelStyle
+    );
+
+    expect(fills.map(fill => fill.color)).toEqual(['rgb(30, 58, 138)', 'rgb(255, 255, 255)']);
+    expect(texts).toMatchObject([
+      { text: '[PAN REDACTED]', color: 'rgb(255, 255, 255)' },
+      { text: 'XXXX XXXX', color: 'rgb(0, 0, 0)' },
+    ]);
+    expect(texts[0].font).toContain('serif');
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect } from 'vitest';
+import { processingReducer } from '@/lib/stateReducer';
+import { buildDetectionResult } from '@/lib/reviewItems';
+import { getDetectionsByType } from '@/lib/detectionResults';
+import { Detection, DetectionResult, OCRResult, ProcessingState } from '@/types';
+
+describe('processingReducer', () => {
+  const ocrResult: OCRResult = {
+    pages: [{ pageNumber: 1, width: 800, height: 600, textBlocks: [] }],
+    success: true,
+  };
+
+  const aadhaar: Detection = {
+    type: 'AADHAAR',
+    value: '2345 6789 0123',
+    confidence: 0.9,
+    bbox: { x: 10, y: 10, width: 200, height: 20 },
+    pageNumber: 1,
+  };
+
+  const phone: Detection = {
+    type: 'PHONE',
+    value: '9876543210',
+    confidence: 0.85,
+    bbox: { x: 10, y: 40, width: 120, height: 20 },
+    pageNumber: 1,
+  };
+
+  const detections: DetectionResult = {
+    detections: [aadhaar, phone],
+  };
+
+  const startReview = (): ProcessingState =>
+    processingReducer({ status: 'detecting' }, { type: 'START_REVIEW', ocrResult, detections });
+
+  describe('review step', () => {
+    it('should enter review with every detection enabled', () => {
+      const state = startReview();
+
+      expect(state.status).toBe('reviewing');
+      if (state.status !== 'reviewing') return;
+      expect(state.items).toHaveLength(2);
+      expect(state.items.every(item => item.enabled)).toBe(true);
+    });
+
+    it('should start low-confidence detections disabled', () => {
+      const invoiceNumber: Detection = { ...aadhaar, value: '2345 6789 0123', confidence: 0.5 };
+      const state = processingReducer(
+        { status: 'detecting' },
+        { type: 'START_REVIEW', ocrResult, detections: { detections: [invoiceNumber, phone] } }
+      );
+      if (state.status !== 'reviewing') throw new Error('Expected review state');
+
+      expect(state.items.map(item => item.enabled)).toEqual([false, true]);
+      expect(buildDetectionResult(state.items).detections).toEqual([phone]);
+    });
+
+    it('should exclude toggled-off detections from redaction', () => {
+      let state = startReview();
+      if (state.status !== 'reviewing') throw new Error('Expected review state');
+
+      state = processingReducer(state, { type: 'TOGGLE_REVIEW_ITEM', id: state.items[1].id });
+      if (state.status !== 'reviewing') throw new Error('Expected review state');
+
+      const result = buildDetectionResult(state.items);
+      expect(getDetectionsByType(result, 'AADHAAR')).toHaveLength(1);
+      expect(getDetectionsByType(result, 'PHONE')).toHaveLength(0);
+    });
+
+    it('should resize a detection and normalize inverted boxes', () => {
+      let state = startReview();
+      if (state.status !== 'reviewing') throw new Error('Expected review state');
+
+      state = processingReducer(state, {
+        type: 'UPDATE_REVIEW_ITEM_BBOX',
+        id: state.items[0].id,
+        bbox: { x: 100, y: 50, width: -40, height: -30 },
+      });
+      if (state.status !== 'reviewing') throw new Error('Expected review state');
+
+      expect(state.items[0].detection.bbox).toEqual({ x: 60, y: 20, width: 40, height: 30 });
+    });
+
+    it('should drop character boxes and regions from a resized detection', () => {
+      const charBoxes = Array.from(aadhaar.value, (_, i) => ({ x: 10 + i * 14, y: 10, width: 14, height: 20 }));
+      const regions = [aadhaar.bbox];
+      let state = processingReducer(
+        { status: 'detecting' },
+        { type: 'START_REVIEW', ocrResult, detections: { detections: [{ ...aadhaar, charBoxes, regions }] } }
+      );
+      if (state.status !== 'reviewing') throw new Error('Expected review state');
+
+      state = processingReducer(state, {
+        type: 'UPDATE_REVIEW_ITEM_BBOX',
+        id: state.items[0].id,
+        bbox: { x: 0, y: 0, width: 250, height: 30 },
+      });
+      if (state.status !== 'reviewing') throw new Error('Expected review state');
+
+      expect(state.items[0].detection.charBoxes).toBeUndefined();
+      expect(state.items[0].detection.regions).toBeUndefined();
+    });
+
+    it('should add and remove manually drawn boxes with unique ids', () => {
+      let state = startReview();
+      const bbox = { x: 300, y: 300, width: 50, height: 20 };
+
+      state = processingReducer(state, { type: 'ADD_MANUAL_REDACTION', pageNumber: 1, bbox });
+      state = processingReducer(state, { type: 'ADD_MANUAL_REDACTION', pageNumber: 1, bbox });
+      if (state.status !== 'reviewing') throw new Error('Expected review state');
+
+      const manualIds = state.items.filter(item => item.source === 'manual').map(item => item.id);
+      expect(new Set(manualIds).size).toBe(2);
+
+      state = processingReducer(state, { type: 'REMOVE_REVIEW_ITEM', id: manualIds[0] });
+      state = processingReducer(state, { type: 'ADD_MANUAL_REDACTION', pageNumber: 1, bbox });
+      if (state.status !== 'reviewing') throw new Error('Expected review state');
+
+      const remainingIds = state.items.filter(item => item.source === 'manual').map(item => item.id);
+      expect(new Set(remainingIds).size).toBe(2);
+      expect(getDetectionsByType(buildDetectionResult(state.items), 'MANUAL')).toHaveLength(2);
+    });
+
+    it('should not remove detected items', () => {
+      let state = startReview();
+      if (state.status !== 'reviewing') throw new Error('Expected review state');
+
+      state = processingReducer(state, { type: 'REMOVE_REVIEW_ITEM', id: state.items[0].id });
+      if (state.status !== 'reviewing') throw new Error('Expected review state');
+
+      expect(state.items).toHaveLength(2);
+    });
+
+    it('should ignore review actions outside the review step', () => {
+      const state: ProcessingState = { status: 'idle' };
+
+      expect(processingReducer(state, { type: 'TOGGLE_REVIEW_ITEM', id: 'detection-1' })).toBe(state);
+    });
+  });
+
+  describe('progress', () => {
+    it('should track page progress while extracting and redacting', () => {
+      let state = processingReducer({ status: 'idle' }, { type: 'START_EXTRACTING' });
+      state = processingReducer(state, {
+        type: 'UPDATE_EXTRACTING_PROGRESS',
+        currentPage: 3,
+        totalPages: 30,
+        progress: 0.07,
+      });
+
+      expect(state).toEqual({ status: 'extracting', currentPage: 3, totalPages: 30, progress: 0.07 });
+
+      state = processingReducer(state, { type: 'START_REDACTING' });
+      state = processingReducer(state, {
+        type: 'UPDATE_REDACTING_PROGRESS',
+        currentPage: 2,
+        totalPages: 4,
+        progress: 0.25,
+      });
+
+      expect(state).toEqual({ status: 'redacting', currentPage: 2, totalPages: 4, progress: 0.25 });
+    });
+
+    it('should verify the output before completing', () => {
+      let state = processingReducer({ status: 'redacting' }, { type: 'START_VERIFYING', totalPages: 2 });
+      state = processingReducer(state, {
+        type: 'UPDATE_VERIFYING_PROGRESS',
+        currentPage: 2,
+        totalPages: 2,
+        progress: 0.5,
+      });
+
+      expect(state).toEqual({ status: 'verifying', currentPage: 2, totalPages: 2, progress: 0.5 });
+      expect(processingReducer(state, { type: 'CANCEL' })).toEqual({ status: 'cancelled' });
+
+      const result = { blob: new Blob(), mimeType: 'image/png', previewUrl: '' };
+      const verification = { leaks: [phone] };
+      state = processingReducer(state, { type: 'COMPLETE', result, detections, verification });
+
+      expect(state).toEqual({ status: 'complete', result, detections, verification });
+    });
+
+    it('should ignore progress reported for another stage', () => {
+      const state: ProcessingState = { status: 'detecting' };
+
+      expect(
+        processingReducer(state, { type: 'UPDATE_EXTRACTING_PROGRESS', currentPage: 1, totalPages: 2 })
+      ).toBe(state);
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should cancel while processing', () => {
+      const extracting: ProcessingState = { status: 'extracting', currentPage: 2, totalPages: 5 };
+
+      expect(processingReducer(extracting, { type: 'CANCEL' })).toEqual({ status: 'cancelled' });
+      expect(processingReducer({ status: 'redacting' }, { type: 'CANCEL' })).toEqual({ status: 'cancelled' });
+    });
+
+    it('should not cancel outside processing', () => {
+      const review = startReview();
+
+      expect(processingReducer(review, { type: 'CANCEL' })).toBe(review);
+    });
+
+    it('should ignore late results after cancelling', () => {
+      const cancelled = processingReducer({ status: 'detecting' }, { type: 'CANCEL' });
+
+      expect(processingReducer(cancelled, { type: 'START_REVIEW', ocrResult, detections })).toBe(cancelled);
+      expect(processingReducer(cancelled, { type: 'ERROR', error: 'OCR failed' })).toBe(cancelled);
+      expect(processingReducer(cancelled, { type: 'START_UPLOAD' })).toEqual({ status: 'uploading', progress: 0 });
+    });
+  });
+});
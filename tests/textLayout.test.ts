@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { continuesBlock, createTextLine, groupIntoLines } from '@/lib/textLayout';
+import { TextBlock } from '@/types';
+
+const word = (text: string, x: number, y: number, extra: Partial<TextBlock> = {}): TextBlock => ({
+  text,
+  confidence: 0.95,
+  bbox: { x, y, width: text.length * 10, height: 20 },
+  ...extra,
+});
+
+describe('groupIntoLines', () => {
+  it('should group words into lines by geometry, in reading order', () => {
+    const lines = groupIntoLines([
+      word('Road', 130, 42),
+      word('MG', 100, 40),
+      word('12', 70, 41),
+      word('Bengaluru', 70, 70),
+    ]);
+
+    expect(lines.map(line => line.text)).toEqual(['12 MG Road', 'Bengaluru']);
+  });
+
+  it('should split a row into columns at wide gaps', () => {
+    const lines = groupIntoLines([word('Name', 10, 10), word('Address', 400, 10)]);
+
+    expect(lines.map(line => line.text)).toEqual(['Name', 'Address']);
+  });
+
+  it('should group words by their OCR line ids when present', () => {
+    const lines = groupIntoLines([
+      word('Road', 130, 50, { lineId: 1 }),
+      word('12', 70, 40, { lineId: 1 }),
+      word('Bengaluru', 70, 70, { lineId: 2 }),
+    ]);
+
+    expect(lines.map(line => line.text)).toEqual(['12 Road', 'Bengaluru']);
+  });
+});
+
+describe('continuesBlock', () => {
+  const line = (text: string, x: number, y: number, extra: Partial<TextBlock> = {}) =>
+    createTextLine([word(text, x, y, extra)]);
+
+  it('should accept the next line of the same column', () => {
+    expect(continuesBlock(line('12 MG Road', 70, 40), line('Bengaluru', 70, 65))).toBe(true);
+  });
+
+  it('should stop at gaps, other columns, other sizes and other paragraphs', () => {
+    const previous = line('12 MG Road', 70, 40, { paragraphId: 1 });
+
+    expect(continuesBlock(previous, line('Bengaluru', 70, 120))).toBe(false);
+    expect(continuesBlock(previous, line('Bengaluru', 500, 65))).toBe(false);
+    expect(continuesBlock(previous, createTextLine([
+      { text: 'HEADING', confidence: 0.95, bbox: { x: 70, y: 65, width: 200, height: 40 } },
+    ]))).toBe(false);
+    expect(continuesBlock(previous, line('Bengaluru', 70, 65, { paragraphId: 2 }))).toBe(false);
+  });
+});
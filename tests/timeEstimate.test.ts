@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { estimateRemainingMs, formatRemainingTime } from '@/utils/timeEstimate';
+
+describe('estimateRemainingMs', () => {
+  it('should extrapolate from the average rate so far', () => {
+    expect(estimateRemainingMs(0.25, 10_000)).toBe(30_000);
+    expect(estimateRemainingMs(0.5, 60_000)).toBe(60_000);
+  });
+
+  it('should wait for enough progress and time before estimating', () => {
+    expect(estimateRemainingMs(0.01, 60_000)).toBeNull();
+    expect(estimateRemainingMs(0.5, 1_000)).toBeNull();
+  });
+
+  it('should report nothing left when done', () => {
+    expect(estimateRemainingMs(1, 10_000)).toBe(0);
+  });
+});
+
+describe('formatRemainingTime', () => {
+  it('should round to meaningful units', () => {
+    expect(formatRemainingTime(4_000)).toBe('Less than 10 seconds left');
+    expect(formatRemainingTime(41_000)).toBe('About 40 seconds left');
+    expect(formatRemainingTime(70_000)).toBe('About 1 minute left');
+    expect(formatRemainingTime(200_000)).toBe('About 3 minutes left');
+  });
+});
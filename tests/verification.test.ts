@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { expandRedactions, findLeaks, getPrintedTexts } from '@/lib/verification';
+import { DEFAULT_REDACTION_STYLE } from '@/lib/redactionStyles';
+import { Detection, DetectionResult } from '@/types';
+
+function createDetection(overrides: Partial<Detection>): Detection {
+  return {
+    type: 'PAN',
+    value: 'ABCDE1234F',
+    confidence: 0.9,
+    bbox: { x: 100, y: 100, width: 200, height: 20 },
+    pageNumber: 1,
+    ...overrides,
+  };
+}
+
+describe('findLeaks', () => {
+  const redacted: DetectionResult = {
+    detections: [
+      createDetection({}),
+      createDetection({ type: 'NAME', value: 'Ravi Kumar', bbox: { x: 100, y: 200, width: 150, height: 20 } }),
+    ],
+  };
+
+  it('should report redacted values that can still be read', () => {
+    const leak = createDetection({ value: 'ABCDE 1234F', bbox: { x: 500, y: 500, width: 200, height: 20 } });
+
+    expect(findLeaks(redacted, { detections: [leak] })).toEqual([leak]);
+  });
+
+  it('should report detections of the same type overlapping a redacted box', () => {
+    const edge = createDetection({ value: 'ABCDE1234', bbox: { x: 290, y: 95, width: 40, height: 30 } });
+    const otherType = createDetection({ type: 'PHONE', value: '9876543210', bbox: edge.bbox });
+    const otherPage = createDetection({ value: 'ABCDE1234', bbox: edge.bbox, pageNumber: 2 });
+
+    expect(findLeaks(redacted, { detections: [edge, otherType, otherPage] })).toEqual([edge]);
+  });
+
+  it('should ignore text printed by the redaction', () => {
+    const style = { ...DEFAULT_REDACTION_STYLE, type: 'label' as const };
+    const label = createDetection({ type: 'NAME', value: 'REDACTED', bbox: redacted.detections[1].bbox });
+
+    expect(getPrintedTexts(redacted, style)).toEqual(['[PAN REDACTED]', '[NAME REDACTED]']);
+    expect(findLeaks(redacted, { detections: [label] }, getPrintedTexts(redacted, style))).toEqual([]);
+    expect(findLeaks(redacted, { detections: [label] })).toEqual([label]);
+  });
+});
+
+describe('expandRedactions', () => {
+  it('should grow every box and add the leaks', () => {
+    const leak = createDetection({ pageNumber: 2, bbox: { x: 1, y: 50, width: 100, height: 10 } });
+    const expanded = expandRedactions(
+      {
+        detections: [
+          createDetection({
+            regions: [{ x: 100, y: 100, width: 200, height: 20 }],
+            charBoxes: [{ x: 100, y: 100, width: 20, height: 20 }],
+          }),
+        ],
+      },
+      [leak]
+    );
+
+    expect(expanded.detections).toMatchObject([
+      {
+        bbox: { x: 96, y: 96, width: 208, height: 28 },
+        regions: [{ x: 96, y: 96, width: 208, height: 28 }],
+        charBoxes: [{ x: 100, y: 96, width: 20, height: 28 }],
+      },
+      { pageNumber: 2, bbox: { x: 0, y: 48, width: 103, height: 14 } },
+    ]);
+  });
+});
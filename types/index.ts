@@ -4,6 +4,41 @@ export interface FileError {
   message: string;
 }
 
+// OCR Types
+/**
+ * Language of the document text. 'auto' reads English and Hindi, the
+ * languages printed on Aadhaar cards; the others read English plus the
+ * chosen language, since Indian IDs are bilingual.
+ */
+export type OCRLanguage =
+  | 'auto'
+  | 'eng'
+  | 'hin'
+  | 'mar'
+  | 'ben'
+  | 'guj'
+  | 'pan'
+  | 'ori'
+  | 'tam'
+  | 'tel'
+  | 'kan'
+  | 'mal';
+
+/**
+ * Progress of a multi-page operation (OCR or redaction)
+ */
+export interface PageProgress {
+  completedPages: number;
+  totalPages: number;
+  progress: number; // 0-1 across the whole document, including pages in progress
+}
+
+export interface OCROptions {
+  language?: OCRLanguage; // Defaults to 'auto'
+  onProgress?: (progress: PageProgress) => void; // Called as pages are read, at most once per percent
+  signal?: AbortSignal; // Aborting stops OCR and rejects with a CancelledError
+}
+
 // OCR Result Types
 export interface BoundingBox {
   x: number;
@@ -16,6 +51,18 @@ export interface TextBlock {
   text: string;
   confidence: number;
   bbox: BoundingBox;
+  lineId?: number; // OCR text line the word belongs to, when the OCR engine reports layout
+  paragraphId?: number; // OCR paragraph the word belongs to, when the OCR engine reports layout
+}
+
+/**
+ * How a PDF page was rendered to pixels for OCR.
+ * Bounding boxes on the page are in this pixel space.
+ */
+export interface PageGeometry {
+  scale: number; // Pixels per PDF point
+  rotation: number; // Page rotation in degrees (0, 90, 180 or 270)
+  viewBox: [number, number, number, number]; // Visible page box [x1, y1, x2, y2] in PDF user space
 }
 
 export interface PageData {
@@ -23,6 +70,8 @@ export interface PageData {
   width: number;
   height: number;
   textBlocks: TextBlock[];
+  geometry?: PageGeometry; // Only set for PDF pages
+  textSource?: 'ocr' | 'text-layer' | 'mixed'; // Where the text blocks came from
 }
 
 export interface OCRResult {
@@ -32,7 +81,30 @@ export interface OCRResult {
 }
 
 // Detection Result Types
-export type DetectionType = 'AADHAAR' | 'PAN' | 'PHONE' | 'ADDRESS';
+/**
+ * Detection types that ship with the tool. Custom detectors can register any
+ * other type name through the detector registry.
+ */
+export type BuiltInDetectionType =
+  | 'AADHAAR'
+  | 'PAN'
+  | 'PHONE'
+  | 'ADDRESS'
+  | 'PASSPORT'
+  | 'VOTER_ID'
+  | 'DRIVING_LICENCE'
+  | 'GSTIN'
+  | 'IFSC'
+  | 'BANK_ACCOUNT'
+  | 'DOB'
+  | 'NAME'
+  | 'PHOTO'
+  | 'QR_CODE'
+  | 'BARCODE'
+  | 'MANUAL';
+
+// `string & {}` keeps editor completion for the built-in names
+export type DetectionType = BuiltInDetectionType | (string & {});
 
 export interface Detection {
   type: DetectionType;
@@ -40,13 +112,156 @@ export interface Detection {
   confidence: number;
   bbox: BoundingBox;
   pageNumber: number;
+  charBoxes?: BoundingBox[]; // One box per character of value, when characters can be located
+  regions?: BoundingBox[]; // Tight boxes (e.g. one per line) to redact instead of the whole bbox
+}
+
+/**
+ * RGBA pixels of a rendered page (structurally compatible with ImageData)
+ */
+export interface PageImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
 }
 
 export interface DetectionResult {
-  aadhaarNumbers: Detection[];
-  panNumbers: Detection[];
-  phoneNumbers: Detection[];
-  addresses: Detection[];
+  detections: Detection[]; // Every detection, of every type, across all pages
+}
+
+/**
+ * How strictly check digits are enforced:
+ * - 'strict': numbers that fail validation are dropped
+ * - 'lenient': numbers that fail validation are kept with low confidence
+ * - 'off': no validation, every match gets the same confidence
+ */
+export type ChecksumStrictness = 'strict' | 'lenient' | 'off';
+
+export interface DetectionOptions {
+  signal?: AbortSignal; // Checked between detectors
+  aadhaarStrictness?: ChecksumStrictness; // For this run, instead of the detector's own setting
+}
+
+// Detector Types
+/**
+ * Display information for a detection type
+ */
+export interface DetectionTypeInfo {
+  label: string; // Shown in summaries and review, e.g. 'Aadhaar Numbers'
+  color: string; // CSS colour used for overlays and counts
+}
+
+/**
+ * What a detector knows about the document besides its text
+ */
+export interface DetectorContext {
+  detections: Detection[]; // Found by the detectors registered before this one
+  aadhaarStrictness: ChecksumStrictness; // How strictly Aadhaar check digits are enforced
+}
+
+/**
+ * A detector that finds one type of PII in OCR text
+ */
+export interface DetectorInfo extends DetectionTypeInfo {
+  type: DetectionType; // Unique name, also used as Detection.type
+}
+
+export interface DetectorDefinition extends DetectorInfo {
+  detect(ocrResult: OCRResult, context: DetectorContext): Detection[];
+}
+
+// Review Types
+/**
+ * A detection as presented in the review step.
+ * Disabled items are shown but not redacted.
+ */
+export interface ReviewItem {
+  id: string;
+  detection: Detection;
+  enabled: boolean;
+  source: 'detected' | 'manual';
+}
+
+// Redaction Option Types
+/**
+ * How PDF pages are redacted:
+ * - 'rasterize': pages with detections are rendered to an image, redacted and
+ *   replace the original page, so no text, form field or image survives under a box
+ * - 'overlay': black rectangles are drawn on top of the existing content
+ *   (faster, but the covered text remains extractable)
+ */
+export type RedactionMode = 'rasterize' | 'overlay';
+
+/**
+ * How redacted regions are painted
+ * - solid: filled with a colour
+ * - label: filled, with text such as "[AADHAAR REDACTED]" printed over it
+ * - blur, pixelate: the content is blurred or pixelated, for illustrations.
+ *   PDF pages are always rasterized with these.
+ */
+export type RedactionStyleType = 'solid' | 'label' | 'blur' | 'pixelate';
+
+export type RedactionFont = 'sans-serif' | 'serif' | 'monospace';
+
+export interface RedactionStyle {
+  type: RedactionStyleType;
+  fillColor: string; // #rrggbb, for solid and labelled boxes
+  labelColor: string; // #rrggbb
+  labelText: string; // "{type}" is replaced by the detection type, e.g. "[{type} REDACTED]"
+  font: RedactionFont;
+  strength: number; // Blur or pixelation strength, from 1 (light) to 10
+}
+
+/**
+ * Masked Aadhaar output (XXXX XXXX 1234): only the leading digits of Aadhaar
+ * numbers and VIDs are covered, leaving the last four visible. Detections
+ * without character boxes are still redacted in full.
+ */
+export interface AadhaarMaskingOptions {
+  printMaskToken: boolean; // Print "XXXX XXXX" over the covered digits instead of a black box
+}
+
+/**
+ * Parts of a PDF besides its pages that can carry the redacted information
+ */
+export type PDFPart = 'metadata' | 'annotations' | 'formFields' | 'attachments' | 'javascript' | 'bookmarks';
+
+/**
+ * What to do with a part of a PDF:
+ * - remove: strip it from the document
+ * - scrub: keep it, but mask the redacted values in its text; items whose
+ *   text cannot be rewritten (annotations, XMP metadata) are removed when
+ *   they contain a redacted value or cannot be read
+ * - keep: leave it as it is
+ */
+export type PDFSanitizeAction = 'remove' | 'scrub' | 'keep';
+
+export interface PDFSanitizationPolicy {
+  metadata: PDFSanitizeAction; // Document properties (title, author...) and XMP metadata
+  annotations: PDFSanitizeAction; // Comments, highlights, links and other markup
+  formFields: PDFSanitizeAction; // Form fields and their values
+  attachments: Exclude<PDFSanitizeAction, 'scrub'>; // Embedded files, which cannot be read
+  javascript: Exclude<PDFSanitizeAction, 'scrub'>; // Document, page and link scripts
+  bookmarks: PDFSanitizeAction; // Outline entries
+}
+
+/**
+ * Something removed from or scrubbed in a PDF, for the audit report
+ */
+export interface SanitizationRecord {
+  part: PDFPart;
+  action: 'removed' | 'scrubbed';
+  description: string; // e.g. 'Author', 'Link annotation on page 2', 'Field "aadhaar"'
+}
+
+export interface RedactionOptions {
+  mode?: RedactionMode;
+  pages?: PageData[]; // OCR pages, used to map detection boxes into PDF page space
+  aadhaarMasking?: AadhaarMaskingOptions; // Omit to redact Aadhaar numbers in full
+  style?: RedactionStyle; // Defaults to solid black boxes
+  sanitization?: PDFSanitizationPolicy; // Defaults to removing every part
+  onProgress?: (progress: PageProgress) => void; // Called after each redacted page
+  signal?: AbortSignal; // Aborting stops between pages and rejects with a CancelledError
 }
 
 // Redacted Document Types
@@ -54,18 +269,96 @@ export interface RedactedDocument {
   blob: Blob;
   mimeType: string;
   previewUrl: string;
+  sanitization?: SanitizationRecord[]; // What was removed from a PDF besides its page content
+}
+
+// Audit Report Types
+export type AuditReportFormat = 'json' | 'pdf';
+
+/**
+ * A file covered by an audit report
+ */
+export interface AuditedFile {
+  filename: string;
+  mimeType: string;
+  size: number; // Bytes
+  sha256: string; // Hex
+}
+
+/**
+ * One redacted region, without the value it covered
+ */
+export interface AuditEntry {
+  pageNumber: number;
+  type: DetectionType;
+  label: string; // e.g. 'Aadhaar Numbers'
+  bbox: BoundingBox; // In page pixels, as read by OCR
+  confidence: number; // 0-1
+  maskedValue: string; // e.g. 'XXXX XXXX 0124'
+}
+
+/**
+ * Proof of what was removed from a document
+ */
+export interface AuditReport {
+  generatedAt: string; // ISO 8601
+  detectorVersion: string;
+  input: AuditedFile;
+  output: AuditedFile;
+  redactions: AuditEntry[];
+  sanitization: SanitizationRecord[]; // Metadata, annotations and other parts removed from a PDF
+}
+
+// Verification Types
+/**
+ * What a redacted document gave away when it was read again
+ */
+export interface VerificationResult {
+  leaks: Detection[]; // Redacted PII still detectable in the output, in the same page space
 }
 
 // Processing State Types
 export type ProcessingState =
   | { status: 'idle' }
   | { status: 'uploading'; progress: number }
-  | { status: 'extracting'; currentPage?: number; totalPages?: number }
+  | { status: 'extracting'; currentPage?: number; totalPages?: number; progress?: number }
   | { status: 'detecting' }
-  | { status: 'redacting'; currentPage?: number; totalPages?: number }
-  | { status: 'complete'; result: RedactedDocument; detections: DetectionResult }
+  | { status: 'reviewing'; ocrResult: OCRResult; items: ReviewItem[] }
+  | { status: 'redacting'; currentPage?: number; totalPages?: number; progress?: number }
+  | { status: 'verifying'; currentPage?: number; totalPages?: number; progress?: number }
+  | {
+      status: 'complete';
+      result: RedactedDocument;
+      detections: DetectionResult;
+      verification?: VerificationResult; // Set when the output was verified
+    }
+  | { status: 'cancelled' }
   | { status: 'error'; error: string };
 
+// Batch Types
+/**
+ * A document processed as part of a batch:
+ * queued → processing → done | failed (failed jobs can be retried)
+ */
+export type JobStatus = 'queued' | 'processing' | 'done' | 'failed';
+
+export interface Job<T> {
+  id: string;
+  file: File;
+  status: JobStatus;
+  attempts: number; // Times processing has started, including retries
+  result?: T; // Set once done
+  error?: string; // Set when failed
+}
+
+/**
+ * A dropped file that was not queued, with the reason
+ */
+export interface SkippedFile {
+  name: string;
+  error: FileError;
+}
+
 // Application State Types
 export interface AppState {
   processingState: ProcessingState;
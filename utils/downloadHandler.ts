@@ -1,4 +1,15 @@
-import { RedactedDocument } from '@/types';
+import { zipSync, Zippable } from 'fflate';
+import { AuditReport, AuditReportFormat, RedactedDocument } from '@/types';
+import { serializeAuditReport } from '@/lib/auditReport';
+
+/**
+ * A redacted document and the name of the file it came from
+ */
+export interface ArchiveEntry {
+  document: RedactedDocument;
+  originalFilename: string; // May include a folder path, which is kept in the archive
+  auditReport?: AuditReport; // Stored as JSON next to the document
+}
 
 /**
  * DownloadHandler utility for downloading redacted documents
@@ -15,9 +26,96 @@ export class DownloadHandler {
     // Generate the new filename with "_redacted" suffix
     const filename = this.generateRedactedFilename(originalFilename);
     
+    this.saveUrl(redactedDoc.previewUrl, filename);
+    
+    // Schedule cleanup of the object URL after a short delay
+    // This ensures the download has started before we revoke the URL
+    setTimeout(() => {
+      URL.revokeObjectURL(redactedDoc.previewUrl);
+    }, 100);
+  }
+  
+  /**
+   * Download the audit report of a redacted document, named after it
+   * (e.g. "document_redacted_audit.json")
+   *
+   * @param report - The audit report
+   * @param originalFilename - The original filename (with extension)
+   * @param format - JSON or PDF
+   */
+  async downloadAuditReport(
+    report: AuditReport,
+    originalFilename: string,
+    format: AuditReportFormat
+  ): Promise<void> {
+    this.downloadBlob(
+      await serializeAuditReport(report, format),
+      this.generateAuditFilename(originalFilename, format)
+    );
+  }
+
+  /**
+   * Download several redacted documents as one ZIP archive
+   *
+   * @param entries - The documents to include
+   * @param archiveName - The archive filename (e.g., "redacted.zip")
+   */
+  async downloadArchive(entries: ArchiveEntry[], archiveName: string): Promise<void> {
+    this.downloadBlob(await this.createArchive(entries), archiveName);
+  }
+
+  /**
+   * Download a blob under the given filename
+   * Unlike downloadDocument, the document's preview URL stays valid, so it
+   * can be downloaded again.
+   *
+   * @param blob - The content to download
+   * @param filename - The filename to save as
+   */
+  downloadBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+    this.saveUrl(url, filename);
+
+    setTimeout(() => {
+      URL.revokeObjectURL(url);
+    }, 100);
+  }
+
+  /**
+   * Bundle redacted documents into a ZIP archive, named like single downloads
+   * Documents are stored uncompressed: PDFs and images are compressed already.
+   * Names that occur twice get a counter, e.g. "scan_redacted (2).png".
+   * Audit reports are stored as "<document name>_audit.json".
+   *
+   * @param entries - The documents to include
+   * @returns The archive
+   */
+  async createArchive(entries: ArchiveEntry[]): Promise<Blob> {
+    const files: Zippable = {};
+
+    for (const entry of entries) {
+      const filename = this.generateUniqueName(
+        this.generateRedactedFilename(entry.originalFilename),
+        files
+      );
+      files[filename] = new Uint8Array(await entry.document.blob.arrayBuffer());
+
+      if (entry.auditReport) {
+        const report = await serializeAuditReport(entry.auditReport, 'json');
+        files[this.toAuditFilename(filename, 'json')] = new Uint8Array(await report.arrayBuffer());
+      }
+    }
+
+    return new Blob([zipSync(files, { level: 0 })], { type: 'application/zip' });
+  }
+
+  /**
+   * Save the content of a URL through a temporary link
+   */
+  private saveUrl(url: string, filename: string): void {
     // Create a temporary anchor element to trigger the download
     const link = window.document.createElement('a');
-    link.href = redactedDoc.previewUrl;
+    link.href = url;
     link.download = filename;
     
     // Append to body (required for Firefox)
@@ -28,21 +126,54 @@ export class DownloadHandler {
     
     // Clean up: remove the link element
     window.document.body.removeChild(link);
-    
-    // Schedule cleanup of the object URL after a short delay
-    // This ensures the download has started before we revoke the URL
-    setTimeout(() => {
-      URL.revokeObjectURL(redactedDoc.previewUrl);
-    }, 100);
   }
-  
+
+  /**
+   * Add a counter before the extension until the name is not taken
+   */
+  private generateUniqueName(filename: string, taken: Zippable): string {
+    if (!(filename in taken)) {
+      return filename;
+    }
+
+    const lastDotIndex = filename.lastIndexOf('.');
+    const name = lastDotIndex === -1 ? filename : filename.substring(0, lastDotIndex);
+    const extension = lastDotIndex === -1 ? '' : filename.substring(lastDotIndex);
+
+    let counter = 2;
+    while (`${name} (${counter})${extension}` in taken) {
+      counter++;
+    }
+    return `${name} (${counter})${extension}`;
+  }
+
+  /**
+   * Generate the audit report filename for a document
+   *
+   * @param originalFilename - The original filename (e.g., "document.pdf")
+   * @param format - JSON or PDF
+   * @returns The report filename (e.g., "document_redacted_audit.json")
+   */
+  generateAuditFilename(originalFilename: string, format: AuditReportFormat): string {
+    return this.toAuditFilename(this.generateRedactedFilename(originalFilename), format);
+  }
+
+  /**
+   * Swap the extension of a redacted filename for "_audit.<format>"
+   */
+  private toAuditFilename(redactedFilename: string, format: AuditReportFormat): string {
+    const lastDotIndex = redactedFilename.lastIndexOf('.');
+    const name = lastDotIndex === -1 ? redactedFilename : redactedFilename.substring(0, lastDotIndex);
+    return `${name}_audit.${format}`;
+  }
+
   /**
    * Generate a redacted filename by adding "_redacted" suffix before the extension
    * 
    * @param originalFilename - The original filename (e.g., "document.pdf")
    * @returns The redacted filename (e.g., "document_redacted.pdf")
    */
-  private generateRedactedFilename(originalFilename: string): string {
+  generateRedactedFilename(originalFilename: string): string {
     // Find the last dot to separate name and extension
     const lastDotIndex = originalFilename.lastIndexOf('.');
     
@@ -17,6 +17,7 @@ export type ErrorCode =
   | 'MULTIPAGE_ERROR'
   | 'REDACTION_FAILED'
   | 'PDF_GENERATION_ERROR'
+  | 'DOWNLOAD_FAILED'
   | 'UNKNOWN_ERROR';
 
 /**
@@ -78,6 +79,13 @@ const ERROR_MESSAGES: Record<ErrorCode, ErrorMessageConfig> = {
     actionable: 'Try uploading your document again or convert it to an image format.',
   },
 
+  // Download Errors
+  DOWNLOAD_FAILED: {
+    title: 'Download Failed',
+    message: 'Unable to prepare the download. Please try again.',
+    actionable: 'Try downloading the documents one by one if the problem persists.',
+  },
+
   // General Errors
   UNKNOWN_ERROR: {
     title: 'Unexpected Error',
@@ -106,6 +114,11 @@ export function fileErrorToCode(error: FileError): ErrorCode {
 export function parseErrorMessage(errorMessage: string): ErrorCode {
   const lowerMessage = errorMessage.toLowerCase();
 
+  // Download errors, which may name the redacted file
+  if (lowerMessage.includes('download')) {
+    return 'DOWNLOAD_FAILED';
+  }
+
   // OCR errors
   if (lowerMessage.includes('extract') || lowerMessage.includes('ocr')) {
     return 'OCR_FAILED';
@@ -58,3 +58,15 @@ export function getFileExtension(filename: string): string {
   const parts = filename.split('.');
   return parts.length > 1 ? parts[parts.length - 1].toLowerCase() : '';
 }
+
+/**
+ * Gets the path of a file inside the folder it was dropped or picked from
+ * @param file - The file, as returned by the dropzone or a directory input
+ * @returns The relative path (e.g., 'scans/aadhaar.png'), or the filename for single files
+ */
+export function getRelativePath(file: File): string {
+  // The dropzone sets relativePath, including for files dropped from a folder
+  const path =
+    (file as File & { relativePath?: string }).relativePath || file.webkitRelativePath || file.name;
+  return path.replace(/^\.?\//, '');
+}
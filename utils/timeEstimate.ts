@@ -0,0 +1,46 @@
+/**
+ * Remaining-time estimates for long-running stages
+ */
+
+/**
+ * Progress and elapsed time needed before estimates settle: the first pages
+ * include worker start-up and are not representative
+ */
+const MIN_PROGRESS_FOR_ESTIMATE = 0.05;
+const MIN_ELAPSED_FOR_ESTIMATE_MS = 3000;
+
+/**
+ * Estimate the time left, assuming the rest goes at the average rate so far
+ * @param progress - Fraction done (0-1)
+ * @param elapsedMs - Time since the stage started
+ * @returns Milliseconds remaining, or null while there is too little to go on
+ */
+export function estimateRemainingMs(progress: number, elapsedMs: number): number | null {
+  if (progress < MIN_PROGRESS_FOR_ESTIMATE || elapsedMs < MIN_ELAPSED_FOR_ESTIMATE_MS) {
+    return null;
+  }
+  if (progress >= 1) {
+    return 0;
+  }
+
+  return (elapsedMs * (1 - progress)) / progress;
+}
+
+/**
+ * Format a remaining time for display, rounded to what is meaningful
+ * @param remainingMs - Milliseconds remaining
+ * @returns e.g. 'Less than 10 seconds left', 'About 40 seconds left', 'About 3 minutes left'
+ */
+export function formatRemainingTime(remainingMs: number): string {
+  const seconds = Math.round(remainingMs / 1000);
+
+  if (seconds < 10) {
+    return 'Less than 10 seconds left';
+  }
+  if (seconds < 60) {
+    return `About ${Math.round(seconds / 5) * 5} seconds left`;
+  }
+
+  const minutes = Math.round(seconds / 60);
+  return minutes === 1 ? 'About 1 minute left' : `About ${minutes} minutes left`;
+}